@@ -1,5 +1,6 @@
 const path = require("path");
-const { validateFormData } = require("../../core/utils/zodSchemaGenerator");
+const { validateFormData, validateKeptValues } = require("../../core/utils/zodSchemaGenerator");
+const { stripHiddenValues } = require("../../core/utils/hiddenValues");
 const { getConfigById } = require("../../core/services/form-service");
 
 /**
@@ -19,20 +20,28 @@ async function validateFormSubmission(req, res, next) {
       });
     }
 
-    // Validate form data
-    const validationResult = validateFormData(formConfig, formData);
+    // Drop values of hidden fields and steps unless their onHide policy keeps them
+    const hidden = stripHiddenValues(formConfig, formData);
+    if (hidden.stripped.length > 0) {
+      console.info(`Stripped hidden values from ${formId} submission: ${hidden.stripped.join(", ")}`);
+    }
+
+    // Validate form data, and the hidden values an onHide "keep" policy keeps (never required)
+    const validationResult = validateFormData(formConfig, hidden.values);
+    const keptResult = validateKeptValues(formConfig, hidden.kept);
 
-    if (!validationResult.success) {
+    if (!validationResult.success || !keptResult.success) {
       return res.status(400).json({
         success: false,
         error: "Validation failed",
-        validationErrors: validationResult.errors,
+        validationErrors: { ...keptResult.errors, ...validationResult.errors },
         formId,
       });
     }
 
     // Add validated data to request for use in route handler
-    req.validatedFormData = validationResult.data;
+    req.validatedFormData = { ...keptResult.data, ...validationResult.data };
+    req.strippedFields = hidden.stripped;
     req.formConfig = formConfig;
 
     next();
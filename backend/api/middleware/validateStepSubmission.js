@@ -1,5 +1,7 @@
 const { validateFormData } = require("../../core/utils/zodSchemaGenerator");
 const { getConfigById } = require("../../core/services/form-service");
+// Repeater (array) model shared with the frontend engines
+const { expandRepeaterSteps } = require("../../../shared/repeater/repeaterModel.mjs");
 
 /**
  * Middleware to validate step submission data against form configuration
@@ -18,8 +20,8 @@ async function validateStepSubmission(req, res, next) {
       });
     }
 
-    // Find the specific step
-    const step = formConfig.steps.find(s => s.id === stepId);
+    // Find the specific step, including the synthetic "<template>-details" steps of array templates
+    const step = expandRepeaterSteps(formConfig).steps.find(s => s.id === stepId);
     if (!step) {
       return res.status(404).json({
         success: false,
@@ -27,10 +29,12 @@ async function validateStepSubmission(req, res, next) {
       });
     }
 
-    // Create a temporary form config with only this step for validation
+    // Create a temporary form config with only this step for validation; its repeaters already
+    // carry their templates, and without arrayTemplates no synthetic step is added back
     const stepConfig = {
       ...formConfig,
-      steps: [step]
+      steps: [step],
+      arrayTemplates: undefined
     };
 
     // Validate step data using existing validation system
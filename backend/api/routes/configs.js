@@ -0,0 +1,84 @@
+const express = require('express');
+const { getLintReport } = require('../../core/services/form-service');
+const { countIssues } = require('../../core/services/config-linter');
+const formConfigSchema = require('../../configs/schemas/form-config.schema.json');
+const transformationSchema = require('../../configs/schemas/transformation.schema.json');
+
+const router = express.Router();
+
+const schemas = {
+  'form-config': formConfigSchema,
+  transformation: transformationSchema
+};
+
+function summarize(report) {
+  return report.reduce(
+    (totals, { issues }) => {
+      const { errors, warnings } = countIssues(issues);
+      return { errors: totals.errors + errors, warnings: totals.warnings + warnings };
+    },
+    { errors: 0, warnings: 0 }
+  );
+}
+
+/**
+ * GET /api/configs/schema/:name
+ * JSON Schema for form configs ("form-config") or transformation files ("transformation")
+ */
+router.get('/schema/:name', (req, res) => {
+  const schema = schemas[req.params.name];
+  if (!schema) {
+    return res.status(404).json({
+      success: false,
+      error: `Schema not found: ${req.params.name}`,
+      available: Object.keys(schemas)
+    });
+  }
+  res.json(schema);
+});
+
+/**
+ * GET /api/configs/lint
+ * Lint report of every registered form and transformation file
+ */
+router.get('/lint', (req, res) => {
+  try {
+    const report = getLintReport();
+    res.json({
+      success: true,
+      data: { ...summarize(report), files: report }
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/configs/lint/:formId
+ * Lint report of one form's config and transformation files
+ */
+router.get('/lint/:formId', (req, res) => {
+  try {
+    const report = getLintReport(req.params.formId);
+    if (report.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: `Form configuration not found: ${req.params.formId}`
+      });
+    }
+    res.json({
+      success: true,
+      data: { ...summarize(report), files: report }
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+module.exports = router;
@@ -1,10 +1,60 @@
 const express = require('express');
+const crypto = require('crypto');
 const { getConfigById, getAllConfigs } = require('../../core/services/form-service');
+const { getDraftStore } = require('../../core/services/draft-store');
+const { getSubmissionStore } = require('../../core/services/submission-store');
+const { prefillFromLoanData, toDatabaseDocument } = require('../../core/services/transformation-service');
+const { getPriceQuote } = require('../../core/services/pricing-service');
 const { validateFormSubmission } = require('../middleware/validateFormSubmission');
 const { validateStepSubmission } = require('../middleware/validateStepSubmission');
 
 const router = express.Router();
 
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Parse paging (page, pageSize) and date filters (from, to) for submission listings
+ * @returns {{ error?: string, page: number, pageSize: number, from?: Date, to?: Date }}
+ */
+function parseSubmissionQuery(query) {
+  const page = query.page === undefined ? 1 : Number(query.page);
+  const pageSize = query.pageSize === undefined ? 20 : Number(query.pageSize);
+
+  if (!Number.isInteger(page) || page < 1) {
+    return { error: 'page must be a positive integer' };
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    return { error: `pageSize must be an integer between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  const parsed = { page, pageSize };
+  for (const key of ['from', 'to']) {
+    if (query[key] === undefined) continue;
+    const date = new Date(query[key]);
+    if (isNaN(date.getTime())) {
+      return { error: `${key} must be a valid date` };
+    }
+    // A bare date as `to` covers the whole day
+    if (key === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(query[key])) {
+      date.setUTCHours(23, 59, 59, 999);
+    }
+    parsed[key] = date;
+  }
+  return parsed;
+}
+
+/**
+ * Delete the draft of a submitted session. The submission is already stored, so a draft that
+ * cannot be deleted (e.g. an invalid sessionId) is logged rather than failing the request.
+ */
+async function deleteSubmittedDraft(formId, sessionId) {
+  try {
+    await getDraftStore().delete(formId, String(sessionId));
+  } catch (error) {
+    console.warn(`Could not delete draft ${sessionId} of ${formId}:`, error.message);
+  }
+}
+
 /**
  * GET /api/forms
  * Get all available form configurations
@@ -54,29 +104,114 @@ router.get('/:formId', (req, res) => {
   }
 });
 
+/**
+ * POST /api/forms/:formId/prefill
+ * Map a loan payload to form default values using the form's inbound transformation
+ * Body: { loanData, context? } or the loan payload itself
+ */
+router.post('/:formId/prefill', (req, res) => {
+  try {
+    const { formId } = req.params;
+
+    if (!getConfigById(formId)) {
+      return res.status(404).json({
+        success: false,
+        error: `Form configuration not found: ${formId}`
+      });
+    }
+
+    const { loanData = req.body, context = {} } = req.body.loanData ? req.body : {};
+    const values = prefillFromLoanData(formId, loanData, context);
+
+    if (!values) {
+      return res.status(404).json({
+        success: false,
+        error: `No transformation configured for form: ${formId}`
+      });
+    }
+
+    res.json({
+      success: true,
+      data: values
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * POST /api/forms/:formId/price
+ * Indicative rate and payment for the current answers (body: { values })
+ * `data` is null while answers the pricing needs are missing
+ */
+router.post('/:formId/price', async (req, res) => {
+  try {
+    const { formId } = req.params;
+    const config = getConfigById(formId);
+
+    if (!config) {
+      return res.status(404).json({
+        success: false,
+        error: `Form configuration not found: ${formId}`
+      });
+    }
+
+    if (!config.pricing) {
+      return res.status(404).json({
+        success: false,
+        error: `No pricing configured for form: ${formId}`
+      });
+    }
+
+    const quote = await getPriceQuote(config, req.body?.values || {});
+
+    res.json({
+      success: true,
+      data: quote
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
 /**
  * POST /api/forms/:formId/submit
- * Handle form submission with validation and log the response
+ * Validate a form submission, map it through the outbound transformation and persist both.
+ * Query: sessionId (optional) - the session's draft is deleted once the submission is stored
  */
-router.post('/:formId/submit', validateFormSubmission, (req, res) => {
+router.post('/:formId/submit', validateFormSubmission, async (req, res) => {
   try {
     const { formId } = req.params;
-    const originalPayload = req.body;
     const validatedData = req.validatedFormData;
 
-    console.log('=== FORM SUBMISSION ===');
-    console.log('Form ID:', formId);
-    console.log('Original Payload:', JSON.stringify(originalPayload, null, 2));
-    console.log('Validated Data:', JSON.stringify(validatedData, null, 2));
-    console.log('Timestamp:', new Date().toISOString());
-    console.log('========================');
+    const document = toDatabaseDocument(formId, validatedData);
+
+    const submission = await getSubmissionStore().create({
+      formId,
+      formVersion: req.formConfig.metadata?.version,
+      data: validatedData,
+      document
+    });
+
+    if (req.query.sessionId) {
+      await deleteSubmittedDraft(formId, req.query.sessionId);
+    }
 
     res.json({
       success: true,
-      message: 'Form submission received, validated, and logged',
+      message: 'Form submission received, validated, and stored',
       formId,
+      submissionId: submission.id,
       validatedData,
-      timestamp: new Date().toISOString()
+      strippedFields: req.strippedFields,
+      document,
+      timestamp: submission.submittedAt
     });
   } catch (error) {
     console.error('Error processing form submission:', error);
@@ -87,38 +222,114 @@ router.post('/:formId/submit', validateFormSubmission, (req, res) => {
   }
 });
 
+/**
+ * GET /api/forms/:formId/submissions
+ * List stored submissions for a form, newest first
+ * Query: page (default 1), pageSize (default 20, max 100), from/to (ISO dates, inclusive)
+ */
+router.get('/:formId/submissions', async (req, res) => {
+  try {
+    const { formId } = req.params;
+
+    if (!getConfigById(formId)) {
+      return res.status(404).json({
+        success: false,
+        error: `Form configuration not found: ${formId}`
+      });
+    }
+
+    const query = parseSubmissionQuery(req.query);
+    if (query.error) {
+      return res.status(400).json({
+        success: false,
+        error: query.error
+      });
+    }
+
+    const { page, pageSize, from, to } = query;
+    const { items, total } = await getSubmissionStore().list({
+      formId,
+      from,
+      to,
+      offset: (page - 1) * pageSize,
+      limit: pageSize
+    });
+
+    res.json({
+      success: true,
+      data: items,
+      total,
+      page,
+      pageSize
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
 /**
  * POST /api/forms/:formId/save-progress
- * Handle step-wise form progress saving with validation
+ * Validate a step and merge it into the session's draft.
+ * A new sessionId is issued when the request does not carry one.
  */
-router.post('/:formId/save-progress', validateStepSubmission, (req, res) => {
+router.post('/:formId/save-progress', validateStepSubmission, async (req, res) => {
   try {
     const { formId } = req.params;
-    const { stepId, sessionId } = req.body;
+    const { stepId, currentStepIndex } = req.body;
+    const sessionId = req.body.sessionId || crypto.randomUUID();
     const validatedData = req.validatedStepData;
     const step = req.step;
 
-    console.log('=== STEP SAVE ===');
-    console.log('Form ID:', formId);
-    console.log('Step ID:', stepId);
-    console.log('Session ID:', sessionId);
-    console.log('Step Name:', step.name);
-    console.log('Validated Data:', JSON.stringify(validatedData, null, 2));
-    console.log('Timestamp:', new Date().toISOString());
-    console.log('=================');
+    const draft = await getDraftStore().save(formId, sessionId, {
+      values: validatedData,
+      currentStepId: stepId,
+      currentStepIndex
+    });
 
     res.json({
       success: true,
       message: 'Step progress saved successfully',
       formId,
       stepId,
+      sessionId,
       stepName: step.name,
       validatedData,
-      timestamp: new Date().toISOString()
+      timestamp: draft.updatedAt
     });
   } catch (error) {
     console.error('Error processing step save:', error);
-    res.status(500).json({
+    res.status(error.status || 500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+/**
+ * GET /api/forms/:formId/drafts/:sessionId
+ * Get the saved draft (values and current step) for a session
+ */
+router.get('/:formId/drafts/:sessionId', async (req, res) => {
+  try {
+    const { formId, sessionId } = req.params;
+    const draft = await getDraftStore().get(formId, sessionId);
+
+    if (!draft) {
+      return res.status(404).json({
+        success: false,
+        error: `Draft not found: ${sessionId}`
+      });
+    }
+
+    res.json({
+      success: true,
+      data: draft
+    });
+  } catch (error) {
+    res.status(error.status || 500).json({
       success: false,
       error: error.message
     });
@@ -0,0 +1,35 @@
+const express = require('express');
+const { getOptions } = require('../../core/services/option-source-service');
+
+const router = express.Router();
+
+/**
+ * GET /api/options/:sourceId
+ * Options of a dynamic option source; query params carry the dependency values
+ * (e.g. /api/options/counties?state=CA)
+ */
+router.get('/:sourceId', async (req, res) => {
+  try {
+    const { sourceId } = req.params;
+    const options = await getOptions(sourceId, req.query);
+
+    if (!options) {
+      return res.status(404).json({
+        success: false,
+        error: `Option source not found: ${sourceId}`
+      });
+    }
+
+    res.json({
+      success: true,
+      data: options
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+module.exports = router;
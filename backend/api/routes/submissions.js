@@ -0,0 +1,33 @@
+const express = require('express');
+const { getSubmissionStore } = require('../../core/services/submission-store');
+
+const router = express.Router();
+
+/**
+ * GET /api/submissions/:id
+ * Get a stored submission by ID
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const submission = await getSubmissionStore().get(req.params.id);
+
+    if (!submission) {
+      return res.status(404).json({
+        success: false,
+        error: `Submission not found: ${req.params.id}`
+      });
+    }
+
+    res.json({
+      success: true,
+      data: submission
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: error.message
+    });
+  }
+});
+
+module.exports = router;
@@ -3,6 +3,9 @@ const cors = require('cors');
 const helmet = require('helmet');
 const rateLimit = require('express-rate-limit');
 const formsRouter = require('./routes/forms');
+const submissionsRouter = require('./routes/submissions');
+const optionsRouter = require('./routes/options');
+const configsRouter = require('./routes/configs');
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -52,6 +55,9 @@ app.get('/health', (req, res) => {
 
 // API routes
 app.use('/api/forms', formsRouter);
+app.use('/api/submissions', submissionsRouter);
+app.use('/api/options', optionsRouter);
+app.use('/api/configs', configsRouter);
 
 // API documentation endpoint
 app.get('/api', (req, res) => {
@@ -62,7 +68,18 @@ app.get('/api', (req, res) => {
       'GET /health': 'Health check',
       'GET /api/forms': 'Get all form configurations',
       'GET /api/forms/:formId': 'Get specific form configuration',
-      'POST /api/forms/reload': 'Reload form configurations from disk'
+      'POST /api/forms/reload': 'Reload form configurations from disk',
+      'POST /api/forms/:formId/save-progress': 'Validate a step and save it to the session draft',
+      'GET /api/forms/:formId/drafts/:sessionId': 'Get the saved draft for a session',
+      'POST /api/forms/:formId/prefill': 'Map a loan payload to form default values',
+      'POST /api/forms/:formId/price': 'Indicative rate and payment for the current answers (stub pricer)',
+      'POST /api/forms/:formId/submit': 'Validate and store a form submission with its database document',
+      'GET /api/forms/:formId/submissions': 'List stored submissions (page, pageSize, from, to)',
+      'GET /api/submissions/:id': 'Get a stored submission',
+      'GET /api/options/:sourceId': 'Get the options of a dynamic option source (dependency values as query params)',
+      'GET /api/configs/schema/:name': 'Get the JSON Schema for form configs (form-config) or transformation files (transformation)',
+      'GET /api/configs/lint': 'Lint every registered form config and transformation file',
+      'GET /api/configs/lint/:formId': 'Lint one form config and its transformation file'
     },
     description: 'Simple configuration server for form definitions. All form processing logic runs in the frontend.'
   });
@@ -227,6 +227,9 @@ const transform = (config, loanData, context = {}) => {
     if (isDynamicField(fieldName)) {
       // Handle dynamic fields that expand to multiple form fields
       Object.assign(result, value || {});
+    } else if (isRowPath(fieldName)) {
+      // "borrowers[].first_name": one value per repeater row
+      setRowValues(result, fieldName, value);
     } else {
       result[fieldName] = value;
     }
@@ -246,7 +249,9 @@ const reverseTransform = (config, formData, context = {}) => {
     const value = resolveField(dbField, sources, formData);
 
     // Handle nested object paths for database storage
-    if (dbField.includes(".")) {
+    if (isRowPath(dbField)) {
+      setRowValues(result, dbField, value);
+    } else if (dbField.includes(".")) {
       setNestedValue(result, dbField, value);
     } else {
       result[dbField] = value;
@@ -282,6 +287,32 @@ const setNestedValue = (obj, path, value) => {
   current[finalKey] = value;
 };
 
+/**
+ * Check if a path addresses every row of an array ("borrowers[].personal.firstName")
+ */
+const isRowPath = (path) => path.includes("[]");
+
+/**
+ * Set one value per array row: the first "[]" of `path` is replaced by each
+ * row index in turn (`values[0]` → borrowers[0]..., `values[1]` → borrowers[1]...).
+ * Further "[]" are resolved the same way against nested arrays.
+ */
+const setRowValues = (obj, path, values) => {
+  if (!Array.isArray(values)) return;
+  const marker = path.indexOf("[]");
+  const prefix = path.slice(0, marker);
+  const rest = path.slice(marker + 2);
+
+  values.forEach((value, index) => {
+    const rowPath = `${prefix}[${index}]${rest}`;
+    if (isRowPath(rowPath)) {
+      setRowValues(obj, rowPath, value);
+    } else {
+      setNestedValue(obj, rowPath, value);
+    }
+  });
+};
+
 /**
  * Validate transformation configuration
  */
@@ -0,0 +1,386 @@
+const formConfigSchema = require('../../configs/schemas/form-config.schema.json');
+const transformationSchema = require('../../configs/schemas/transformation.schema.json');
+const { validateSchema, toPointer } = require('../utils/jsonSchema');
+const { globalRuleTypes } = require('../utils/globalRuleExecutor');
+const { getExpressionVars } = require('../../../shared/computed/computedFields.mjs');
+const { expandRepeaterSteps, getRepeaterTemplate, isRepeaterField } = require('../../../shared/repeater/repeaterModel.mjs');
+const { normalizeValidationRules, getRuleIssue, getValidationRule } = require('../../../shared/validation/ruleRegistry.mjs');
+
+/**
+ * Config linter: checks form configs against configs/schemas/form-config.schema.json and
+ * transformation.json files against configs/schemas/transformation.schema.json, then checks
+ * the cross-references a schema cannot express (condition vars, template names, rule fields...).
+ *
+ * Every issue is `{ severity: "error" | "warning", pointer, message }` where `pointer` is a
+ * JSON pointer into the linted file (after shared-field $ref resolution for form configs).
+ * Unknown properties are warnings so configs can carry keys the engines do not read yet.
+ */
+
+const STATIC_FIELD_TYPES = ['label', 'heading', 'paragraph', 'divider', 'info', 'markdown'];
+
+function issue(severity, path, message) {
+  return { severity, pointer: toPointer(path), message };
+}
+
+function editDistance(a, b) {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+/**
+ * Closest known property name for a likely typo (e.g. helperText -> helpText)
+ */
+function suggestProperty(name, known) {
+  const lower = name.toLowerCase();
+  let best = null;
+  let bestDistance = Infinity;
+  for (const candidate of known || []) {
+    const distance = editDistance(lower, candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best && bestDistance <= Math.max(1, Math.floor(name.length / 4)) ? best : null;
+}
+
+function schemaIssues(schema, document) {
+  return validateSchema(schema, document).map((found) => {
+    if (found.keyword !== 'additionalProperties') {
+      return { severity: 'error', pointer: found.pointer, message: found.message };
+    }
+    const suggestion = suggestProperty(found.property, found.known);
+    return {
+      severity: 'warning',
+      pointer: found.pointer,
+      message: suggestion ? `${found.message} (did you mean "${suggestion}"?)` : found.message
+    };
+  });
+}
+
+function rootName(path) {
+  return String(path).split(/[.[]/)[0];
+}
+
+/**
+ * Value names a form config can read: field names (including synthetic repeater steps)
+ * and array template names
+ */
+function getValueNames(config) {
+  const names = new Set(Object.keys(config?.arrayTemplates || {}));
+  for (const step of expandRepeaterSteps(config).steps) {
+    for (const field of step.fields || []) {
+      if (field.name) names.add(field.name);
+    }
+  }
+  return names;
+}
+
+function checkVars(issues, expression, names, path, what) {
+  for (const name of getExpressionVars(expression)) {
+    if (!names.has(rootName(name))) {
+      issues.push(issue('error', path, `${what} reads unknown field "${name}"`));
+    }
+  }
+}
+
+function checkFieldRef(issues, name, names, path, what) {
+  if (typeof name === 'string' && !names.has(rootName(name))) {
+    issues.push(issue('error', path, `${what} references unknown field "${name}"`));
+  }
+}
+
+/**
+ * Template field ids of every repeater, by repeater name
+ */
+function getRowFieldIds(config) {
+  const rowFields = new Map();
+  for (const step of expandRepeaterSteps(config).steps) {
+    for (const field of step.fields || []) {
+      if (!isRepeaterField(field)) continue;
+      const template = getRepeaterTemplate(field, config);
+      rowFields.set(field.name, new Set((template?.fieldTemplate || []).map((rowField) => rowField?.id)));
+    }
+  }
+  return rowFields;
+}
+
+function checkRowFieldRef(issues, repeater, rowField, rowFields, path, what) {
+  const ids = rowFields.get(repeater);
+  if (ids && typeof rowField === 'string' && !ids.has(rowField)) {
+    issues.push(issue('error', path, `${what} references unknown row field "${rowField}" of "${repeater}"`));
+  }
+}
+
+// "borrowers[].first_name": the field and, for a repeater, the row field
+function checkMappedField(issues, name, names, rowFields, path, what) {
+  checkFieldRef(issues, name, names, path, what);
+  const row = typeof name === 'string' ? /^([^.[]+)\[\]\.([^.[]+)/.exec(name) : null;
+  if (row) checkRowFieldRef(issues, row[1], row[2], rowFields, path, what);
+}
+
+function checkValidationRules(issues, rules, path) {
+  (Array.isArray(rules) ? rules : []).forEach((entry, index) => {
+    const [rule] = normalizeValidationRules([entry]);
+    const message = rule ? getRuleIssue(rule) : 'Unrecognised validation entry';
+    if (message) issues.push(issue('error', [...path, index], message));
+  });
+}
+
+function checkField(issues, field, path, config, names) {
+  if (STATIC_FIELD_TYPES.includes(field.type) && field.type !== 'divider' && !field.text && !field.label) {
+    issues.push(issue('warning', path, `Static "${field.type}" field has no text or label`));
+  }
+
+  checkVars(issues, field.conditions, names, [...path, 'conditions'], 'Condition');
+  (field.options || []).forEach((option, index) => {
+    checkVars(issues, option?.conditions, names, [...path, 'options', index, 'conditions'], 'Option condition');
+  });
+  if (field.type === 'computed') {
+    checkVars(issues, field.expression, names, [...path, 'expression'], 'Computed expression');
+  }
+  if (field.defaultValue && typeof field.defaultValue === 'object') {
+    checkVars(issues, field.defaultValue.expression, names, [...path, 'defaultValue', 'expression'], 'Default value expression');
+  }
+  checkValidationRules(issues, field.validation, [...path, 'validation']);
+
+  if (field.arrayController && !config.arrayTemplates?.[field.arrayController]) {
+    issues.push(issue('error', [...path, 'arrayController'], `Unknown array template "${field.arrayController}"`));
+  }
+  if (isRepeaterField(field) && !getRepeaterTemplate(field, config)) {
+    issues.push(issue('error', [...path, 'template'], `Unknown array template "${field.template || field.name}"`));
+  }
+
+  if (field.prefillFrom && typeof field.prefillFrom === 'object') {
+    const prefillPath = [...path, 'prefillFrom'];
+    checkFieldRef(issues, field.prefillFrom.path, names, [...prefillPath, 'path'], 'Prefill source');
+    if (field.prefillFrom.transform && typeof field.prefillFrom.transform === 'object') {
+      checkVars(issues, field.prefillFrom.transform, new Set([...names, 'value']), [...prefillPath, 'transform'], 'Prefill transform');
+    }
+  } else {
+    checkFieldRef(issues, field.prefillFrom, names, [...path, 'prefillFrom'], 'Prefill source');
+  }
+  for (const [param, target] of Object.entries(field.optionsSource?.params || {})) {
+    checkFieldRef(issues, target, names, [...path, 'optionsSource', 'params', param], 'Option source param');
+  }
+  for (const [trigger, target] of Object.entries(field.autoTriggers || {})) {
+    checkFieldRef(issues, target?.field, names, [...path, 'autoTriggers', trigger, 'field'], 'Auto trigger');
+  }
+  (field.dependencies || []).forEach((name, index) => {
+    checkFieldRef(issues, name, names, [...path, 'dependencies', index], 'Dependency');
+  });
+}
+
+function checkSteps(issues, config, names) {
+  const stepIds = new Map();
+  const fieldSteps = new Map();
+  const phases = new Set((config.flowConfig?.phases || []).map((phase) => phase?.id));
+
+  (config.steps || []).forEach((step, stepIndex) => {
+    if (!step || typeof step !== 'object') return;
+    const stepPath = ['steps', stepIndex];
+
+    if (stepIds.has(step.id)) {
+      issues.push(issue('error', [...stepPath, 'id'], `Duplicate step id "${step.id}" (also /steps/${stepIds.get(step.id)})`));
+    } else {
+      stepIds.set(step.id, stepIndex);
+    }
+    if (step.phase && phases.size > 0 && !phases.has(step.phase)) {
+      issues.push(issue('error', [...stepPath, 'phase'], `Unknown phase "${step.phase}" (not in flowConfig.phases)`));
+    }
+    checkVars(issues, step.conditions, names, [...stepPath, 'conditions'], 'Step condition');
+
+    const stepFields = new Set();
+    (step.fields || []).forEach((field, fieldIndex) => {
+      if (!field || typeof field !== 'object') return;
+      const fieldPath = [...stepPath, 'fields', fieldIndex];
+
+      if (field.name && !STATIC_FIELD_TYPES.includes(field.type)) {
+        if (stepFields.has(field.name)) {
+          issues.push(issue('error', [...fieldPath, 'name'], `Duplicate field "${field.name}" in step "${step.id}"`));
+        } else if (fieldSteps.has(field.name)) {
+          issues.push(issue('warning', [...fieldPath, 'name'], `Field "${field.name}" is also defined in step "${fieldSteps.get(field.name)}"`));
+        }
+        stepFields.add(field.name);
+        if (!fieldSteps.has(field.name)) fieldSteps.set(field.name, step.id);
+      }
+
+      checkField(issues, field, fieldPath, config, names);
+    });
+  });
+
+  return stepIds;
+}
+
+function checkArrayTemplates(issues, config, names) {
+  for (const [templateName, template] of Object.entries(config.arrayTemplates || {})) {
+    if (!template || typeof template !== 'object') continue;
+    const path = ['arrayTemplates', templateName];
+
+    if (template.countExpression !== undefined) {
+      checkVars(issues, template.countExpression, names, [...path, 'countExpression'], 'Count expression');
+    } else {
+      checkFieldRef(issues, template.countField, names, [...path, 'countField'], 'Count field');
+    }
+
+    // Row conditions also see the row's own fields and its index
+    const rowNames = new Set([...names, 'index']);
+    const ids = new Set();
+    (template.fieldTemplate || []).forEach((field, index) => {
+      if (!field?.id) return;
+      if (ids.has(field.id)) {
+        issues.push(issue('error', [...path, 'fieldTemplate', index, 'id'], `Duplicate template field "${field.id}"`));
+      }
+      ids.add(field.id);
+      rowNames.add(field.id);
+    });
+
+    (template.fieldTemplate || []).forEach((field, index) => {
+      if (!field || typeof field !== 'object') return;
+      const fieldPath = [...path, 'fieldTemplate', index];
+      checkVars(issues, field.conditions, rowNames, [...fieldPath, 'conditions'], 'Row condition');
+      checkValidationRules(issues, field.validation, [...fieldPath, 'validation']);
+    });
+  }
+}
+
+function checkFlow(issues, config, names, stepIds) {
+  const { flowSelection, flowConfig } = config;
+  if (flowSelection) {
+    if (!stepIds.has(flowSelection.step)) {
+      issues.push(issue('error', ['flowSelection', 'step'], `Unknown step "${flowSelection.step}"`));
+    }
+    checkFieldRef(issues, flowSelection.field, names, ['flowSelection', 'field'], 'Flow selection');
+  }
+  const selectionStep = flowConfig?.selectionStep;
+  if (selectionStep) {
+    if (!stepIds.has(selectionStep.stepId)) {
+      issues.push(issue('error', ['flowConfig', 'selectionStep', 'stepId'], `Unknown step "${selectionStep.stepId}"`));
+    }
+    checkFieldRef(issues, selectionStep.fieldName, names, ['flowConfig', 'selectionStep', 'fieldName'], 'Selection step');
+  }
+}
+
+function checkGlobalRules(issues, config, names) {
+  (config.validation?.globalRules || []).forEach((rule, index) => {
+    if (!rule || typeof rule !== 'object') return;
+    const path = ['validation', 'globalRules', index];
+
+    if (!globalRuleTypes[rule.rule]) {
+      // Rules without a global handler delegate to field-level validation of `field`
+      const message = !rule.field || !getValidationRule(rule.rule)
+        ? `Unknown global rule "${rule.rule}"`
+        : getRuleIssue(normalizeValidationRules([{ rule: rule.rule, value: rule.value }])[0]);
+      if (message) issues.push(issue('error', [...path, 'rule'], message));
+    }
+
+    (rule.fields || []).forEach((name, fieldIndex) => {
+      checkFieldRef(issues, name, names, [...path, 'fields', fieldIndex], 'Global rule');
+    });
+    for (const key of ['field', 'target', 'errorField']) {
+      checkFieldRef(issues, rule[key], names, [...path, key], 'Global rule');
+    }
+    checkVars(issues, rule.conditions, names, [...path, 'conditions'], 'Global rule condition');
+  });
+}
+
+function checkPricing(issues, config, names) {
+  const pricing = config.pricing;
+  if (!pricing || typeof pricing !== 'object') {
+    const stepIndex = config.steps.findIndex((step) => step?.showPricer);
+    if (stepIndex >= 0) {
+      issues.push(issue('warning', ['steps', stepIndex, 'showPricer'], 'Steps show the pricer but the form has no "pricing"'));
+    }
+    return;
+  }
+
+  checkVars(issues, pricing.loanAmount, names, ['pricing', 'loanAmount'], 'Loan amount');
+  (pricing.requires || []).forEach((name, index) => {
+    checkFieldRef(issues, name, names, ['pricing', 'requires', index], 'Pricing');
+  });
+  (pricing.adjustments || []).forEach((adjustment, index) => {
+    checkVars(issues, adjustment?.conditions, names, ['pricing', 'adjustments', index, 'conditions'], 'Pricing adjustment');
+  });
+}
+
+/**
+ * Lint a resolved form config
+ * @param {Object} config - Form config after shared-field $ref resolution
+ * @returns {Array<{ severity: string, pointer: string, message: string }>}
+ */
+function lintFormConfig(config) {
+  const issues = schemaIssues(formConfigSchema, config);
+  if (!config || typeof config !== 'object' || !Array.isArray(config.steps)) return issues;
+
+  const names = getValueNames(config);
+  const stepIds = checkSteps(issues, config, names);
+  checkArrayTemplates(issues, config, names);
+  checkFlow(issues, config, names, stepIds);
+  checkGlobalRules(issues, config, names);
+  checkPricing(issues, config, names);
+  return issues;
+}
+
+/**
+ * Lint a transformation.json against the form config it belongs to
+ * @param {Object} transformation - Raw transformation.json
+ * @param {Object} [config] - Resolved form config; field references are only checked when given
+ * @returns {Array<{ severity: string, pointer: string, message: string }>}
+ */
+function lintTransformation(transformation, config) {
+  const issues = schemaIssues(transformationSchema, transformation);
+  if (!config || !transformation || typeof transformation !== 'object') return issues;
+
+  const names = getValueNames(config);
+  const rowFields = getRowFieldIds(config);
+  for (const direction of ['inbound', 'outbound']) {
+    const map = transformation[direction];
+    if (!map || typeof map !== 'object') continue;
+    const simple = Object.values(map).every((value) => typeof value === 'string');
+
+    for (const [key, value] of Object.entries(map)) {
+      const path = [direction, key];
+      if (simple) {
+        // inbound { sourcePath: field }, outbound { field: dbPath }
+        if (direction === 'inbound') checkMappedField(issues, value, names, rowFields, path, 'Inbound mapping');
+        else checkMappedField(issues, key, names, rowFields, path, 'Outbound mapping');
+      } else if (direction === 'inbound') {
+        // { field: [sources] }
+        checkMappedField(issues, key, names, rowFields, path, 'Inbound mapping');
+      } else if (Array.isArray(value)) {
+        // { dbPath: [{ path: field }] }; arrayField sources read `field` from each row
+        value.forEach((source, index) => {
+          const sourcePath = [...path, index];
+          checkMappedField(issues, source?.path, names, rowFields, [...sourcePath, 'path'], 'Outbound mapping');
+          if (source?.type === 'arrayField') {
+            checkRowFieldRef(issues, source.path, source.field, rowFields, [...sourcePath, 'field'], 'Outbound mapping');
+          }
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * Error and warning counts of a list of issues
+ */
+function countIssues(issues) {
+  const errors = issues.filter((found) => found.severity === 'error').length;
+  return { errors, warnings: issues.length - errors };
+}
+
+module.exports = {
+  lintFormConfig,
+  lintTransformation,
+  countIssues
+};
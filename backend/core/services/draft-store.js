@@ -0,0 +1,151 @@
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Draft store for in-progress form sessions.
+ *
+ * A store is any object implementing:
+ *   get(formId, sessionId)          -> Promise<Draft|null>
+ *   save(formId, sessionId, draft)  -> Promise<Draft>
+ *   delete(formId, sessionId)       -> Promise<boolean>
+ *
+ * Draft shape: { formId, sessionId, values, currentStepId, currentStepIndex, createdAt, updatedAt }
+ *
+ * The file store is the default; call setDraftStore() to swap in another backend (e.g. SQLite).
+ */
+
+const DEFAULT_DRAFT_DIR = path.join(__dirname, '../../data/drafts');
+
+/**
+ * Session and form IDs become file names, so only allow a safe character set
+ */
+function assertSafeId(value, label) {
+  if (typeof value !== 'string' || !/^[A-Za-z0-9_-]{1,128}$/.test(value)) {
+    const error = new Error(`Invalid ${label}: ${value}`);
+    error.status = 400;
+    throw error;
+  }
+}
+
+/**
+ * Build the stored record from the previous draft and an update
+ */
+function mergeDraft(existing, formId, sessionId, update) {
+  const now = new Date().toISOString();
+  return {
+    formId,
+    sessionId,
+    values: { ...(existing?.values || {}), ...(update.values || {}) },
+    currentStepId: update.currentStepId ?? existing?.currentStepId ?? null,
+    currentStepIndex: update.currentStepIndex ?? existing?.currentStepIndex ?? 0,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now
+  };
+}
+
+/**
+ * One JSON file per draft: <dir>/<formId>/<sessionId>.json
+ * @param {Object} [options]
+ * @param {string} [options.dir] - Root directory for draft files
+ */
+function createFileDraftStore(options = {}) {
+  const dir = options.dir || DEFAULT_DRAFT_DIR;
+
+  const draftPath = (formId, sessionId) => {
+    assertSafeId(formId, 'formId');
+    assertSafeId(sessionId, 'sessionId');
+    return path.join(dir, formId, `${sessionId}.json`);
+  };
+
+  return {
+    async get(formId, sessionId) {
+      const filePath = draftPath(formId, sessionId);
+      try {
+        const content = await fs.promises.readFile(filePath, 'utf8');
+        return JSON.parse(content);
+      } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async save(formId, sessionId, update) {
+      const filePath = draftPath(formId, sessionId);
+      const existing = await this.get(formId, sessionId);
+      const draft = mergeDraft(existing, formId, sessionId, update);
+
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      // Write then rename so readers never see a partial file
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tmpPath, JSON.stringify(draft, null, 2));
+      await fs.promises.rename(tmpPath, filePath);
+      return draft;
+    },
+
+    async delete(formId, sessionId) {
+      try {
+        await fs.promises.unlink(draftPath(formId, sessionId));
+        return true;
+      } catch (error) {
+        if (error.code === 'ENOENT') return false;
+        throw error;
+      }
+    }
+  };
+}
+
+/**
+ * Non-persistent store, useful for demos and local experiments
+ */
+function createMemoryDraftStore() {
+  const drafts = new Map();
+  const key = (formId, sessionId) => `${formId}:${sessionId}`;
+
+  return {
+    async get(formId, sessionId) {
+      return drafts.get(key(formId, sessionId)) || null;
+    },
+
+    async save(formId, sessionId, update) {
+      const draft = mergeDraft(drafts.get(key(formId, sessionId)), formId, sessionId, update);
+      drafts.set(key(formId, sessionId), draft);
+      return draft;
+    },
+
+    async delete(formId, sessionId) {
+      return drafts.delete(key(formId, sessionId));
+    }
+  };
+}
+
+let activeStore = null;
+
+/**
+ * Get the configured draft store (DRAFT_STORE=file|memory, DRAFT_STORE_DIR for the file store)
+ */
+function getDraftStore() {
+  if (!activeStore) {
+    activeStore = process.env.DRAFT_STORE === 'memory'
+      ? createMemoryDraftStore()
+      : createFileDraftStore({ dir: process.env.DRAFT_STORE_DIR });
+  }
+  return activeStore;
+}
+
+/**
+ * Replace the draft store implementation
+ * @param {Object} store - Object implementing get/save/delete
+ */
+function setDraftStore(store) {
+  if (!store || ['get', 'save', 'delete'].some((method) => typeof store[method] !== 'function')) {
+    throw new Error('Draft store must implement get, save and delete');
+  }
+  activeStore = store;
+}
+
+module.exports = {
+  getDraftStore,
+  setDraftStore,
+  createFileDraftStore,
+  createMemoryDraftStore
+};
@@ -1,10 +1,13 @@
 const fs = require('fs');
 const path = require('path');
+const { lintFormConfig, lintTransformation, countIssues } = require('./config-linter');
 
 // Cache for loaded configurations
 let configCache = null;
 let registryCache = null;
 let sharedFieldsCache = {};
+let transformationCache = {};
+let lintReportCache = [];
 
 /**
  * Load and resolve a shared field reference
@@ -61,6 +64,13 @@ function resolveFieldReferences(obj, baseDir) {
     // If this object has a $ref property, resolve it
     if (obj.$ref) {
       const sharedField = loadSharedField(obj.$ref, baseDir);
+      // Option sets and other shared lists replace the reference as a whole
+      if (Array.isArray(sharedField)) {
+        if (Object.keys(obj).length > 1) {
+          console.warn(`Local overrides are ignored for list reference: ${obj.$ref}`);
+        }
+        return resolveFieldReferences(sharedField, baseDir);
+      }
       if (sharedField) {
         // Merge shared field with any local overrides (excluding $ref)
         const { $ref, ...localOverrides } = obj;
@@ -103,6 +113,7 @@ function loadConfigurations() {
 
     // Load all form configurations
     configCache = {};
+    transformationCache = {};
 
     registryCache.forms.forEach(form => {
       const configPath = path.join(formsJsonDir, form.file);
@@ -119,6 +130,15 @@ function loadConfigurations() {
     });
 
     console.log(`Loaded ${Object.keys(configCache).length} form configurations from JSON`);
+
+    // Lint after loading; configs with issues are still served
+    lintReportCache = lintRegisteredForms();
+    lintReportCache.forEach(({ formId, file, issues }) => {
+      const { errors, warnings } = countIssues(issues);
+      if (errors || warnings) {
+        console.warn(`Config lint: ${formId} (${file}) has ${errors} error(s), ${warnings} warning(s) (npm run lint:configs)`);
+      }
+    });
     return true;
   } catch (error) {
     console.error('Error loading form configurations:', error.message);
@@ -126,6 +146,67 @@ function loadConfigurations() {
   }
 }
 
+/**
+ * Lint every form and transformation file listed in the registry
+ * @returns {Array<{ formId: string, file: string, issues: Array }>} One entry per file
+ */
+function lintRegisteredForms() {
+  const report = [];
+
+  registryCache.forms.forEach(form => {
+    const config = configCache[form.id];
+    const configIssues = [];
+    if (!config) {
+      configIssues.push({ severity: 'error', pointer: '', message: `Config file not found: ${form.file}` });
+    } else {
+      if (config.metadata?.id !== form.id) {
+        configIssues.push({
+          severity: 'error',
+          pointer: '/metadata/id',
+          message: `Metadata id "${config.metadata?.id}" does not match registry id "${form.id}"`
+        });
+      }
+      configIssues.push(...lintFormConfig(config));
+    }
+    report.push({ formId: form.id, file: form.file, issues: configIssues });
+
+    if (form.transformation) {
+      const transformation = getTransformationById(form.id);
+      const transformationIssues = transformation
+        ? lintTransformation(transformation, config)
+        : [{ severity: 'error', pointer: '', message: `Transformation file not found: ${form.transformation}` }];
+      report.push({ formId: form.id, file: form.transformation, issues: transformationIssues });
+    }
+  });
+
+  return report;
+}
+
+/**
+ * Get the lint report of the loaded configurations
+ * @param {string} [id] - Only the files of this form
+ * @returns {Array<{ formId: string, file: string, issues: Array }>}
+ */
+function getLintReport(id) {
+  if (!configCache) {
+    const loaded = loadConfigurations();
+    if (!loaded) return [];
+  }
+
+  return id ? lintReportCache.filter(entry => entry.formId === id) : lintReportCache;
+}
+
+/**
+ * Whether the load-time lint found errors in the transformation.json registered for a form
+ * @param {string} id - Form configuration ID
+ * @returns {boolean}
+ */
+function hasTransformationLintErrors(id) {
+  return getLintReport(id).some(({ file, issues }) =>
+    file === registryCache.forms.find(f => f.id === id)?.transformation && countIssues(issues).errors > 0
+  );
+}
+
 /**
  * Get form configuration by ID
  * @param {string} id - Form configuration ID
@@ -141,6 +222,32 @@ function getConfigById(id) {
   return configCache[id] || null;
 }
 
+/**
+ * Get the raw transformation config (inbound/outbound maps) registered for a form
+ * @param {string} id - Form configuration ID
+ * @returns {Object|null} Transformation config or null if the form has none
+ */
+function getTransformationById(id) {
+  if (!registryCache) {
+    const loaded = loadConfigurations();
+    if (!loaded) return null;
+  }
+
+  if (id in transformationCache) return transformationCache[id];
+
+  const form = registryCache.forms.find(f => f.id === id);
+  let transformation = null;
+  if (form?.transformation) {
+    const transformationPath = path.join(__dirname, '../../configs/forms-json', form.transformation);
+    if (fs.existsSync(transformationPath)) {
+      transformation = JSON.parse(fs.readFileSync(transformationPath, 'utf8'));
+    }
+  }
+
+  transformationCache[id] = transformation;
+  return transformation;
+}
+
 /**
  * Get all available form configurations
  * @returns {Array} Array of form metadata objects
@@ -162,5 +269,8 @@ function getAllConfigs() {
 
 module.exports = {
   getConfigById,
-  getAllConfigs
+  getAllConfigs,
+  getTransformationById,
+  getLintReport,
+  hasTransformationLintErrors
 };
\ No newline at end of file
@@ -0,0 +1,67 @@
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Option sources for dropdown/radio fields that load their options at runtime.
+ *
+ * A field opts in with:
+ *   "optionsSource": { "source": "counties", "params": { "state": "property_state" } }
+ * `params` maps query params to form fields; the client requests
+ * GET /api/options/counties?state=<property_state> whenever those values change.
+ *
+ * A provider is `(params) -> options | Promise<options>` where options are `{ value, label }`.
+ * Every set in shared-fields/option-sets.json is available as a source under its own name;
+ * call registerOptionSource() to add providers backed by other systems.
+ */
+
+const SHARED_FIELDS_DIR = path.join(__dirname, '../../configs/shared-fields');
+
+const sharedJsonCache = {};
+
+function readSharedJson(fileName) {
+  if (!sharedJsonCache[fileName]) {
+    sharedJsonCache[fileName] = JSON.parse(fs.readFileSync(path.join(SHARED_FIELDS_DIR, fileName), 'utf8'));
+  }
+  return sharedJsonCache[fileName];
+}
+
+const providers = new Map();
+
+/**
+ * Register (or replace) an option source
+ * @param {string} id - Source name used in `optionsSource.source`
+ * @param {Function} provider - (params) => options or a promise of options
+ */
+function registerOptionSource(id, provider) {
+  if (typeof provider !== 'function') {
+    throw new Error(`Option source ${id} must be a function`);
+  }
+  providers.set(id, provider);
+}
+
+// Counties per state (sample data, shared-fields/counties.json); no state means no options
+registerOptionSource('counties', ({ state }) => {
+  if (!state) return [];
+  return readSharedJson('counties.json')[String(state).toUpperCase()] || [];
+});
+
+/**
+ * Resolve the options of a source
+ * @param {string} id - Source name
+ * @param {Object} [params] - Query params (dependency values)
+ * @returns {Promise<Array|null>} Options, or null when no such source exists
+ */
+async function getOptions(id, params = {}) {
+  const provider = providers.get(id);
+  if (provider) {
+    return provider(params);
+  }
+
+  const optionSets = readSharedJson('option-sets.json');
+  return Object.prototype.hasOwnProperty.call(optionSets, id) ? optionSets[id] : null;
+}
+
+module.exports = {
+  registerOptionSource,
+  getOptions
+};
@@ -0,0 +1,49 @@
+const jsonLogic = require('json-logic-js');
+// Pricing model shared with the frontend pricer panel
+const { createPricingEvaluator } = require('../../../shared/pricing/pricingModel.mjs');
+
+/**
+ * Indicative pricing behind POST /api/forms/:formId/price, used by forms whose
+ * `pricing.adapter` is "api" (see shared/pricing/pricingModel.mjs).
+ *
+ * A pricer is `(formConfig, values) -> quote | null | Promise<...>`. Until a pricing engine
+ * is connected, every form is priced by the stub below, which applies the form's own
+ * `pricing` rules table; call registerPricer() to price a form elsewhere.
+ */
+
+const { priceQuote } = createPricingEvaluator(jsonLogic.apply);
+
+const pricers = new Map();
+
+// Stub: the config's rules table, evaluated server-side
+function stubPricer(formConfig, values) {
+  return priceQuote(formConfig.pricing, values);
+}
+
+/**
+ * Register (or replace) the pricer of a form
+ * @param {string} formId - Form the pricer quotes for
+ * @param {Function} pricer - (formConfig, values) => quote or a promise of one
+ */
+function registerPricer(formId, pricer) {
+  if (typeof pricer !== 'function') {
+    throw new Error(`Pricer for ${formId} must be a function`);
+  }
+  pricers.set(formId, pricer);
+}
+
+/**
+ * Indicative quote for a form's current answers
+ * @param {Object} formConfig - Form configuration
+ * @param {Object} values - Current answers
+ * @returns {Promise<Object|null>} Quote, or null while required answers are missing
+ */
+async function getPriceQuote(formConfig, values = {}) {
+  const pricer = pricers.get(formConfig.metadata?.id) || stubPricer;
+  return (await pricer(formConfig, values)) || null;
+}
+
+module.exports = {
+  getPriceQuote,
+  registerPricer
+};
@@ -0,0 +1,148 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+/**
+ * Submission store for completed forms.
+ *
+ * A store is any object implementing:
+ *   create({ formId, formVersion, data, document }) -> Promise<Submission>
+ *   get(id)                                         -> Promise<Submission|null>
+ *   list({ formId, from, to, offset, limit })       -> Promise<{ items: Submission[], total: number }>
+ *
+ * Submission shape: { id, formId, formVersion, submittedAt, data, document }
+ * `data` is the validated form data; `document` is its database-shaped (outbound) form, if any.
+ * Lists are sorted newest first; `from`/`to` are inclusive Date bounds on submittedAt.
+ *
+ * The file store is the default; call setSubmissionStore() to swap in another backend.
+ */
+
+const DEFAULT_SUBMISSION_DIR = path.join(__dirname, '../../data/submissions');
+
+function buildSubmission({ formId, formVersion, data, document }) {
+  return {
+    id: crypto.randomUUID(),
+    formId,
+    formVersion: formVersion || null,
+    submittedAt: new Date().toISOString(),
+    data,
+    document: document || null
+  };
+}
+
+/**
+ * Apply form/date filters, newest-first sort and paging to a list of submissions
+ */
+function querySubmissions(submissions, { formId, from, to, offset = 0, limit = 20 }) {
+  const matching = submissions
+    .filter((submission) => !formId || submission.formId === formId)
+    .filter((submission) => {
+      const submittedAt = new Date(submission.submittedAt);
+      if (from && submittedAt < from) return false;
+      if (to && submittedAt > to) return false;
+      return true;
+    })
+    .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+
+  return {
+    items: matching.slice(offset, offset + limit),
+    total: matching.length
+  };
+}
+
+/**
+ * One JSON file per submission: <dir>/<id>.json
+ * @param {Object} [options]
+ * @param {string} [options.dir] - Directory for submission files
+ */
+function createFileSubmissionStore(options = {}) {
+  const dir = options.dir || DEFAULT_SUBMISSION_DIR;
+
+  const readSubmission = async (filePath) => JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+
+  return {
+    async create(input) {
+      const submission = buildSubmission(input);
+      await fs.promises.mkdir(dir, { recursive: true });
+      await fs.promises.writeFile(path.join(dir, `${submission.id}.json`), JSON.stringify(submission, null, 2));
+      return submission;
+    },
+
+    async get(id) {
+      // IDs are UUIDs; anything else cannot be a stored submission
+      if (!/^[0-9a-f-]{36}$/i.test(id)) return null;
+      try {
+        return await readSubmission(path.join(dir, `${id}.json`));
+      } catch (error) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async list(query = {}) {
+      let files = [];
+      try {
+        files = (await fs.promises.readdir(dir)).filter((file) => file.endsWith('.json'));
+      } catch (error) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+      const submissions = await Promise.all(files.map((file) => readSubmission(path.join(dir, file))));
+      return querySubmissions(submissions, query);
+    }
+  };
+}
+
+/**
+ * Non-persistent store, useful for demos and local experiments
+ */
+function createMemorySubmissionStore() {
+  const submissions = new Map();
+
+  return {
+    async create(input) {
+      const submission = buildSubmission(input);
+      submissions.set(submission.id, submission);
+      return submission;
+    },
+
+    async get(id) {
+      return submissions.get(id) || null;
+    },
+
+    async list(query = {}) {
+      return querySubmissions(Array.from(submissions.values()), query);
+    }
+  };
+}
+
+let activeStore = null;
+
+/**
+ * Get the configured submission store (SUBMISSION_STORE=file|memory, SUBMISSION_STORE_DIR for the file store)
+ */
+function getSubmissionStore() {
+  if (!activeStore) {
+    activeStore = process.env.SUBMISSION_STORE === 'memory'
+      ? createMemorySubmissionStore()
+      : createFileSubmissionStore({ dir: process.env.SUBMISSION_STORE_DIR });
+  }
+  return activeStore;
+}
+
+/**
+ * Replace the submission store implementation
+ * @param {Object} store - Object implementing create/get/list
+ */
+function setSubmissionStore(store) {
+  if (!store || ['create', 'get', 'list'].some((method) => typeof store[method] !== 'function')) {
+    throw new Error('Submission store must implement create, get and list');
+  }
+  activeStore = store;
+}
+
+module.exports = {
+  getSubmissionStore,
+  setSubmissionStore,
+  createFileSubmissionStore,
+  createMemorySubmissionStore
+};
@@ -0,0 +1,92 @@
+const { transform, reverseTransform } = require('../engines/transformation-engine');
+const { getTransformationById, hasTransformationLintErrors } = require('./form-service');
+
+/**
+ * Bridges the per-form transformation.json files and the transformation engine.
+ *
+ * transformation.json files come in two shapes:
+ *   - source lists (engine native):  inbound  { formField: [{ path, condition, transform, default }] }
+ *                                    outbound { dbPath: [{ path: formField }] }
+ *   - simple maps:                   inbound  { sourcePath: formField }
+ *                                    outbound { formField: dbPath }
+ * Simple maps are converted to source lists before running the engine.
+ * A `[]` in a form or database path maps one value per repeater row ("borrowers[].first_name").
+ */
+
+function isSimpleMap(map) {
+  return Object.values(map || {}).every((value) => typeof value === 'string');
+}
+
+/**
+ * Convert a raw transformation.json into the engine's { transformations: { inbound, outbound } } shape
+ */
+function normalizeTransformationConfig(raw) {
+  const inbound = raw?.inbound || {};
+  const outbound = raw?.outbound || {};
+
+  const normalizedInbound = isSimpleMap(inbound)
+    ? Object.fromEntries(Object.entries(inbound).map(([sourcePath, field]) => [field, [{ path: sourcePath }]]))
+    : inbound;
+
+  const normalizedOutbound = isSimpleMap(outbound)
+    ? Object.fromEntries(Object.entries(outbound).map(([field, dbPath]) => [dbPath, [{ path: field }]]))
+    : outbound;
+
+  return {
+    transformations: {
+      inbound: normalizedInbound,
+      outbound: normalizedOutbound
+    }
+  };
+}
+
+/**
+ * Get the normalized transformation config for a form
+ * @returns {Object|null} Engine config or null when the form has no transformation
+ */
+function getEngineConfig(formId) {
+  const raw = getTransformationById(formId);
+  return raw ? normalizeTransformationConfig(raw) : null;
+}
+
+/**
+ * Map a loan payload to form default values via the inbound map.
+ * Paths may be written relative to the payload root or prefixed with `loanData.`;
+ * fields that resolve to nothing are left out so they don't override form defaults.
+ * @param {string} formId
+ * @param {Object} loanData - MISMO-like loan payload (DEAL.EXTENSION...)
+ * @param {Object} [context] - Extra sources (additionalInfo, primaryBorrower, ...)
+ * @returns {Object|null} Form values, or null when the form has no transformation
+ */
+function prefillFromLoanData(formId, loanData, context = {}) {
+  const config = getEngineConfig(formId);
+  if (!config) return null;
+
+  const values = transform(config, loanData, { ...loanData, ...context });
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== null && value !== undefined)
+  );
+}
+
+/**
+ * Map validated form data to the database-shaped document via the outbound map.
+ * A transformation the load-time lint rejected is skipped with a warning: its mappings would
+ * store nulls for fields the form does not have, and the submission is still worth keeping.
+ * @returns {Object|null} Document, or null when the form has no (lint-clean) transformation
+ */
+function toDatabaseDocument(formId, formData) {
+  const raw = getTransformationById(formId);
+  if (!raw) return null;
+
+  if (hasTransformationLintErrors(formId)) {
+    console.warn(`Transformation for ${formId} has lint errors; storing the submission without a document (npm run lint:configs)`);
+    return null;
+  }
+  return reverseTransform(normalizeTransformationConfig(raw), formData);
+}
+
+module.exports = {
+  normalizeTransformationConfig,
+  prefillFromLoanData,
+  toDatabaseDocument
+};
@@ -0,0 +1,46 @@
+const jsonLogic = require('json-logic-js');
+// Computed-field model shared with the frontend engines
+const {
+  createComputedEvaluator,
+  computedValueMatches,
+  getExpressionVars,
+  isComputedField
+} = require('../../../shared/computed/computedFields.mjs');
+
+/**
+ * Backend binding of the shared computed-field model (see shared/computed/computedFields.mjs).
+ * Submitted values of `computed` fields are recomputed here and must match the client's.
+ */
+
+const { computeValue, computeValues } = createComputedEvaluator(jsonLogic.apply);
+
+/**
+ * Recompute every active computed field and compare it with the submitted value
+ * @param {Array} fields - Field definitions included in the schema
+ * @param {Object} formData - Submitted values
+ * @returns {{ values: Object, errors: Object }} Server-side values and `{ fieldName: message }` mismatches
+ */
+function verifyComputedFields(fields, formData) {
+  const computedFields = fields.filter(isComputedField);
+  const values = computeValues(computedFields, formData);
+  const errors = {};
+
+  for (const field of computedFields) {
+    // Step submissions carry partial data; only verify when every input was submitted
+    const inputs = Array.from(getExpressionVars(field.expression));
+    if (inputs.some((name) => !(name in formData))) continue;
+
+    if (!computedValueMatches(field, values[field.name], formData[field.name])) {
+      errors[field.name] = `${field.label || field.name} does not match its calculated value`;
+    }
+  }
+
+  return { values, errors };
+}
+
+module.exports = {
+  computeValue,
+  computeValues,
+  verifyComputedFields,
+  isComputedField
+};
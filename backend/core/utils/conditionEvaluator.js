@@ -0,0 +1,39 @@
+const jsonLogic = require('json-logic-js');
+// Condition model shared with the frontend engines
+const { createConditionEvaluator } = require('../../../shared/conditions/conditionModel.mjs');
+
+/**
+ * Backend binding of the shared condition model (see shared/conditions/conditionModel.mjs):
+ * `conditions` arrays are an implicit AND of json-logic rules and all/any/not groups,
+ * and rules that throw follow the form's `conditionPolicy.onError` (default "show").
+ */
+
+const evaluators = new Map();
+
+/**
+ * Condition evaluator for a form config's policy (cached per policy)
+ */
+function getConditionEvaluator(formConfig) {
+  const policy = formConfig?.conditionPolicy || null;
+  const key = JSON.stringify(policy);
+  if (!evaluators.has(key)) {
+    evaluators.set(key, createConditionEvaluator(jsonLogic.apply, policy));
+  }
+  return evaluators.get(key);
+}
+
+/**
+ * Evaluate a `conditions` array against form data
+ * @param {Array} conditions - Step, field or rule conditions
+ * @param {Object} formData - Current form values
+ * @param {Object} [formConfig] - Form config supplying `conditionPolicy`
+ * @returns {boolean}
+ */
+function evaluateConditions(conditions, formData, formConfig) {
+  return getConditionEvaluator(formConfig).evaluateConditions(conditions, formData);
+}
+
+module.exports = {
+  evaluateConditions,
+  getConditionEvaluator
+};
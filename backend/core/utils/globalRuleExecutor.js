@@ -0,0 +1,32 @@
+const { evaluateConditions: evaluateSharedConditions } = require('./conditionEvaluator');
+// Global rule executor shared with the frontend validation plan
+const {
+  executeGlobalRules: executeSharedGlobalRules,
+  registerGlobalRuleType,
+  globalRuleTypes
+} = require('../../../shared/validation/globalRules.mjs');
+
+/**
+ * Backend binding of the shared global rule executor (see shared/validation/globalRules.mjs).
+ * Rule-level `conditions` default to the backend condition evaluator.
+ */
+
+/**
+ * Execute global rules against form values
+ * @param {Array} rules - `validation.globalRules` from the form config
+ * @param {Object} values - Form values
+ * @param {Object} options
+ * @param {string[]} [options.activeFields] - Only run rules whose fields are all active
+ * @param {Function} [options.getFieldType] - (name) => field type, for single-field rules
+ * @param {Function} [options.evaluateConditions] - (conditions, values) => boolean, gate for rule-level `conditions`
+ * @returns {Object} Map of field name to error message
+ */
+function executeGlobalRules(rules, values, options = {}) {
+  return executeSharedGlobalRules(rules, values, { evaluateConditions: evaluateSharedConditions, ...options });
+}
+
+module.exports = {
+  executeGlobalRules,
+  registerGlobalRuleType,
+  globalRuleTypes
+};
@@ -0,0 +1,26 @@
+// Hidden-value policy shared with the frontend engines
+const { stripHiddenValues: stripHidden } = require('../../../shared/conditions/hiddenValues.mjs');
+const { expandRepeaterSteps } = require('../../../shared/repeater/repeaterModel.mjs');
+const { getConditionEvaluator } = require('./conditionEvaluator');
+
+/**
+ * Backend binding of the shared hidden-value policy (see shared/conditions/hiddenValues.mjs).
+ * Values of fields hidden by their own or their step's conditions are dropped from a submission
+ * unless their `onHide` policy is "keep".
+ */
+
+/**
+ * Remove hidden values from submitted form data
+ * @param {Object} formConfig - Form configuration
+ * @param {Object} formData - Submitted values
+ * @returns {{ values: Object, stripped: string[], kept: Object }} Remaining values, dropped field names,
+ *   and hidden values kept by a "keep" policy
+ */
+function stripHiddenValues(formConfig, formData) {
+  const { evaluateConditions } = getConditionEvaluator(formConfig);
+  return stripHidden(expandRepeaterSteps(formConfig).steps, formData || {}, evaluateConditions, formConfig.conditionPolicy);
+}
+
+module.exports = {
+  stripHiddenValues
+};
@@ -0,0 +1,122 @@
+/**
+ * Minimal JSON Schema (draft-07) validator for the config schemas in configs/schemas.
+ *
+ * Supports the keywords those schemas use: $ref (local "#/definitions/..."), type, enum,
+ * required, properties, additionalProperties, items, minimum, maximum and minItems.
+ * Issues carry a JSON pointer into the validated document.
+ */
+
+/**
+ * Escape one JSON pointer segment (RFC 6901)
+ */
+function escapePointer(segment) {
+  return String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * JSON pointer of a path of keys/indices, e.g. ['steps', 0, 'id'] -> "/steps/0/id"
+ */
+function toPointer(path) {
+  return path.map((segment) => `/${escapePointer(segment)}`).join('');
+}
+
+function typeOf(value) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value, type) {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function resolveRef(root, ref) {
+  if (!ref.startsWith('#/')) throw new Error(`Unsupported $ref: ${ref}`);
+  return ref
+    .slice(2)
+    .split('/')
+    .reduce((node, key) => node?.[key.replace(/~1/g, '/').replace(/~0/g, '~')], root);
+}
+
+/**
+ * Validate a value against a schema
+ * @param {Object} schema - Root schema
+ * @param {*} value - Document to validate
+ * @returns {Array<{ pointer: string, keyword: string, message: string, property?: string, known?: string[] }>}
+ */
+function validateSchema(schema, value) {
+  const issues = [];
+
+  function visit(node, current, path) {
+    if (node.$ref) {
+      visit(resolveRef(schema, node.$ref), current, path);
+      return;
+    }
+
+    const pointer = toPointer(path);
+
+    if (node.type) {
+      const types = Array.isArray(node.type) ? node.type : [node.type];
+      if (!types.some((type) => matchesType(current, type))) {
+        issues.push({ pointer, keyword: 'type', message: `must be ${types.join(' or ')}, got ${typeOf(current)}` });
+        return;
+      }
+    }
+
+    if (node.enum && !node.enum.includes(current)) {
+      issues.push({ pointer, keyword: 'enum', message: `"${current}" is not one of: ${node.enum.join(', ')}` });
+    }
+
+    if (typeof current === 'number') {
+      if (node.minimum !== undefined && current < node.minimum) {
+        issues.push({ pointer, keyword: 'minimum', message: `must be at least ${node.minimum}` });
+      }
+      if (node.maximum !== undefined && current > node.maximum) {
+        issues.push({ pointer, keyword: 'maximum', message: `must be at most ${node.maximum}` });
+      }
+    }
+
+    if (Array.isArray(current)) {
+      if (node.minItems !== undefined && current.length < node.minItems) {
+        issues.push({ pointer, keyword: 'minItems', message: `must have at least ${node.minItems} item(s)` });
+      }
+      if (node.items) {
+        current.forEach((item, index) => visit(node.items, item, [...path, index]));
+      }
+    }
+
+    if (typeOf(current) === 'object') {
+      for (const name of node.required || []) {
+        if (!(name in current)) {
+          issues.push({ pointer, keyword: 'required', message: `missing required property "${name}"` });
+        }
+      }
+      const properties = node.properties || {};
+      for (const [name, child] of Object.entries(current)) {
+        if (properties[name]) {
+          visit(properties[name], child, [...path, name]);
+        } else if (node.additionalProperties === false) {
+          issues.push({
+            pointer: toPointer([...path, name]),
+            keyword: 'additionalProperties',
+            message: `unknown property "${name}"`,
+            property: name,
+            known: Object.keys(properties)
+          });
+        } else if (node.additionalProperties && typeof node.additionalProperties === 'object') {
+          visit(node.additionalProperties, child, [...path, name]);
+        }
+      }
+    }
+  }
+
+  visit(schema, value, []);
+  return issues;
+}
+
+module.exports = {
+  validateSchema,
+  toPointer
+};
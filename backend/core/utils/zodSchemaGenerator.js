@@ -1,29 +1,75 @@
 const { z } = require('zod');
 const jsonLogic = require('json-logic-js');
+const { executeGlobalRules } = require('./globalRuleExecutor');
+const { evaluateConditions } = require('./conditionEvaluator');
+const { verifyComputedFields } = require('./computedFields');
+// Rule registry shared with the frontend validators
+const {
+  normalizeValidationRules,
+  checkRule,
+  getRuleIssue,
+  getFieldValidationRules,
+  isRequiredByRules
+} = require('../../../shared/validation/ruleRegistry.mjs');
+// Repeater (array) model shared with the frontend engines
+const {
+  expandRepeaterSteps,
+  getRepeaterTemplate,
+  getRequestedRowCount,
+  getVisibleRowFields,
+  isRepeaterField
+} = require('../../../shared/repeater/repeaterModel.mjs');
+// Hidden-value policy shared with the frontend engines
+const { getHiddenRowFields } = require('../../../shared/conditions/hiddenValues.mjs');
+// Config default values (and value shapes) shared with the frontend engines
+const { createDefaultResolver, isMultiValueField } = require('../../../shared/defaults/defaultValues.mjs');
+// Numeric fields and the form's numberFormat, shared with the frontend inputs
+const {
+  getNumericType,
+  parseNumberInput,
+  resolveNumberFormat
+} = require('../../../shared/numbers/numberFormat.mjs');
+
+const { resolveDefaultValues } = createDefaultResolver(jsonLogic.apply);
+
+/**
+ * Display-only field types; they never carry a value
+ */
+const STATIC_FIELD_TYPES = ['label', 'heading', 'paragraph', 'divider', 'info', 'markdown'];
+
+function isStaticField(field) {
+  return STATIC_FIELD_TYPES.includes(field.type);
+}
 
 /**
- * Maps validation rules from form config to Zod schema methods
+ * Schema of a numeric field: a number (whole for `integer`), or null when left empty.
+ * Text is read in the form's numberFormat ("350,000", "$350,000"); text that is not a number fails.
  */
-const VALIDATION_RULE_MAP = {
-  required: (value, message) => ({ method: 'min', params: [1, message || 'This field is required'] }),
-  minLength: (value, message) => ({ method: 'min', params: [value, message || `Minimum length is ${value}`] }),
-  maxLength: (value, message) => ({ method: 'max', params: [value, message || `Maximum length is ${value}`] }),
-  email: (value, message) => ({ method: 'email', params: [message || 'Please enter a valid email address'] }),
-  phoneUS: (value, message) => ({
-    method: 'regex',
-    params: [/^(\+1|1)?[-.\s]?\(?[0-9]{3}\)?[-.\s]?[0-9]{3}[-.\s]?[0-9]{4}$/, message || 'Please enter a valid US phone number']
-  }),
-  zipCode: (value, message) => ({
-    method: 'regex',
-    params: [/^\d{5}(-\d{4})?$/, message || 'Please enter a valid ZIP code']
-  })
-};
+function createNumberSchema(field, numberFormat) {
+  const number =
+    getNumericType(field) === 'integer'
+      ? z.number('Please enter a number').int('Please enter a whole number')
+      : z.number('Please enter a number');
+  return z.preprocess((value) => {
+    if (typeof value !== 'string') return value;
+    const num = parseNumberInput(field, value, numberFormat);
+    return num === null && value.trim() !== '' ? value : num;
+  }, number.nullable());
+}
 
 /**
  * Creates a base Zod schema based on field type
  */
-function createBaseSchema(fieldType) {
-  switch (fieldType) {
+function createBaseSchema(field, numberFormat) {
+  // multi_select, checkbox_group, tag_input and `multiple` option fields hold the picked values
+  if (isMultiValueField(field)) {
+    return z.array(z.string());
+  }
+  // number, integer, percentage, currency and `formType: "amount"` text fields
+  if (getNumericType(field)) {
+    return createNumberSchema(field, numberFormat);
+  }
+  switch (field.type) {
     case 'email':
       return z.string();
     case 'phone':
@@ -33,124 +79,261 @@ function createBaseSchema(fieldType) {
     case 'dropdown':
     case 'radio':
       return z.string();
+    case 'options':
+    case 'options_cards':
+      return z.string();
     case 'checkbox':
       return z.boolean();
     case 'date':
       return z.string();
-    case 'currency':
-      return z.string();
     case 'hidden':
       return z.string();
+    case 'computed':
+      // Recomputed and compared after parsing (see verifyComputedFields)
+      return z.union([z.number(), z.string(), z.boolean()]).nullable();
     default:
       return z.string();
   }
 }
 
 /**
- * Applies validation rules to a Zod schema
+ * Applies validation rules to a Zod schema.
+ * Rules come from the shared registry, so the server checks exactly what the client checks.
  */
 function applyValidationRules(schema, validationRules, fieldType) {
-  if (!validationRules || !Array.isArray(validationRules)) {
+  const rules = normalizeValidationRules(validationRules);
+  if (rules.length === 0) {
     return schema;
   }
 
-  let enhancedSchema = schema;
-
-  for (const rule of validationRules) {
-    const { rule: ruleName, value, message } = rule;
-    const mapping = VALIDATION_RULE_MAP[ruleName];
-
-    if (mapping) {
-      const { method, params } = mapping(value, message);
+  for (const rule of rules) {
+    const issue = getRuleIssue(rule);
+    if (issue) console.warn(`${issue}; skipping it`);
+  }
 
-      if (enhancedSchema[method]) {
-        enhancedSchema = enhancedSchema[method](...params);
+  return schema.superRefine((value, ctx) => {
+    for (const rule of rules) {
+      const message = checkRule(rule, value, fieldType);
+      if (message) {
+        ctx.addIssue({ code: 'custom', message });
+        return;
       }
     }
-  }
-
-  return enhancedSchema;
+  });
 }
 
 /**
- * Evaluates if a field should be included based on conditions
+ * Evaluates if a field should be included based on conditions (shared condition model: AND)
  */
-function shouldIncludeField(field, formData) {
-  if (!field.conditions || !Array.isArray(field.conditions)) {
-    return true;
-  }
-
-  // Evaluate each condition - field is shown if ANY condition is true
-  return field.conditions.some(condition => {
-    try {
-      return jsonLogic.apply(condition, formData);
-    } catch (error) {
-      console.warn(`Error evaluating condition for field ${field.id}:`, error);
-      return false;
-    }
-  });
+function shouldIncludeField(field, formData, formConfig) {
+  return evaluateConditions(field.conditions, formData, formConfig);
 }
 
 /**
  * Checks if a field is required based on its validation rules
  */
 function isFieldRequired(field) {
-  if (!field.validation || !Array.isArray(field.validation)) {
-    return field.required || false;
-  }
-
-  return field.required || field.validation.some(rule => rule.rule === 'required');
+  return Boolean(field.required) || isRequiredByRules(field.validation);
 }
 
 /**
- * Generates a dynamic Zod schema from form configuration
+ * Fields that carry a value for the given form data: visible steps, visible fields, no static content.
+ * Steps include the synthetic "<template>-details" steps of controller-driven array templates.
  */
-function generateZodSchema(formConfig, formData = {}) {
-  const schemaFields = {};
+function getActiveFields(formConfig, formData = {}) {
+  const fields = [];
 
-  // Process all steps and their fields
-  for (const step of formConfig.steps || []) {
+  for (const step of expandRepeaterSteps(formConfig).steps) {
     // Check if step should be included based on conditions
-    if (step.conditions && !step.conditions.some(condition => {
-      try {
-        return jsonLogic.apply(condition, formData);
-      } catch (error) {
-        console.warn(`Error evaluating step condition for ${step.id}:`, error);
-        return false;
-      }
-    })) {
+    if (!evaluateConditions(step.conditions, formData, formConfig)) {
       continue;
     }
 
     for (const field of step.fields || []) {
-      // Skip label and hidden fields from validation
-      if (field.type === 'label') {
+      // Skip static content fields from validation
+      if (isStaticField(field)) {
         continue;
       }
 
       // Check if field should be included based on conditions
-      if (!shouldIncludeField(field, formData)) {
+      if (!shouldIncludeField(field, formData, formConfig)) {
         continue;
       }
 
-      // Create base schema
-      let fieldSchema = createBaseSchema(field.type);
+      fields.push(field);
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Creates the schema of a single value field: base type, validation rules, optional unless required.
+ * An optional field left out of the data takes `defaultValue` (the field's resolved config default).
+ */
+function createFieldSchema(field, defaultValue, numberFormat) {
+  // Create base schema
+  let fieldSchema = createBaseSchema(field, numberFormat);
 
-      // Apply validation rules
-      fieldSchema = applyValidationRules(fieldSchema, field.validation, field.type);
+  // Apply validation rules (a numeric field's min / max included)
+  fieldSchema = applyValidationRules(fieldSchema, getFieldValidationRules(field), field.type);
 
-      // If field is not required, make it optional
-      if (!isFieldRequired(field)) {
-        fieldSchema = fieldSchema.optional();
+  // If field is not required, make it optional (or fall back to its default)
+  if (!isFieldRequired(field)) {
+    fieldSchema = defaultValue === undefined ? fieldSchema.optional() : fieldSchema.default(defaultValue);
+  }
+
+  return fieldSchema;
+}
+
+/**
+ * A hidden field whose value an onHide "keep" policy keeps: checked like the field, but never required
+ */
+function asKeptField(field) {
+  return {
+    ...field,
+    required: false,
+    validation: normalizeValidationRules(field.validation).filter((rule) => rule.rule !== 'required')
+  };
+}
+
+/**
+ * Creates the schema of one repeater row: the template fields visible in that row.
+ * Template fields are required unless they say otherwise.
+ */
+function createRowSchema(visibleFields, numberFormat) {
+  const shape = {};
+  for (const rowField of visibleFields) {
+    shape[rowField.id] = createFieldSchema({ ...rowField, required: rowField.required ?? true }, undefined, numberFormat);
+  }
+  return z.strictObject(shape);
+}
+
+/**
+ * Creates the schema of a repeater: an array of row objects within the template's
+ * minCount..maxCount and, when the template has a countExpression / countField, exactly
+ * the requested number of rows. Each row is parsed against the template fields visible in it:
+ * values of template fields hidden in that row are dropped unless their onHide policy keeps them,
+ * keys the template lacks are rejected.
+ */
+function createRepeaterSchema(field, formConfig, formData) {
+  const numberFormat = resolveNumberFormat(formConfig);
+  const template = getRepeaterTemplate(field, formConfig);
+  let schema = z.array(z.record(z.string(), z.unknown()));
+  if (!template) {
+    console.warn(`Repeater ${field.name} has no arrayTemplates entry; rows are not validated`);
+    return isFieldRequired(field) ? schema : schema.optional();
+  }
+
+  if (template.minCount) {
+    schema = schema.min(template.minCount, `At least ${template.minCount} required`);
+  }
+  if (template.maxCount) {
+    schema = schema.max(template.maxCount, `At most ${template.maxCount} allowed`);
+  }
+
+  const requestedCount = getRequestedRowCount(template, formData, jsonLogic.apply);
+  if (requestedCount !== null) {
+    schema = schema.refine((rows) => rows.length === requestedCount, {
+      message: `Expected ${requestedCount} ${requestedCount === 1 ? 'entry' : 'entries'}`
+    });
+  }
+
+  const templateIds = new Set((template.fieldTemplate || []).map((rowField) => rowField.id));
+  const evaluate = (conditions, values) => evaluateConditions(conditions, values, formConfig);
+  const step = expandRepeaterSteps(formConfig).steps.find((s) => (s.fields || []).some((f) => f.name === field.name));
+  schema = schema.transform((rows, ctx) =>
+    rows.map((row, index) => {
+      const keptFields = getHiddenRowFields(template, formData, row, index, evaluate, step, formConfig.conditionPolicy)
+        .filter(({ onHide }) => onHide === 'keep')
+        .map(({ field: rowField }) => asKeptField(rowField));
+      const rowFields = [...getVisibleRowFields(template, formData, row, index, evaluate), ...keptFields];
+      const rowIds = new Set(rowFields.map((rowField) => rowField.id));
+      const input = Object.fromEntries(
+        Object.entries(row).filter(([key]) => rowIds.has(key) || !templateIds.has(key))
+      );
+      const result = createRowSchema(rowFields, numberFormat).safeParse(input);
+      if (!result.success) {
+        for (const issue of result.error.issues) {
+          ctx.addIssue({ code: 'custom', path: [index, ...issue.path], message: issue.message });
+        }
+        return row;
       }
+      return result.data;
+    })
+  );
 
-      schemaFields[field.name] = fieldSchema;
-    }
+  return isFieldRequired(field) ? schema : schema.optional();
+}
+
+/**
+ * Generates a dynamic Zod schema from form configuration
+ */
+function generateZodSchema(formConfig, formData = {}) {
+  const schemaFields = {};
+  const activeFields = getActiveFields(formConfig, formData);
+  // Defaults of the fields the data leaves out (expressions read the submitted values)
+  const defaults = resolveDefaultValues(activeFields, formData);
+  const numberFormat = resolveNumberFormat(formConfig);
+
+  for (const field of activeFields) {
+    schemaFields[field.name] = isRepeaterField(field)
+      ? createRepeaterSchema(field, formConfig, formData)
+      : createFieldSchema(field, defaults[field.name], numberFormat);
   }
 
   return z.object(schemaFields);
 }
 
+/**
+ * Finds a field definition by name across all steps
+ */
+function findFieldByName(formConfig, name) {
+  for (const step of formConfig.steps || []) {
+    const field = (step.fields || []).find(f => f.name === name);
+    if (field) return field;
+  }
+  return null;
+}
+
+/**
+ * Runs `validation.globalRules` against the fields included in the schema
+ */
+function validateGlobalRules(formConfig, formData, schema) {
+  return executeGlobalRules(formConfig.validation?.globalRules, formData, {
+    activeFields: Object.keys(schema.shape),
+    evaluateConditions: (conditions, values) => evaluateConditions(conditions, values, formConfig),
+    getFieldType: (name) => findFieldByName(formConfig, name)?.type
+  });
+}
+
+/**
+ * Validates the hidden values an onHide "keep" policy keeps (see core/utils/hiddenValues.js) against
+ * their fields, which are never required while hidden. A kept repeater's rows are checked against
+ * all of its template fields.
+ */
+function validateKeptValues(formConfig, kept) {
+  const numberFormat = resolveNumberFormat(formConfig);
+  const shape = {};
+
+  for (const step of expandRepeaterSteps(formConfig).steps) {
+    for (const field of step.fields || []) {
+      if (!(field.name in kept) || shape[field.name]) continue;
+      if (!isRepeaterField(field)) {
+        shape[field.name] = createFieldSchema(asKeptField(field), undefined, numberFormat);
+      } else if (field.repeater) {
+        const rowFields = (field.repeater.fieldTemplate || []).map(asKeptField);
+        shape[field.name] = z.array(createRowSchema(rowFields, numberFormat)).optional();
+      } else {
+        shape[field.name] = z.array(z.record(z.string(), z.unknown())).optional();
+      }
+    }
+  }
+
+  const result = z.object(shape).safeParse(kept);
+  return result.success ? { success: true, data: result.data } : { success: false, errors: result.error.format() };
+}
+
 /**
  * Validates form data against a form configuration
  */
@@ -162,15 +345,32 @@ function validateFormData(formConfig, formData) {
     // Validate the data
     const result = schema.safeParse(formData);
 
-    if (result.success) {
+    // Cross-field rules run on the raw data so every referenced field is available
+    const globalErrors = validateGlobalRules(formConfig, formData, schema);
+
+    // Computed fields must match the server's own calculation
+    const computed = verifyComputedFields(getActiveFields(formConfig, formData), formData);
+    const ruleErrors = { ...computed.errors, ...globalErrors };
+    const hasRuleErrors = Object.keys(ruleErrors).length > 0;
+
+    if (result.success && !hasRuleErrors) {
+      const data = { ...result.data };
+      for (const name of Object.keys(computed.values)) {
+        if (name in data) data[name] = computed.values[name];
+      }
       return {
         success: true,
-        data: result.data
+        data
       };
     } else {
+      const errors = result.success ? { _errors: [] } : result.error.format();
+      for (const [field, message] of Object.entries(ruleErrors)) {
+        errors[field] = errors[field] || { _errors: [] };
+        errors[field]._errors.push(message);
+      }
       return {
         success: false,
-        errors: result.error.format()
+        errors
       };
     }
   } catch (error) {
@@ -185,7 +385,12 @@ function validateFormData(formConfig, formData) {
 
 module.exports = {
   generateZodSchema,
+  getActiveFields,
   validateFormData,
+  validateKeptValues,
+  validateGlobalRules,
   shouldIncludeField,
-  isFieldRequired
+  isFieldRequired,
+  isStaticField,
+  STATIC_FIELD_TYPES
 };
\ No newline at end of file
@@ -0,0 +1,37 @@
+/**
+ * Config lint: every form and transformation file listed in configs/forms-json/registry.json
+ *
+ * Checks each file against its JSON Schema (configs/schemas) and the cross-references
+ * between fields, steps, templates and rules (see core/services/config-linter.js).
+ *
+ * Run: npm run lint:configs [-- <formId>]
+ * Exits non-zero when any file has errors; warnings alone pass.
+ */
+
+const { getLintReport } = require('../core/services/form-service');
+const { countIssues } = require('../core/services/config-linter');
+
+const formId = process.argv[2];
+const report = getLintReport(formId);
+
+if (report.length === 0) {
+  console.error(formId ? `No registered form: ${formId}` : 'No registered forms');
+  process.exit(1);
+}
+
+let totalErrors = 0;
+let totalWarnings = 0;
+
+for (const { file, issues } of report) {
+  const { errors, warnings } = countIssues(issues);
+  totalErrors += errors;
+  totalWarnings += warnings;
+
+  console.log(`\n${file}: ${issues.length === 0 ? 'ok' : `${errors} error(s), ${warnings} warning(s)`}`);
+  for (const { severity, pointer, message } of issues) {
+    console.log(`  ${severity.padEnd(7)} ${pointer || '/'}  ${message}`);
+  }
+}
+
+console.log(`\n${report.length} file(s): ${totalErrors} error(s), ${totalWarnings} warning(s)`);
+process.exit(totalErrors > 0 ? 1 : 0);
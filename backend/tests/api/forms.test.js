@@ -0,0 +1,74 @@
+const express = require('express');
+const { setDraftStore, createMemoryDraftStore } = require('../../core/services/draft-store');
+const { setSubmissionStore, createMemorySubmissionStore } = require('../../core/services/submission-store');
+
+const mockConfig = {
+  id: 'contact',
+  steps: [{ id: 'contact', name: 'Contact', fields: [{ name: 'email', type: 'email', required: true }] }]
+};
+
+jest.mock('../../core/services/form-service', () => ({
+  getConfigById: (formId) => (formId === 'contact' ? mockConfig : null),
+  getAllConfigs: () => [mockConfig]
+}));
+
+jest.mock('../../core/services/transformation-service', () => ({
+  toDatabaseDocument: () => null,
+  prefillFromLoanData: () => ({})
+}));
+
+const formsRouter = require('../../api/routes/forms');
+
+describe('POST /api/forms/:formId/submit', () => {
+  let server;
+  let baseUrl;
+  let drafts;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/forms', formsRouter);
+    server = await new Promise((resolve) => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${server.address().port}/api/forms`;
+  });
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)));
+
+  beforeEach(() => {
+    drafts = createMemoryDraftStore();
+    setDraftStore(drafts);
+    setSubmissionStore(createMemorySubmissionStore());
+  });
+
+  function submit(query, values) {
+    return fetch(`${baseUrl}/contact/submit${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(values)
+    });
+  }
+
+  test('deletes the draft of the submitted session', async () => {
+    await drafts.save('contact', 'session-1', { values: { email: 'ada@example.com' } });
+    const response = await submit('?sessionId=session-1', { email: 'ada@example.com' });
+    expect(response.status).toBe(200);
+    expect(await drafts.get('contact', 'session-1')).toBeNull();
+  });
+
+  test('keeps drafts when the submission fails validation', async () => {
+    await drafts.save('contact', 'session-1', { values: {} });
+    const response = await submit('?sessionId=session-1', {});
+    expect(response.status).toBe(400);
+    expect(await drafts.get('contact', 'session-1')).not.toBeNull();
+  });
+
+  test('stores the submission even if the draft cannot be deleted', async () => {
+    setDraftStore({ ...drafts, delete: () => Promise.reject(new Error('Invalid sessionId')) });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const response = await submit('?sessionId=session-1', { email: 'ada@example.com' });
+    expect(response.status).toBe(200);
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
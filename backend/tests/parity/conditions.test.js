@@ -0,0 +1,80 @@
+const { getAllConfigs, getConfigById } = require('../../core/services/form-service');
+const { evaluateConditions } = require('../../core/utils/conditionEvaluator');
+const { generateZodSchema, isStaticField } = require('../../core/utils/zodSchemaGenerator');
+const formConfigSchema = require('../../configs/schemas/form-config.schema.json');
+const { loadFrontendCore } = require('../support/frontendCore');
+const { buildSamples, collectConditionTargets } = require('../support/samples');
+
+const frontend = loadFrontendCore();
+
+const throwing = { unknownOperator: [{ var: 'a' }] };
+
+// [description, conditions, values, policy, expected]
+const MODEL_CASES = [
+  ['conditions are ANDed', [{ '==': [{ var: 'a' }, 1] }, { '==': [{ var: 'b' }, 2] }], { a: 1, b: 3 }, undefined, false],
+  ['all conditions hold', [{ '==': [{ var: 'a' }, 1] }, { '==': [{ var: 'b' }, 2] }], { a: 1, b: 2 }, undefined, true],
+  ['any group', [{ any: [{ '==': [{ var: 'a' }, 1] }, { '==': [{ var: 'b' }, 2] }] }], { a: 0, b: 2 }, undefined, true],
+  ['not group', [{ not: { '==': [{ var: 'a' }, 1] } }], { a: 1 }, undefined, false],
+  ['all group with nested not', [{ all: [{ '>': [{ var: 'a' }, 0] }, { not: [{ '==': [{ var: 'b' }, 'x'] }] }] }], { a: 5, b: 'y' }, undefined, true],
+  ['json-logic all over an array', [{ all: [{ var: 'items' }, { '>': [{ var: '' }, 1] }] }], { items: [2, 3] }, undefined, true],
+  ['in over a multi-value field', [{ in: ['rental', { var: 'incomeSources' }] }], { incomeSources: ['salary', 'rental'] }, undefined, true],
+  ['in over an empty multi-value field', [{ in: ['rental', { var: 'incomeSources' }] }], { incomeSources: [] }, undefined, false],
+  ['some over a multi-value field', [{ some: [{ var: 'propertyUses' }, { '===': [{ var: '' }, 'short_term_rental'] }] }], { propertyUses: ['primary', 'short_term_rental'] }, undefined, true],
+  ['none over a multi-value field', [{ none: [{ var: 'propertyUses' }, { '===': [{ var: '' }, 'commercial'] }] }], { propertyUses: ['commercial'] }, undefined, false],
+  ['missing var', [{ '==': [{ var: 'missing' }, 'yes'] }], {}, undefined, false],
+  ['no conditions', [], {}, undefined, true],
+  ['failing rule shows by default', [throwing], { a: 1 }, undefined, true],
+  ['failing rule with onError hide', [throwing], { a: 1 }, { onError: 'hide' }, false]
+];
+
+describe('condition model', () => {
+  test.each(MODEL_CASES)('%s', (_description, conditions, values, policy, expected) => {
+    const client = frontend.createConditionsEvaluator(policy)(conditions, values);
+    const server = evaluateConditions(conditions, values, { conditionPolicy: policy });
+    expect(client).toBe(expected);
+    expect(server).toBe(expected);
+  });
+});
+
+describe('field types', () => {
+  test('the frontend FIELD_TYPES match the config schema fieldType enum', () => {
+    expect([...frontend.FIELD_TYPES].sort()).toEqual([...formConfigSchema.definitions.fieldType.enum].sort());
+  });
+});
+
+describe.each(getAllConfigs().map(({ id }) => id))('shipped config %s', (formId) => {
+  const config = getConfigById(formId);
+  const core = frontend.createFormCore(config);
+  const evaluateOnClient = frontend.createConditionsEvaluator(config.conditionPolicy);
+  const samples = buildSamples(config);
+  const targets = collectConditionTargets(config);
+
+  test('step and field conditions agree', () => {
+    const mismatches = [];
+    for (const values of samples) {
+      for (const { label, conditions } of targets) {
+        const client = evaluateOnClient(conditions, values);
+        const server = evaluateConditions(conditions, values, config);
+        if (client !== server) mismatches.push({ label, values, client, server });
+      }
+    }
+    expect(mismatches).toEqual([]);
+  });
+
+  test('visible fields are the fields the server validates', () => {
+    const mismatches = [];
+    for (const values of samples) {
+      const visible = new Set();
+      for (const stepIndex of core.getVisibleStepIndices(values)) {
+        for (const field of core.getVisibleFields(stepIndex, values)) {
+          if (!isStaticField(field)) visible.add(field.name);
+        }
+      }
+      const validated = new Set(Object.keys(generateZodSchema(config, values).shape));
+      const onlyClient = [...visible].filter((name) => !validated.has(name));
+      const onlyServer = [...validated].filter((name) => !visible.has(name));
+      if (onlyClient.length || onlyServer.length) mismatches.push({ values, onlyClient, onlyServer });
+    }
+    expect(mismatches).toEqual([]);
+  });
+});
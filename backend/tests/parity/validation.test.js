@@ -0,0 +1,171 @@
+const { generateZodSchema, validateFormData, validateGlobalRules } = require('../../core/utils/zodSchemaGenerator');
+const { getConfigById } = require('../../core/services/form-service');
+const { loadFrontendCore } = require('../support/frontendCore');
+
+const frontend = loadFrontendCore();
+
+function yearsAgo(years) {
+  const date = new Date();
+  date.setFullYear(date.getFullYear() - years);
+  return date.toISOString().slice(0, 10);
+}
+
+// [description, field, value, expected message (undefined when the value passes)]
+const FIELD_CASES = [
+  ['required text left empty', { type: 'text', required: true, validation: [{ rule: 'required' }] }, '', 'This field is required'],
+  ['required text filled', { type: 'text', validation: [{ rule: 'required' }] }, 'Ada', undefined],
+  ['required checkbox unticked', { type: 'checkbox', validation: [{ rule: 'required', message: 'Please agree' }] }, false, 'Please agree'],
+  ['email', { type: 'email', validation: ['email'] }, 'ada@example.com', undefined],
+  ['invalid email', { type: 'email', validation: ['email'] }, 'ada@', 'Please enter a valid email address'],
+  ['US phone', { type: 'phone', validation: [{ rule: 'phoneUS' }] }, '(555) 123-4567', undefined],
+  ['short phone (alias)', { type: 'phone', validation: [{ phone: true }] }, '555-1234', 'Please enter a valid US phone number'],
+  ['ZIP+4', { type: 'text', validation: [{ rule: 'zipCode' }] }, '12345-6789', undefined],
+  ['bad ZIP (alias)', { type: 'text', validation: [{ rule: 'zipCodeUS' }] }, '1234', 'Please enter a valid ZIP code'],
+  ['SSN without dashes', { type: 'text', validation: [{ ssn: true }] }, '123456789', 'Please enter a valid SSN (XXX-XX-XXXX)'],
+  ['minLength with message', { type: 'text', validation: [{ minLength: 3, message: 'Too short' }] }, 'ab', 'Too short'],
+  ['maxLength', { type: 'text', validation: [{ rule: 'maxLength', value: 3 }] }, 'abcd', 'Must be no more than 3 characters'],
+  ['pattern', { type: 'text', validation: [{ rule: 'pattern', value: '^[A-Z]{2}$' }] }, 'Cal', 'Invalid format'],
+  ['oneOf', { type: 'dropdown', validation: [{ rule: 'oneOf', value: ['a', 'b'] }] }, 'c', 'Please select a valid option'],
+  ['rules run in config order', { type: 'text', validation: [{ rule: 'minLength', value: 5 }, 'email'] }, 'a@b', 'Must be at least 5 characters'],
+  ['currency below its min property', { type: 'currency', min: 1000 }, 500, 'Must be at least 1000'],
+  ['currency at its min property', { type: 'currency', min: 1000 }, 1000, undefined],
+  ['integer above its max property', { type: 'integer', max: 10 }, 11, 'Must be no more than 10'],
+  ['listed min rule wins over the min property', { type: 'number', min: 5, validation: [{ rule: 'min', value: 1 }] }, 3, undefined],
+  ['adult date of birth', { type: 'date', validation: [{ rule: 'minAge', value: 18 }] }, yearsAgo(30), undefined],
+  ['minor date of birth', { type: 'date', validation: [{ rule: 'minAge', value: 18 }] }, yearsAgo(10), 'Must be at least 18 years old'],
+  ['credit score bucket below the minimum', { type: 'dropdown', validation: [{ minCreditScore: '660' }] }, '<660', 'Credit score must be at least 660'],
+  ['too few selections', { type: 'multi_select', validation: [{ rule: 'minSelections', value: 2 }] }, ['a'], 'Select at least 2'],
+  ['too many selections', { type: 'checkbox_group', validation: [{ rule: 'maxSelections', value: 1 }] }, ['a', 'b'], 'Select no more than 1'],
+  ['every entry of a multi-value field', { type: 'tag_input', validation: ['email'] }, ['ada@example.com', 'nope'], 'Please enter a valid email address'],
+  ['optional field left empty', { type: 'text', validation: ['email'] }, '', undefined]
+];
+
+function serverMessage(field, value) {
+  const config = { steps: [{ id: 'step', name: 'Step', fields: [field] }] };
+  const result = generateZodSchema(config, { [field.name]: value }).shape[field.name].safeParse(value);
+  return result.success ? undefined : result.error.issues[0].message;
+}
+
+describe('field validation', () => {
+  test.each(FIELD_CASES)('%s', (_description, definition, value, expected) => {
+    const field = { name: 'answer', label: 'Answer', ...definition };
+    expect(frontend.createConfigFieldValidator(field)({ value })).toBe(expected);
+    expect(serverMessage(field, value)).toBe(expected);
+  });
+});
+
+describe('wizard question steps', () => {
+  const config = getConfigById('ppf-retail-wizard');
+  const core = frontend.createFormCore(config);
+
+  // Messages the server's step validation gives, keyed by field name
+  function serverStepErrors(stepId, values) {
+    const stepConfig = { ...config, steps: config.steps.filter((step) => step.id === stepId) };
+    const result = validateFormData(stepConfig, values);
+    if (result.success) return {};
+    return Object.fromEntries(
+      Object.entries(result.errors)
+        .filter(([name]) => name !== '_errors')
+        .map(([name, error]) => [name, error._errors[0]])
+    );
+  }
+
+  test.each([
+    ['unanswered', { estimatedCreditScore: '' }, { estimatedCreditScore: 'Please select your credit score range' }],
+    ['below the minimum', { estimatedCreditScore: '<660' }, { estimatedCreditScore: 'We require a minimum credit score of 660' }],
+    ['answered', { estimatedCreditScore: '760+' }, {}]
+  ])('credit score question %s', (_description, values, expected) => {
+    const client = Object.fromEntries(core.getStepErrors(values, core.getStepIndexById('credit-score-question')));
+    expect(client).toEqual(expected);
+    expect(serverStepErrors('credit-score-question', values)).toEqual(expected);
+  });
+});
+
+describe('global rules', () => {
+  const config = {
+    steps: [
+      {
+        id: 'applicants',
+        name: 'Applicants',
+        fields: [
+          { name: 'email', label: 'Email', type: 'email' },
+          { name: 'coEmail', label: 'Co-applicant email', type: 'email' },
+          { name: 'ownershipA', label: 'Ownership A', type: 'percentage' },
+          { name: 'ownershipB', label: 'Ownership B', type: 'percentage' },
+          { name: 'creditScore', label: 'Credit score', type: 'dropdown' }
+        ]
+      }
+    ],
+    validation: {
+      globalRules: [
+        { rule: 'unique', fields: ['email', 'coEmail'], message: 'Use different emails' },
+        { rule: 'sum', fields: ['ownershipA', 'ownershipB'], value: 100 },
+        { field: 'creditScore', rule: 'minCreditScore', value: 660 },
+        { rule: 'compare', fields: ['ownershipA', 'ownershipB'], operator: '>=', conditions: [{ '==': [{ var: 'creditScore' }, '<660'] }] }
+      ]
+    }
+  };
+  const core = frontend.createFormCore(config);
+
+  test.each([
+    ['all rules pass', { email: 'a@x.com', coEmail: 'b@x.com', ownershipA: 60, ownershipB: 40, creditScore: '700-719' }, {}],
+    [
+      'every rule fails',
+      { email: 'A@x.com ', coEmail: 'a@x.com', ownershipA: 30, ownershipB: 40, creditScore: '<660' },
+      {
+        coEmail: 'Use different emails',
+        ownershipA: 'Total must equal 100',
+        creditScore: 'Credit score must be at least 660'
+      }
+    ]
+  ])('%s', (_description, values, expected) => {
+    const client = Object.fromEntries(core.checkSubmitRules(values).errors);
+    const server = validateGlobalRules(config, values, generateZodSchema(config, values));
+    expect(client).toEqual(expected);
+    expect(server).toEqual(expected);
+  });
+});
+
+describe('computed fields', () => {
+  const config = {
+    steps: [
+      {
+        id: 'loan',
+        name: 'Loan',
+        fields: [
+          { name: 'loanAmount', label: 'Loan amount', type: 'text' },
+          { name: 'propertyValue', label: 'Property value', type: 'currency' },
+          {
+            name: 'ltv',
+            label: 'LTV',
+            type: 'computed',
+            precision: 2,
+            expression: { '*': [{ '/': [{ var: 'loanAmount' }, { var: 'propertyValue' }] }, 100] }
+          },
+          { name: 'highLtv', label: 'High LTV', type: 'computed', expression: { '>': [{ var: 'ltv' }, 80] } }
+        ]
+      }
+    ]
+  };
+  const core = frontend.createFormCore(config);
+
+  test.each([
+    ['display-formatted input', { loanAmount: '$280,000', propertyValue: '350000' }, { ltv: 80, highLtv: false }],
+    ['rounded result', { loanAmount: '100000', propertyValue: '300000' }, { ltv: 33.33, highLtv: false }],
+    ['chained computed field', { loanAmount: '300,000', propertyValue: '350000' }, { ltv: 85.71, highLtv: true }],
+    ['division by zero', { loanAmount: '1000', propertyValue: '0' }, { ltv: null, highLtv: false }]
+  ])('%s: the server accepts what the client computed', (_description, inputs, expected) => {
+    const defaults = core.buildDefaultValues(inputs);
+    const values = { ...defaults, ...core.getComputedUpdates(defaults) };
+    expect(values).toMatchObject(expected);
+
+    const result = validateFormData(config, values);
+    expect(result).toMatchObject({ success: true, data: expected });
+  });
+
+  test('a tampered computed value is rejected', () => {
+    const result = validateFormData(config, { loanAmount: '280000', propertyValue: '350000', ltv: 60, highLtv: false });
+    expect(result.success).toBe(false);
+    expect(result.errors.ltv._errors).toEqual(['LTV does not match its calculated value']);
+  });
+});
@@ -0,0 +1,82 @@
+const { getAllConfigs, getLintReport } = require('../../core/services/form-service');
+const { prefillFromLoanData, toDatabaseDocument } = require('../../core/services/transformation-service');
+
+const brokerData = {
+  loanTypeName: 'DSCR',
+  loanPurpose: 'purchase',
+  property_type: 'single_family',
+  property_state: 'CA',
+  property_value: 500000,
+  application_type: 'joint',
+  numberOfBorrowers: '2',
+  borrowers: [
+    { first_name: 'Ada', last_name: 'Lovelace', email: 'ada@example.com', phone: '5551234567' },
+    { first_name: 'Alan', last_name: 'Turing', email: 'alan@example.com', phone: '5557654321' }
+  ]
+};
+
+describe('shipped transformations', () => {
+  test.each(getAllConfigs().map(({ id }) => id))('%s config and transformation have no lint errors', (formId) => {
+    const errors = getLintReport(formId)
+      .flatMap(({ file, issues }) => issues.map((found) => ({ file, ...found })))
+      .filter((found) => found.severity === 'error');
+    expect(errors).toEqual([]);
+  });
+});
+
+describe('toDatabaseDocument', () => {
+  test('maps form fields and one entry per repeater row', () => {
+    expect(toDatabaseDocument('ppf-broker-complete', brokerData)).toEqual({
+      loan: { type: 'DSCR', purpose: 'purchase' },
+      property: { type: 'single_family', state: 'CA', value: 500000 },
+      borrowers: [
+        { personal: { firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.com', phone: '5551234567' } },
+        { personal: { firstName: 'Alan', lastName: 'Turing', email: 'alan@example.com', phone: '5557654321' } }
+      ],
+      application: { type: 'joint', borrowerCount: '2' }
+    });
+  });
+
+  test('maps simple outbound maps to nested paths', () => {
+    const document = toDatabaseDocument('ppf-retail-wizard', {
+      qualifyingPropertyType: 'condo',
+      property_city: 'Austin',
+      first_name: 'Ada',
+      date_of_birth: '1980-04-12'
+    });
+    expect(document.property).toMatchObject({ type: 'condo', address: { city: 'Austin' } });
+    expect(document.borrower.personal).toMatchObject({ firstName: 'Ada', dateOfBirth: '1980-04-12' });
+  });
+
+  test('skips a transformation with lint errors', () => {
+    jest.isolateModules(() => {
+      jest.doMock('../../core/services/form-service', () => ({
+        getTransformationById: () => ({ outbound: { propertyType: 'property.type' } }),
+        hasTransformationLintErrors: () => true
+      }));
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const service = require('../../core/services/transformation-service');
+      expect(service.toDatabaseDocument('broken', { property_type: 'condo' })).toBeNull();
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Transformation for broken has lint errors'));
+    });
+  });
+});
+
+describe('prefillFromLoanData', () => {
+  test('fills repeater rows from the loan payload', () => {
+    const values = prefillFromLoanData('ppf-broker-complete', {}, {
+      additionalInfo: {
+        applicationType: 'joint',
+        borrowers: [
+          { firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.com', phone: '5551234567' },
+          { firstName: 'Alan', lastName: 'Turing', email: 'alan@example.com', phone: '5557654321' }
+        ]
+      }
+    });
+    expect(values.application_type).toBe('joint');
+    expect(values.borrowers).toEqual([
+      { first_name: 'Ada', last_name: 'Lovelace', email: 'ada@example.com', phone: '5551234567' },
+      { first_name: 'Alan', last_name: 'Turing', email: 'alan@example.com', phone: '5557654321' }
+    ]);
+  });
+});
@@ -0,0 +1,38 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+/**
+ * The frontend headless core, bundled to CommonJS with the frontend's own esbuild.
+ * The bundle carries the frontend's json-logic, zod and TypeScript bindings, so the
+ * parity tests compare the two real implementations (requires `npm install` in frontend/).
+ */
+
+const FRONTEND_DIR = path.join(__dirname, '../../../frontend');
+
+const ENTRY = [
+  "export { createFormCore } from './core/formCore'",
+  "export { createConditionsEvaluator } from './core/conditions'",
+  "export { createConfigFieldValidator } from './core/zodValidation'",
+  "export { FIELD_TYPES } from './core/fieldTypes'"
+].join('\n');
+
+function loadFrontendCore() {
+  const { buildSync } = require(path.join(FRONTEND_DIR, 'node_modules/esbuild'));
+  const outfile = path.join(os.tmpdir(), `form-core-parity-${process.pid}-${Date.now()}.cjs`);
+  buildSync({
+    stdin: { contents: ENTRY, resolveDir: path.join(FRONTEND_DIR, 'src'), loader: 'ts' },
+    bundle: true,
+    platform: 'node',
+    format: 'cjs',
+    outfile,
+    logLevel: 'error'
+  });
+  try {
+    return require(outfile);
+  } finally {
+    fs.rmSync(outfile, { force: true });
+  }
+}
+
+module.exports = { loadFrontendCore };
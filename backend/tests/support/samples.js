@@ -0,0 +1,78 @@
+/**
+ * Value samples for a form config, built from what its conditions read and compare against
+ */
+
+function collectVars(rule, acc = new Set()) {
+  if (!rule || typeof rule !== 'object') return acc;
+  if (Array.isArray(rule)) {
+    rule.forEach((entry) => collectVars(entry, acc));
+    return acc;
+  }
+  for (const [op, value] of Object.entries(rule)) {
+    if (op === 'var') {
+      const name = Array.isArray(value) ? value[0] : value;
+      if (typeof name === 'string' && name) acc.add(name);
+    } else {
+      collectVars(value, acc);
+    }
+  }
+  return acc;
+}
+
+function collectLiterals(rule, acc = new Set()) {
+  if (Array.isArray(rule)) {
+    rule.forEach((entry) => collectLiterals(entry, acc));
+  } else if (rule && typeof rule === 'object') {
+    for (const [op, value] of Object.entries(rule)) {
+      if (op !== 'var') collectLiterals(value, acc);
+    }
+  } else if (rule !== undefined) {
+    acc.add(rule);
+  }
+  return acc;
+}
+
+/**
+ * Every step and field condition of a config, labelled for test names
+ */
+function collectConditionTargets(config) {
+  const targets = [];
+  for (const step of config.steps || []) {
+    if (step.conditions?.length) targets.push({ label: `step ${step.id}`, conditions: step.conditions });
+    for (const field of step.fields || []) {
+      if (field.conditions?.length) targets.push({ label: `field ${step.id}.${field.name}`, conditions: field.conditions });
+    }
+  }
+  return targets;
+}
+
+/**
+ * An empty form, one sample per (var, candidate value) pair, and "all first" / "all last" combinations
+ */
+function buildSamples(config) {
+  const conditions = collectConditionTargets(config).flatMap((target) => target.conditions);
+  const fieldsByName = new Map();
+  for (const step of config.steps || []) {
+    for (const field of step.fields || []) fieldsByName.set(field.name, field);
+  }
+
+  const literals = Array.from(collectLiterals(conditions));
+  const candidatesFor = (name) => {
+    const optionValues = (fieldsByName.get(name)?.options || []).map((option) => option.value);
+    return Array.from(new Set([...optionValues, ...literals, true, false, '', 0, 25, 1000000, null]));
+  };
+
+  const samples = [{}];
+  const first = {};
+  const last = {};
+  for (const name of collectVars(conditions)) {
+    const candidates = candidatesFor(name);
+    first[name] = candidates[0];
+    last[name] = candidates[candidates.length - 1];
+    for (const candidate of candidates) samples.push({ [name]: candidate });
+  }
+  samples.push(first, last);
+  return samples;
+}
+
+module.exports = { buildSamples, collectConditionTargets };
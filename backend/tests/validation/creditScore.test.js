@@ -0,0 +1,57 @@
+const { getAllConfigs, getConfigById } = require('../../core/services/form-service');
+const { generateZodSchema, validateGlobalRules } = require('../../core/utils/zodSchemaGenerator');
+const { validateValue } = require('../../../shared/validation/ruleRegistry.mjs');
+
+// Every credit score range the shipped configs offer, and whether it meets a 660 minimum
+const BUCKETS_MEET_660 = {
+  '760+': true,
+  '740-759': true,
+  '720-739': true,
+  '700-719': true,
+  '680-699': true,
+  '660-679': true,
+  '<660': false
+};
+
+const MESSAGE = 'Credit score must be at least 660';
+
+function shippedBuckets() {
+  const buckets = new Set();
+  for (const { id } of getAllConfigs()) {
+    for (const step of getConfigById(id).steps || []) {
+      for (const field of step.fields || []) {
+        if (field.name !== 'estimatedCreditScore') continue;
+        for (const option of field.options || []) buckets.add(option.value);
+      }
+    }
+  }
+  return [...buckets].sort();
+}
+
+describe('minCreditScore', () => {
+  test('every shipped credit score range has an expected result', () => {
+    expect(shippedBuckets()).toEqual(Object.keys(BUCKETS_MEET_660).sort());
+  });
+
+  test.each(Object.entries(BUCKETS_MEET_660))('field rule: %s meets 660 is %s', (bucket, meets) => {
+    expect(validateValue([{ rule: 'minCreditScore', value: 660, message: MESSAGE }], bucket)).toBe(meets ? undefined : MESSAGE);
+  });
+
+  test.each(Object.entries(BUCKETS_MEET_660))('global rule (ppf-retail-wizard): %s meets 660 is %s', (bucket, meets) => {
+    const config = getConfigById('ppf-retail-wizard');
+    const formData = { estimatedCreditScore: bucket };
+    const errors = validateGlobalRules(config, formData, generateZodSchema(config, formData));
+    expect(errors.estimatedCreditScore).toBe(meets ? undefined : 'Unfortunately we require a 660+ credit score');
+  });
+
+  test.each([
+    [720, undefined],
+    ['650', MESSAGE],
+    ['600-699', MESSAGE],
+    ['640-659', MESSAGE],
+    ['800+', undefined],
+    ['< 700', undefined]
+  ])('reads %p as a score', (value, expected) => {
+    expect(validateValue([{ rule: 'minCreditScore', value: 660, message: MESSAGE }], value)).toBe(expected);
+  });
+});
@@ -0,0 +1,81 @@
+const { stripHiddenValues } = require('../../core/utils/hiddenValues');
+const { validateFormData, validateKeptValues } = require('../../core/utils/zodSchemaGenerator');
+
+const config = {
+  id: 'hidden-values',
+  steps: [
+    {
+      id: 'applicant',
+      name: 'Applicant',
+      fields: [
+        { name: 'has_cosigner', type: 'radio', required: true, options: [{ value: 'yes' }, { value: 'no' }] },
+        {
+          name: 'cosigner_email',
+          type: 'email',
+          required: true,
+          validation: [{ rule: 'email' }],
+          onHide: 'keep',
+          conditions: [{ '===': [{ var: 'has_cosigner' }, 'yes'] }]
+        },
+        { name: 'people', type: 'repeater' }
+      ]
+    }
+  ],
+  arrayTemplates: {
+    people: {
+      minCount: 1,
+      maxCount: 3,
+      fieldTemplate: [
+        { id: 'name', type: 'text' },
+        { id: 'relationship', type: 'text', conditions: [{ '>': [{ var: 'index' }, 0] }] },
+        {
+          id: 'age',
+          type: 'number',
+          onHide: 'keep',
+          conditions: [{ '>': [{ var: 'index' }, 0] }]
+        }
+      ]
+    }
+  }
+};
+
+const people = [
+  { name: 'Ada', relationship: 'self', age: 40 },
+  { name: 'Alan', relationship: 'spouse', age: 41 }
+];
+
+describe('hidden row fields', () => {
+  test('are dropped per row unless their policy keeps them', () => {
+    const hidden = stripHiddenValues(config, { has_cosigner: 'no', people });
+    expect(hidden.stripped).toEqual(['people.0.relationship']);
+    expect(hidden.values.people).toEqual([{ name: 'Ada', age: 40 }, people[1]]);
+  });
+
+  test('kept by the policy are validated but not required', () => {
+    const accepted = validateFormData(config, { has_cosigner: 'no', people: [{ name: 'Ada', age: 40 }, people[1]] });
+    expect(accepted.success).toBe(true);
+    expect(accepted.data.people[0]).toEqual({ name: 'Ada', age: 40 });
+
+    const rejected = validateFormData(config, { has_cosigner: 'no', people: [{ name: 'Ada', age: 'forty' }, people[1]] });
+    expect(rejected.success).toBe(false);
+    expect(rejected.errors.people[0].age._errors).toHaveLength(1);
+  });
+});
+
+describe('validateKeptValues', () => {
+  test('accepts kept values that fit their field', () => {
+    const hidden = stripHiddenValues(config, { has_cosigner: 'no', cosigner_email: 'co@example.com', people });
+    expect(hidden.kept).toEqual({ cosigner_email: 'co@example.com' });
+    expect(validateKeptValues(config, hidden.kept)).toEqual({ success: true, data: { cosigner_email: 'co@example.com' } });
+  });
+
+  test('rejects kept values their field would reject', () => {
+    const result = validateKeptValues(config, { cosigner_email: 'not an email' });
+    expect(result.success).toBe(false);
+    expect(result.errors.cosigner_email._errors).toHaveLength(1);
+  });
+
+  test('does not require a kept empty value', () => {
+    expect(validateKeptValues(config, { cosigner_email: '' }).success).toBe(true);
+  });
+});
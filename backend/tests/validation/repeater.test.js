@@ -0,0 +1,103 @@
+const { getConfigById } = require('../../core/services/form-service');
+const { generateZodSchema } = require('../../core/utils/zodSchemaGenerator');
+const { validateStepSubmission } = require('../../api/middleware/validateStepSubmission');
+
+const config = getConfigById('ppf-broker-complete');
+
+function borrower(name, extra = {}) {
+  return {
+    first_name: name,
+    last_name: 'Lovelace',
+    email: `${name.toLowerCase()}@example.com`,
+    phone: '5551234567',
+    ssn: '123-45-6789',
+    date_of_birth: '1980-04-12',
+    ...extra
+  };
+}
+
+const joint = { loanTypeName: 'DSCR', application_type: 'joint', numberOfBorrowers: '2' };
+
+// The borrowers value parsed against the schema for the whole form's values
+function validateBorrowers(borrowers) {
+  const values = { ...joint, borrowers };
+  const result = generateZodSchema(config, values).shape.borrowers.safeParse(borrowers);
+  const issues = result.success ? [] : result.error.issues.map(({ path, message }) => ({ path, message }));
+  return { success: result.success, data: result.data, issues };
+}
+
+describe('repeater rows', () => {
+  test('accepts the requested number of rows with their visible fields', () => {
+    const result = validateBorrowers([borrower('Ada'), borrower('Alan', { relationship_to_primary: 'spouse' })]);
+    expect(result.success).toBe(true);
+    expect(result.data[1].relationship_to_primary).toBe('spouse');
+  });
+
+  test('rejects more rows than numberOfBorrowers asks for', () => {
+    const result = validateBorrowers([
+      borrower('Ada'),
+      borrower('Alan', { relationship_to_primary: 'spouse' }),
+      borrower('Grace', { relationship_to_primary: 'other' })
+    ]);
+    expect(result.issues).toEqual([{ path: [], message: 'Expected 2 entries' }]);
+  });
+
+  test('rejects keys the template does not have', () => {
+    const result = validateBorrowers([
+      borrower('Ada', { isAdmin: true }),
+      borrower('Alan', { relationship_to_primary: 'spouse' })
+    ]);
+    expect(result.issues).toEqual([{ path: [0], message: 'Unrecognized key: "isAdmin"' }]);
+  });
+
+  test('drops template fields hidden in a row', () => {
+    const result = validateBorrowers([
+      borrower('Ada', { relationship_to_primary: 'spouse' }),
+      borrower('Alan', { relationship_to_primary: 'spouse' })
+    ]);
+    expect(result.success).toBe(true);
+    expect(result.data[0]).not.toHaveProperty('relationship_to_primary');
+  });
+
+  test('checks fields shown only in later rows', () => {
+    const result = validateBorrowers([borrower('Ada'), borrower('Alan')]);
+    expect(result.issues.map(({ path }) => path)).toEqual([[1, 'relationship_to_primary']]);
+  });
+});
+
+describe('step submission', () => {
+  function submitStep(stepId, data) {
+    return new Promise((resolve) => {
+      const req = { params: { formId: 'ppf-broker-complete' }, body: { stepId, data } };
+      const res = {
+        status(code) {
+          this.statusCode = code;
+          return this;
+        },
+        json(body) {
+          resolve({ status: this.statusCode, body });
+        }
+      };
+      validateStepSubmission(req, res, () => resolve({ status: 200, data: req.validatedStepData }));
+    });
+  }
+
+  test('validates the synthetic borrowers-details step', async () => {
+    const rows = [borrower('Ada'), borrower('Alan', { relationship_to_primary: 'spouse' })];
+    const { status, data } = await submitStep('borrowers-details', { ...joint, borrowers: rows });
+    expect(status).toBe(200);
+    expect(data).toEqual({ borrowers: rows });
+  });
+
+  test('rejects a borrowers-details step with the wrong row count', async () => {
+    const rows = [borrower('Ada')];
+    const { status, body } = await submitStep('borrowers-details', { ...joint, borrowers: rows });
+    expect(status).toBe(400);
+    expect(body.validationErrors.borrowers._errors).toEqual(['Expected 2 entries']);
+  });
+
+  test('does not ask for rows on the controller step', async () => {
+    const { status } = await submitStep('borrower-selection', joint);
+    expect(status).toBe(200);
+  });
+});
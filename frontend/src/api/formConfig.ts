@@ -1,89 +1,8 @@
-export interface FormField {
-  id: string
-  name: string
-  type: string
-  label?: string
-  text?: string
-  required?: boolean
-  placeholder?: string
-  helpText?: string
-  validation?: any[]
-  grid?: { xs: number; sm?: number; md?: number; lg?: number }
-  options?: Array<{
-    value: string
-    label: string
-    description?: string
-  }>
-  dependencies?: string[]
-  conditions?: any[]
-  style?: Record<string, any>
-}
-
-export interface FormStep {
-  id: string
-  name: string
-  description: string
-  order: number
-  required?: boolean
-  conditions?: any[]
-  fields: FormField[]
-  // Optional metadata used by wizard flows
-  stepType?: string
-  phase?: string
-}
-
-export interface FlowPhase {
-  id: string
-  name: string
-  type: 'selection' | 'wizard' | 'traditional'
-  description: string
-  order?: number
-}
-
-export interface FlowConfig {
-  type: 'linear' | 'selection' | 'wizard' | 'hybrid' | 'single'
-  navigation?: 'stepped' | 'wizard' | 'free-form' | 'sections' | string
-  selectionStep?: {
-    stepId: string
-    fieldName: string
-  }
-  phases?: FlowPhase[]
-}
+import type { PriceQuote } from '../../../shared/pricing/pricingModel.mjs'
+import type { FieldOption, FormConfig } from '../core/types'
 
-export interface FormConfig {
-  metadata: {
-    id: string
-    name: string
-    version?: string
-    description?: string
-  }
-  // New unified flow configuration (preferred)
-  flowConfig?: FlowConfig
-  steps: FormStep[]
-  flowSelection?: { step: string; field: string }
-  arrayTemplates?: Record<string, {
-    minCount: number
-    maxCount: number
-    defaultCount: number
-    countField: string
-    fieldTemplate: Array<{
-      id: string
-      type: string
-      label?: string
-      required?: boolean
-      validation?: any[]
-      grid?: { xs: number; sm?: number; md?: number; lg?: number }
-      arrayIndex?: boolean
-    }>
-  }>
-  validation?: {
-    globalRules?: any[]
-  }
-  transformations?: {
-    inbound: Record<string, string>
-    outbound: Record<string, string>
-  }
-}
+// Config types live with the engines; re-exported for API callers
+export type { FlowConfig, FlowPhase, FormConfig, FormField, FormStep } from '../core/types'
 
 export interface FormMetadataSummary {
   id: string
@@ -121,8 +40,26 @@ export async function fetchAllForms(): Promise<FormMetadataSummary[]> {
   return result.data as FormMetadataSummary[]
 }
 
-export async function submitForm(formId: string, formData: Record<string, any>): Promise<{ success: boolean; message: string; timestamp: string }> {
-  const response = await fetch(`http://localhost:3001/api/forms/${formId}/submit`, {
+export async function fetchOptions(
+  source: string,
+  params: Record<string, string> = {}
+): Promise<FieldOption[]> {
+  const query = new URLSearchParams(params).toString()
+  const response = await fetch(`http://localhost:3001/api/options/${encodeURIComponent(source)}${query ? `?${query}` : ''}`)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch options: ${response.status} ${response.statusText}`)
+  }
+  const result = await response.json()
+  if (!result.success) {
+    throw new Error('API returned error: ' + (result.error || 'Unknown error'))
+  }
+  return result.data
+}
+
+// The draft of `sessionId`, when given, is deleted once the submission is stored
+export async function submitForm(formId: string, formData: Record<string, any>, sessionId?: string): Promise<{ success: boolean; message: string; submissionId: string; document: Record<string, any> | null; timestamp: string }> {
+  const query = sessionId ? `?sessionId=${encodeURIComponent(sessionId)}` : ''
+  const response = await fetch(`http://localhost:3001/api/forms/${formId}/submit${query}`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -142,3 +79,93 @@ export async function submitForm(formId: string, formData: Record<string, any>):
 
   return result
 }
+
+export interface FormDraft {
+  formId: string
+  sessionId: string
+  values: Record<string, any>
+  currentStepId: string | null
+  currentStepIndex: number
+  createdAt: string
+  updatedAt: string
+}
+
+const draftSessionKey = (formId: string) => `form-draft-session:${formId}`
+
+// Draft session per form, kept in localStorage so a reload resumes the same draft
+export function getDraftSessionId(formId: string): string {
+  return localStorage.getItem(draftSessionKey(formId)) || rotateDraftSession(formId)
+}
+
+// New draft session for a form, e.g. once it is submitted, so the next visit starts empty
+export function rotateDraftSession(formId: string): string {
+  const sessionId = crypto.randomUUID()
+  localStorage.setItem(draftSessionKey(formId), sessionId)
+  return sessionId
+}
+
+export async function fetchDraft(formId: string, sessionId: string): Promise<FormDraft | null> {
+  const response = await fetch(`http://localhost:3001/api/forms/${formId}/drafts/${sessionId}`)
+  if (response.status === 404) return null
+  if (!response.ok) {
+    throw new Error(`Failed to fetch draft: ${response.status} ${response.statusText}`)
+  }
+  const result = await response.json()
+  if (!result.success) {
+    throw new Error('API returned error: ' + (result.error || 'Unknown error'))
+  }
+  return result.data as FormDraft
+}
+
+export async function saveProgress(
+  formId: string,
+  payload: { stepId: string; sessionId?: string; currentStepIndex?: number; data: Record<string, any> }
+): Promise<{ success: boolean; sessionId: string; timestamp: string }> {
+  const response = await fetch(`http://localhost:3001/api/forms/${formId}/save-progress`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(payload),
+  })
+  const result = await response.json()
+  if (!response.ok || !result.success) {
+    // Step validation failures carry the backend's field errors
+    throw Object.assign(new Error(result.error || `Failed to save progress: ${response.status} ${response.statusText}`), {
+      validationErrors: result.validationErrors,
+    })
+  }
+  return result
+}
+
+// Maps a loan payload (MISMO-like DEAL.EXTENSION... JSON) to form values via the form's inbound transformation
+export async function fetchPrefill(formId: string, loanData: unknown): Promise<Record<string, any>> {
+  const response = await fetch(`http://localhost:3001/api/forms/${formId}/prefill`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ loanData }),
+  })
+  const result = await response.json()
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `Failed to prefill form: ${response.status} ${response.statusText}`)
+  }
+  return result.data
+}
+
+// Indicative rate and payment for the current answers (pricing.adapter "api"); null while answers are missing
+export async function fetchPriceQuote(formId: string, values: Record<string, unknown>): Promise<PriceQuote | null> {
+  const response = await fetch(`http://localhost:3001/api/forms/${formId}/price`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ values }),
+  })
+  const result = await response.json()
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `Failed to price form: ${response.status} ${response.statusText}`)
+  }
+  return result.data
+}
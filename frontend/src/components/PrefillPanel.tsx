@@ -0,0 +1,97 @@
+import * as React from 'react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { cn } from '@/lib/utils'
+import type { PrefillSource } from '@/lib/prefill'
+
+interface PrefillPanelProps {
+  onApply: (loanData: unknown) => Promise<void>
+  sources: Record<string, PrefillSource>
+  error?: string | null
+  className?: string
+}
+
+/**
+ * Collapsible "Prefill from loan" panel: paste or load a loan JSON file and
+ * send it through the form's inbound transformation.
+ */
+export function PrefillPanel({ onApply, sources, error, className }: PrefillPanelProps) {
+  const [open, setOpen] = React.useState(false)
+  const [text, setText] = React.useState('')
+  const [parseError, setParseError] = React.useState<string | null>(null)
+  const [applying, setApplying] = React.useState(false)
+
+  const counts = React.useMemo(() => {
+    const result: Partial<Record<PrefillSource, number>> = {}
+    for (const source of Object.values(sources)) {
+      result[source] = (result[source] || 0) + 1
+    }
+    return result
+  }, [sources])
+
+  const summary = (Object.entries(counts) as [PrefillSource, number][])
+    .map(([source, count]) => `${count} from ${source}`)
+    .join(', ')
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) setText(await file.text())
+  }
+
+  const handleApply = async () => {
+    let loanData: unknown
+    try {
+      loanData = JSON.parse(text)
+    } catch {
+      setParseError('Loan data must be valid JSON')
+      return
+    }
+    setParseError(null)
+    setApplying(true)
+    try {
+      await onApply(loanData)
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  return (
+    <div className={cn('mx-auto mb-6 rounded-lg border bg-card p-4 space-y-3', className)}>
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <div className="font-medium">Prefill from loan data</div>
+          <div className="text-sm text-muted-foreground">
+            {summary ? `Prefilled fields: ${summary}` : 'No fields prefilled'}
+          </div>
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={() => setOpen((o) => !o)}>
+          {open ? 'Hide' : 'Load loan JSON'}
+        </Button>
+      </div>
+
+      {open && (
+        <div className="space-y-3">
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder='{ "DEAL": { "EXTENSION": { ... } } }'
+            className="font-mono text-xs min-h-[160px]"
+          />
+          <div className="flex items-center justify-between gap-4">
+            <input type="file" accept="application/json,.json" onChange={handleFile} className="text-sm" />
+            <Button type="button" size="sm" onClick={handleApply} disabled={applying || !text.trim()}>
+              {applying ? 'Applying...' : 'Apply'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {(parseError || error) && (
+        <Alert variant="destructive">
+          <AlertDescription>{parseError || error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
@@ -50,8 +50,8 @@ export function Router() {
         <main>
           <Routes>
             <Route path="/" element={<Home />} />
-            <Route path="/tanstack/form/:formId" element={<DynamicFormPage />} />
-            <Route path="/rhf/form/:formId" element={<DynamicRHFFormPage />} />
+            <Route path="/tanstack/form/:formId/:stepId?" element={<DynamicFormPage />} />
+            <Route path="/rhf/form/:formId/:stepId?" element={<DynamicRHFFormPage />} />
           </Routes>
         </main>
       </div>
@@ -0,0 +1,67 @@
+import {
+  createComputedEvaluator,
+  DEFAULT_COMPUTED_PRECISION,
+  getExpressionVars,
+  isComputedField as isComputedType,
+} from '../../../shared/computed/computedFields.mjs'
+import { DEFAULT_NUMBER_FORMAT, formatCurrency, type NumberFormat } from '../../../shared/numbers/numberFormat.mjs'
+import type { ComputedField, FormData, FormField, FormStep } from './types'
+import { applyLogic } from './conditions'
+
+/**
+ * Frontend binding of the shared computed-field model (shared/computed/computedFields.mjs),
+ * which the backend uses to re-verify submitted values.
+ */
+export const { computeValue, computeValues } = createComputedEvaluator(applyLogic)
+
+export function isComputedField(field: FormField): field is ComputedField {
+  return isComputedType(field)
+}
+
+export function collectComputedFields(steps: FormStep[]): ComputedField[] {
+  return steps.flatMap((step) => step.fields.filter(isComputedField))
+}
+
+// Value keys the computed expressions read
+export function collectComputedKeys(fields: ComputedField[]): string[] {
+  const keys = new Set<string>()
+  for (const field of fields) getExpressionVars(field.expression, keys)
+  return Array.from(keys)
+}
+
+/**
+ * Computed values that differ from `values`; empty when everything is up to date.
+ */
+export function getComputedUpdates(fields: ComputedField[], values: FormData): FormData {
+  const updates: FormData = {}
+  for (const [name, value] of Object.entries(computeValues(fields, values))) {
+    if (JSON.stringify(value) !== JSON.stringify(values[name] ?? null)) updates[name] = value
+  }
+  return updates
+}
+
+/**
+ * Display text for a computed value using the field's `format` and `precision`, in the form's numberFormat.
+ * Percent values are already in percent units (75 -> "75%").
+ */
+export function formatComputedValue(
+  field: ComputedField,
+  value: unknown,
+  numberFormat: NumberFormat = DEFAULT_NUMBER_FORMAT
+): string {
+  if (value === null || value === undefined || value === '') return ''
+  if (typeof value !== 'number') return String(value)
+
+  const digits = field.precision ?? DEFAULT_COMPUTED_PRECISION
+  switch (field.format) {
+    case 'currency':
+      return formatCurrency(value, numberFormat, digits)
+    case 'percent':
+      return `${new Intl.NumberFormat(numberFormat.locale, { maximumFractionDigits: digits }).format(value)}%`
+    case 'text':
+      return String(value)
+    default:
+      return new Intl.NumberFormat(numberFormat.locale, { maximumFractionDigits: digits }).format(value)
+  }
+}
+
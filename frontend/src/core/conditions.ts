@@ -0,0 +1,31 @@
+import jsonLogic from 'json-logic-js'
+import { getExpressionVars } from '../../../shared/computed/computedFields.mjs'
+import { createConditionEvaluator } from '../../../shared/conditions/conditionModel.mjs'
+import type { ConditionPolicy } from '../../../shared/conditions/conditionModel.mjs'
+import type { FormData } from './types'
+import type { ConditionEvaluator } from './globalRules'
+
+// The core's one json-logic entry point (conditions, computed fields)
+export const applyLogic: (rule: unknown, data: unknown) => unknown = jsonLogic.apply
+
+/**
+ * Frontend binding of the shared condition model (shared/conditions/conditionModel.mjs), which the
+ * backend uses too: a conditions array is an implicit AND of json-logic rules and all/any/not groups.
+ */
+export function createConditionsEvaluator(policy?: ConditionPolicy): ConditionEvaluator {
+  return createConditionEvaluator(applyLogic, policy).evaluateConditions
+}
+
+// Default on-error policy ("show"); forms with `conditionPolicy` go through createConditionsEvaluator
+export const evaluateConditions: ConditionEvaluator = createConditionsEvaluator()
+
+/**
+ * Collect every `var` a condition reads into `acc` (first path of `["name", default]` forms).
+ * Groups need no special casing: their members are walked like any nested rule. The per-item
+ * test of array operators (`some`, `none`, ...) reads the item, so only the array counts.
+ */
+export function extractVarsFromLogic(rule: unknown, acc: Set<string>): void {
+  getExpressionVars(rule, acc)
+}
+
+export type { ConditionEvaluator, FormData }
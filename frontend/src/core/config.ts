@@ -0,0 +1,107 @@
+import { expandRepeaterSteps, getRowCountKeys, type RepeaterStep } from '../../../shared/repeater/repeaterModel.mjs'
+import { DEFAULT_NUMBER_FORMAT, parseNumberInput, resolveNumberFormat, type NumberFormat } from '../../../shared/numbers/numberFormat.mjs'
+import { isMultiValueField, isNumberField } from './fieldTypes'
+import { isStaticField } from './staticFields'
+import type { ComputedField, FormConfig, FormData, FormField, FormStep, RepeaterField } from './types'
+import { createConditionsEvaluator, extractVarsFromLogic, type ConditionEvaluator } from './conditions'
+import { collectComputedFields, collectComputedKeys } from './computed'
+import { getConfigDefaults } from './defaults'
+import { getOptionDependencyKeys } from './options'
+import { collectPrefillKeys } from './prefillFrom'
+import { buildRepeaterRows, collectRepeaterFields, isRepeaterField } from './repeater'
+import { createReviewStep } from './review'
+
+export type DynamicArrayStep = RepeaterStep
+
+/**
+ * Config as both engines consume it: steps in order, with repeater templates resolved, a
+ * synthetic "<template>-details" step (one repeater field) after each arrayTemplates controller step,
+ * and the opt-in review step last.
+ */
+export interface NormalizedFormConfig {
+  config: FormConfig
+  steps: FormStep[]
+  dynamicArraySteps: Map<string, DynamicArrayStep>
+  // Value keys that drive step/field visibility, option lists or array expansion
+  conditionKeys: string[]
+  // Condition evaluator honouring the form's `conditionPolicy`
+  evaluateConditions: ConditionEvaluator
+  // `computed` fields across all steps and the value keys their expressions read
+  computedFields: ComputedField[]
+  computedKeys: string[]
+  // `repeater` fields across all steps, templates resolved
+  repeaterFields: RepeaterField[]
+  // Value keys `prefillFrom` sources read
+  prefillKeys: string[]
+  // The form's numberFormat with defaults filled in
+  numberFormat: NumberFormat
+}
+
+function collectConditionKeys(config: FormConfig, steps: FormStep[]): string[] {
+  const keys = new Set<string>()
+  for (const step of steps) {
+    step.conditions?.forEach((rule) => extractVarsFromLogic(rule, keys))
+    for (const field of step.fields) {
+      field.conditions?.forEach((rule) => extractVarsFromLogic(rule, keys))
+      getOptionDependencyKeys(field).forEach((key) => keys.add(key))
+    }
+  }
+  for (const tpl of Object.values(config.arrayTemplates || {})) {
+    getRowCountKeys(tpl, keys)
+    // Per-row conditions may also read form-level values
+    for (const field of tpl.fieldTemplate) field.conditions?.forEach((rule) => extractVarsFromLogic(rule, keys))
+  }
+  return Array.from(keys)
+}
+
+export function normalizeFormConfig(config: FormConfig): NormalizedFormConfig {
+  const { steps, repeaterSteps: dynamicArraySteps } = expandRepeaterSteps(config)
+  const reviewStep = createReviewStep(config)
+  if (reviewStep) steps.push(reviewStep)
+  const computedFields = collectComputedFields(steps)
+  return {
+    config,
+    steps,
+    dynamicArraySteps,
+    conditionKeys: collectConditionKeys(config, steps),
+    evaluateConditions: createConditionsEvaluator(config.conditionPolicy),
+    computedFields,
+    computedKeys: collectComputedKeys(computedFields),
+    repeaterFields: collectRepeaterFields(steps),
+    prefillKeys: collectPrefillKeys(steps.flatMap((step) => step.fields)),
+    numberFormat: resolveNumberFormat(config),
+  }
+}
+
+/**
+ * Value of an unanswered field: '' (false for checkboxes, null for numeric fields, [] for multi-value
+ * fields, initial rows for repeaters).
+ */
+export function getEmptyValue(field: FormField, values: FormData): unknown {
+  if (isRepeaterField(field)) return field.repeater ? buildRepeaterRows(field.repeater, values) : []
+  if (isMultiValueField(field)) return []
+  if (isNumberField(field)) return null
+  return field.type === 'checkbox' ? false : ''
+}
+
+/**
+ * Incoming values win, then config `defaultValue`s; every other value field gets its empty value.
+ * Incoming text for numeric fields (URL params, older drafts: "$350,000") is read as a number in `numberFormat`.
+ */
+export function buildDefaultValues(
+  steps: FormStep[],
+  incoming: Partial<FormData> = {},
+  numberFormat: NumberFormat = DEFAULT_NUMBER_FORMAT
+): FormData {
+  const values: FormData = { ...incoming, ...getConfigDefaults(steps, incoming) }
+  for (const step of steps) {
+    for (const field of step.fields) {
+      if (isStaticField(field)) continue
+      if (!(field.name in values)) values[field.name] = getEmptyValue(field, values)
+      else if (isNumberField(field) && typeof values[field.name] === 'string') {
+        values[field.name] = parseNumberInput(field, values[field.name], numberFormat)
+      }
+    }
+  }
+  return values
+}
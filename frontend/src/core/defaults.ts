@@ -0,0 +1,14 @@
+import { createDefaultResolver } from '../../../shared/defaults/defaultValues.mjs'
+import type { FormData, FormStep } from './types'
+import { applyLogic } from './conditions'
+
+/**
+ * Frontend binding of the shared default-value model (shared/defaults/defaultValues.mjs),
+ * which the backend uses to fill in optional fields a submission leaves out.
+ */
+export const { resolveDefaultValues } = createDefaultResolver(applyLogic)
+
+// Config `defaultValue`s of the step fields that `incoming` does not set
+export function getConfigDefaults(steps: FormStep[], incoming: Partial<FormData> = {}): FormData {
+  return resolveDefaultValues(steps.flatMap((step) => step.fields), incoming)
+}
@@ -0,0 +1,83 @@
+import { isMultiValueField as isSharedMultiValueField } from '../../../shared/defaults/defaultValues.mjs'
+import { isNumericField } from '../../../shared/numbers/numberFormat.mjs'
+import { isStaticField } from './staticFields'
+import type { ChoiceField, FieldType, FormField, InputField, NumberField, TagInputField } from './types'
+
+// Every config field type; the Record keeps the list complete at compile time
+const FIELD_TYPE_MAP: Record<FieldType, true> = {
+  text: true,
+  email: true,
+  phone: true,
+  date: true,
+  textarea: true,
+  password: true,
+  hidden: true,
+  number: true,
+  integer: true,
+  percentage: true,
+  currency: true,
+  radio: true,
+  dropdown: true,
+  options: true,
+  options_cards: true,
+  multi_select: true,
+  checkbox_group: true,
+  tag_input: true,
+  checkbox: true,
+  computed: true,
+  repeater: true,
+  label: true,
+  heading: true,
+  paragraph: true,
+  divider: true,
+  info: true,
+  markdown: true,
+}
+
+export const FIELD_TYPES = Object.keys(FIELD_TYPE_MAP) as FieldType[]
+
+// Fields offering `options` / `optionsSource`
+export function isChoiceField(field: FormField): field is ChoiceField {
+  switch (field.type) {
+    case 'radio':
+    case 'dropdown':
+    case 'options':
+    case 'options_cards':
+    case 'multi_select':
+    case 'checkbox_group':
+      return true
+    default:
+      return false
+  }
+}
+
+// Single choices answered with one click (radio, single `options` / `options_cards`); question wizards advance on them
+export function isOneClickChoice(field: FormField): boolean {
+  if (field.type === 'radio') return true
+  return (field.type === 'options' || field.type === 'options_cards') && !field.multiple
+}
+
+// Fields whose value is an array of strings (multi_select, checkbox_group, tag_input, `multiple` options)
+export function isMultiValueField(field: FormField): field is ChoiceField | TagInputField {
+  return isSharedMultiValueField(field)
+}
+
+// Fields holding a number: number, integer, percentage, currency, and `text` fields with
+// `formType: "amount"` (read as `number` fields)
+export function isNumberField(field: FormField): field is NumberField {
+  return isNumericField(field)
+}
+
+// `inputProps.startAdornment` / `endAdornment` text shown around a text input
+export function getInputAdornments(field: InputField): { start?: string; end?: string } {
+  const { startAdornment, endAdornment } = field.inputProps || {}
+  return {
+    start: typeof startAdornment === 'string' ? startAdornment : undefined,
+    end: typeof endAdornment === 'string' ? endAdornment : undefined,
+  }
+}
+
+// Fields the user fills in (not computed, repeater or static content)
+export function isInputField(field: FormField): field is InputField {
+  return field.type !== 'computed' && field.type !== 'repeater' && !isStaticField(field)
+}
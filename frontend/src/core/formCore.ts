@@ -0,0 +1,90 @@
+import type { FormConfig, FormData, FormField, FormStep } from './types'
+import { buildDefaultValues, normalizeFormConfig, type NormalizedFormConfig } from './config'
+import { getAdjacentStepIndex, getVisibleStepFields, getVisibleStepIndices, resolveVisibleStepIndex } from './stepGraph'
+import {
+  checkStepRules,
+  checkSubmitRules,
+  getReachableStepIndex,
+  getStepErrors,
+  planStepValidation,
+  type StepValidationPlan,
+} from './validationPlan'
+import { getComputedUpdates } from './computed'
+import { getHiddenValueUpdates, type HiddenValueUpdates } from './hiddenValues'
+import { getPrefillUpdates, type PrefillState, type PrefillUpdates } from './prefillFrom'
+import { expandRepeaterFields, getRequestedRowCount } from './repeater'
+import { buildReviewSummary, type ReviewSection } from './review'
+
+/**
+ * Headless form core: everything about a config that does not depend on the form library.
+ * The TanStack and RHF engines are adapters that own values/errors and delegate decisions here.
+ */
+export interface FormCore extends NormalizedFormConfig {
+  buildDefaultValues: (incoming?: Partial<FormData>) => FormData
+  isVisible: (conditions: unknown[] | undefined, values: FormData) => boolean
+  getVisibleStepIndices: (values: FormData) => number[]
+  resolveStepIndex: (current: number, visibleStepIndices: number[]) => number
+  getNextStepIndex: (current: number, visibleStepIndices: number[]) => number | undefined
+  getPreviousStepIndex: (current: number, visibleStepIndices: number[]) => number | undefined
+  getVisibleFields: (stepIndex: number, values: FormData) => FormField[]
+  // Index of the step with this id, or -1
+  getStepIndexById: (stepId: string) => number
+  // Where a deep link to `stepIndex` lands: the nearest visible step, unless an earlier visible step is still incomplete
+  getReachableStepIndex: (stepIndex: number, values: FormData) => number
+  // Repeaters are validated field by field, over the rows present in `values`
+  planStepValidation: (visibleFields: FormField[], values: FormData) => StepValidationPlan
+  checkStepRules: (values: FormData, stepIndex: number, plan: StepValidationPlan) => Map<string, string>
+  // Field and global rule errors that stop `next` on the step, keyed by field name (for renderers without a form library)
+  getStepErrors: (values: FormData, stepIndex: number) => Map<string, string>
+  checkSubmitRules: (values: FormData) => { errors: Map<string, string>; firstErrorStepIndex: number }
+  // Computed field values that are out of date in `values`
+  getComputedUpdates: (values: FormData) => FormData
+  // Hidden values to empty or restore under their onHide policy; `stash` carries restoreOnShow answers between calls
+  getHiddenValueUpdates: (values: FormData, stash: FormData) => HiddenValueUpdates
+  // Values `prefillFrom` copies into the fields shown now; `state` carries what was copied between calls
+  getPrefillUpdates: (shownFields: FormField[], values: FormData, state: PrefillState) => PrefillUpdates
+  // Row count each repeater's countExpression / countField asks for (null while unset), keyed by repeater name
+  getRequestedRowCounts: (values: FormData) => Record<string, number | null>
+  // Answers grouped by step for the review step
+  getReviewSummary: (values: FormData) => ReviewSection[]
+}
+
+export function createFormCore(config: FormConfig): FormCore {
+  const normalized = normalizeFormConfig(config)
+  const steps: FormStep[] = normalized.steps
+
+  return {
+    ...normalized,
+    buildDefaultValues: (incoming) => {
+      const values = buildDefaultValues(steps, incoming, normalized.numberFormat)
+      return { ...values, ...getComputedUpdates(normalized.computedFields, values) }
+    },
+    isVisible: normalized.evaluateConditions,
+    getVisibleStepIndices: (values) => getVisibleStepIndices(normalized, values),
+    resolveStepIndex: resolveVisibleStepIndex,
+    getNextStepIndex: (current, visible) => getAdjacentStepIndex(current, visible, 1),
+    getPreviousStepIndex: (current, visible) => getAdjacentStepIndex(current, visible, -1),
+    getVisibleFields: (stepIndex, values) => getVisibleStepFields(normalized, stepIndex, values),
+    getStepIndexById: (stepId) => steps.findIndex((step) => step.id === stepId),
+    getReachableStepIndex: (stepIndex, values) => {
+      const visible = getVisibleStepIndices(normalized, values)
+      return getReachableStepIndex(normalized, values, resolveVisibleStepIndex(stepIndex, visible), visible)
+    },
+    planStepValidation: (visibleFields, values) =>
+      planStepValidation(expandRepeaterFields(visibleFields, values, normalized.evaluateConditions)),
+    checkStepRules: (values, stepIndex, plan) => checkStepRules(normalized, values, stepIndex, plan),
+    getStepErrors: (values, stepIndex) => getStepErrors(normalized, values, stepIndex),
+    checkSubmitRules: (values) => checkSubmitRules(normalized, values),
+    getComputedUpdates: (values) => getComputedUpdates(normalized.computedFields, values),
+    getHiddenValueUpdates: (values, stash) => getHiddenValueUpdates(normalized, values, stash),
+    getPrefillUpdates,
+    getRequestedRowCounts: (values) =>
+      Object.fromEntries(
+        normalized.repeaterFields.map((field) => [
+          field.name,
+          field.repeater ? getRequestedRowCount(field.repeater, values) : null,
+        ])
+      ),
+    getReviewSummary: (values) => buildReviewSummary(normalized, values),
+  }
+}
@@ -0,0 +1,52 @@
+import { executeGlobalRules } from '../../../shared/validation/globalRules.mjs'
+import type { FormData, FormField, FormStep, GlobalRule } from './types'
+
+// Rule types and the executor live in the shared module, so the server runs the same rules
+export { globalRuleTypes, registerGlobalRuleType } from '../../../shared/validation/globalRules.mjs'
+export type { GlobalRuleError, GlobalRuleHandler } from '../../../shared/validation/globalRules.mjs'
+
+export type ConditionEvaluator = (conditions: unknown[] | undefined, values: FormData) => boolean
+
+export interface GlobalRuleOptions {
+  // Only rules whose fields are all active are executed
+  activeFields?: Iterable<string>
+  // Gate for rule-level `conditions`
+  evaluateConditions?: ConditionEvaluator
+  // Field definitions, used to validate single-field rules (e.g. minCreditScore)
+  fields?: FormField[]
+}
+
+/**
+ * Executes `validation.globalRules` and returns a map of field name → first error message.
+ */
+export function runGlobalRules(
+  rules: GlobalRule[] | undefined,
+  values: FormData,
+  { activeFields, evaluateConditions, fields = [] }: GlobalRuleOptions = {}
+): Map<string, string> {
+  const errors = executeGlobalRules(rules, values, {
+    activeFields,
+    evaluateConditions,
+    getFieldType: (name) => fields.find((field) => field.name === name)?.type,
+  })
+  return new Map(Object.entries(errors))
+}
+
+/**
+ * Names of fields that are visible in visible steps, optionally limited to the first `throughIndex + 1` steps.
+ */
+export function collectActiveFieldNames(
+  steps: FormStep[],
+  values: FormData,
+  evaluateConditions: ConditionEvaluator,
+  throughIndex: number = steps.length - 1
+): Set<string> {
+  const names = new Set<string>()
+  steps.slice(0, throughIndex + 1).forEach((step) => {
+    if (!evaluateConditions(step.conditions, values)) return
+    for (const field of step.fields) {
+      if (evaluateConditions(field.conditions, values)) names.add(field.name)
+    }
+  })
+  return names
+}
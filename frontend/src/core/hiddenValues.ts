@@ -0,0 +1,48 @@
+import { getHiddenFields } from '../../../shared/conditions/hiddenValues.mjs'
+import type { FormData } from './types'
+import { getEmptyValue, type NormalizedFormConfig } from './config'
+import { isComputedField } from './computed'
+
+/**
+ * Frontend side of the shared hidden-value policy (shared/conditions/hiddenValues.mjs).
+ * `stash` holds the answers of hidden "restoreOnShow" fields, keyed by field name.
+ */
+export interface HiddenValueUpdates {
+  // Values to set: hidden fields emptied, re-shown fields restored
+  updates: FormData
+  stash: FormData
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Value changes the current visibility asks for: hidden "clear" / "restoreOnShow" fields are
+ * emptied (the latter stashed), and stashed answers go back into fields that are shown again
+ * and still empty. Computed fields are left to their expression.
+ */
+export function getHiddenValueUpdates(normalized: NormalizedFormConfig, values: FormData, stash: FormData): HiddenValueUpdates {
+  const hidden = getHiddenFields(normalized.steps, values, normalized.evaluateConditions, normalized.config.conditionPolicy)
+  const hiddenNames = new Set(hidden.map(({ field }) => field.name))
+  const updates: FormData = {}
+  const nextStash: FormData = {}
+
+  // Shown again: restore unless something was entered meanwhile (draft, prefill)
+  const fields = new Map(normalized.steps.flatMap((step) => step.fields.map((field) => [field.name, field] as const)))
+  for (const [name, value] of Object.entries(stash)) {
+    const field = fields.get(name)
+    if (hiddenNames.has(name)) nextStash[name] = value
+    else if (field && isSameValue(values[name], getEmptyValue(field, values))) updates[name] = value
+  }
+
+  for (const { field, onHide } of hidden) {
+    if (onHide === 'keep' || isComputedField(field)) continue
+    const empty = getEmptyValue(field, values)
+    if (isSameValue(values[field.name], empty)) continue
+    if (onHide === 'restoreOnShow') nextStash[field.name] = values[field.name]
+    updates[field.name] = empty
+  }
+
+  return { updates, stash: nextStash }
+}
@@ -0,0 +1,64 @@
+// Config field model: types, field-type guards, validators and global rules
+export type * from './types'
+export { FIELD_TYPES, isChoiceField, isOneClickChoice, isMultiValueField, isNumberField, isInputField, getInputAdornments } from './fieldTypes'
+export { STATIC_FIELD_TYPES, isStaticField } from './staticFields'
+export { createZodFieldValidator, createConfigFieldValidator } from './zodValidation'
+export type { FieldValidator } from './zodValidation'
+export { runGlobalRules, collectActiveFieldNames, globalRuleTypes, registerGlobalRuleType } from './globalRules'
+export type { ConditionEvaluator, GlobalRuleOptions, GlobalRuleError, GlobalRuleHandler } from './globalRules'
+
+// Headless form core shared by the TanStack and RHF engines
+export { createFormCore } from './formCore'
+export type { FormCore } from './formCore'
+export { evaluateConditions, createConditionsEvaluator, extractVarsFromLogic } from './conditions'
+export { computeValue, computeValues, getComputedUpdates, isComputedField, formatComputedValue } from './computed'
+export { getOptionDependencyKeys, filterOptions, getOptionsRequest } from './options'
+export {
+  isRepeaterField,
+  createRepeaterRow,
+  formatRowLabel,
+  getRepeaterRows,
+  getRepeaterRowFields,
+  getRequestedRowCount,
+  expandRepeaterFields,
+  resizeRows,
+} from './repeater'
+export { isReviewStep, formatFieldValue, buildReviewSummary } from './review'
+export type { ReviewItem, ReviewSection } from './review'
+export { normalizeFormConfig, buildDefaultValues, getEmptyValue } from './config'
+export { resolveDefaultValues, getConfigDefaults } from './defaults'
+export { getHiddenValueUpdates } from './hiddenValues'
+export { priceQuote, createPricingAdapter, registerPricingAdapter } from './pricing'
+export type { PricingAdapter, PricingAdapterFactory } from './pricing'
+export { getPrefillUpdates, getPrefillConfig, isPrefilledValue, readPath, registerPrefillTransform } from './prefillFrom'
+export type { PrefillState, PrefillUpdates, PrefillTransform } from './prefillFrom'
+export type { HiddenValueUpdates } from './hiddenValues'
+export type { NormalizedFormConfig, DynamicArrayStep } from './config'
+export { getVisibleStepIndices, resolveVisibleStepIndex, getAdjacentStepIndex, getVisibleStepFields } from './stepGraph'
+export { planStepValidation, checkStepRules, checkSubmitRules, getStepErrors, isStepComplete, getReachableStepIndex } from './validationPlan'
+export type { StepValidationPlan } from './validationPlan'
+export { INITIAL_SAVE_STATE, isStepSaveEnabled, shouldSaveStep, saveStep } from './savePolicy'
+export type { StepSaveHandler } from './savePolicy'
+export { buildPhases } from './phases'
+export type { PhaseEntry } from './phases'
+
+// React glue that is independent of the form library
+export { useNavigationEngine } from './react/useNavigationEngine'
+export type { NavigationEngine } from './react/useNavigationEngine'
+export { usePhaseEngine } from './react/usePhaseEngine'
+export type { PhaseEngine, PhaseRenderer, PhaseRendererProps } from './react/usePhaseEngine'
+export { useStepSave } from './react/useStepSave'
+export { useDraftRestore } from './react/useDraftRestore'
+export { useComputedFields } from './react/useComputedFields'
+export { useFieldOptions } from './react/useFieldOptions'
+export { useRepeaterRowCounts } from './react/useRepeaterRowCounts'
+export { useHiddenValues } from './react/useHiddenValues'
+export { usePrefillFrom } from './react/usePrefillFrom'
+export { usePricing } from './react/usePricing'
+export { NumberFormatContext, useNumberFormat } from './react/useNumberFormat'
+export type { PricingState } from './react/usePricing'
+export { useReviewMode, getStepAnchorId } from './react/useReviewMode'
+export type { ReviewMode } from './react/useReviewMode'
+export { useStepHistory } from './react/useStepHistory'
+export type { StepHistoryOptions } from './react/useStepHistory'
+export type { FieldOptionsState } from './react/useFieldOptions'
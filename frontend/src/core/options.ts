@@ -0,0 +1,42 @@
+import { isChoiceField } from './fieldTypes'
+import type { FieldOption, FormData, FormField } from './types'
+import { evaluateConditions, extractVarsFromLogic, type ConditionEvaluator } from './conditions'
+
+/**
+ * Value keys a field's options depend on: per-option conditions and `optionsSource.params`.
+ */
+export function getOptionDependencyKeys(field: FormField): string[] {
+  if (!isChoiceField(field)) return []
+  const keys = new Set<string>()
+  for (const option of field.options || []) {
+    option.conditions?.forEach((rule) => extractVarsFromLogic(rule, keys))
+  }
+  for (const key of Object.values(field.optionsSource?.params || {})) keys.add(key)
+  return Array.from(keys)
+}
+
+/**
+ * Options whose `conditions` hold for the current values.
+ */
+export function filterOptions(
+  options: FieldOption[] | undefined,
+  values: FormData,
+  evaluate: ConditionEvaluator = evaluateConditions
+): FieldOption[] {
+  return (options || []).filter((option) => evaluate(option.conditions, values))
+}
+
+/**
+ * Request for a field's remote options, or null while a dependency is still empty.
+ */
+export function getOptionsRequest(field: FormField, values: FormData): { source: string; params: Record<string, string> } | null {
+  const source = isChoiceField(field) ? field.optionsSource : undefined
+  if (!source) return null
+  const params: Record<string, string> = {}
+  for (const [param, key] of Object.entries(source.params || {})) {
+    const value = values[key]
+    if (value === undefined || value === null || value === '') return null
+    params[param] = String(value)
+  }
+  return { source: source.source, params }
+}
@@ -0,0 +1,38 @@
+import type { FlowPhase, FormConfig, FormStep } from './types'
+
+export interface PhaseEntry {
+  phase: FlowPhase
+  steps: FormStep[]
+}
+
+// Forms without flowConfig.phases run as a single traditional phase
+const DEFAULT_PHASE: FlowPhase = {
+  id: 'default',
+  name: 'Application',
+  type: 'traditional',
+  description: '',
+}
+
+/**
+ * Groups steps into the ordered `flowConfig.phases` (by `step.phase`).
+ * Steps without a known phase are appended to the last phase; phases without steps are dropped.
+ */
+export function buildPhases(config: FormConfig): PhaseEntry[] {
+  const declared = (config.flowConfig?.phases || [])
+    .map((phase, i) => ({ phase, order: phase.order ?? i }))
+    .sort((a, b) => a.order - b.order)
+    .map(({ phase }) => phase)
+  const phases = declared.length > 0 ? declared : [DEFAULT_PHASE]
+
+  const byPhase = new Map<string, FormStep[]>(phases.map((p) => [p.id, []]))
+  const lastPhaseId = phases[phases.length - 1].id
+  const sortedSteps = [...config.steps].sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+  for (const step of sortedSteps) {
+    const bucket = (step.phase && byPhase.get(step.phase)) || byPhase.get(lastPhaseId)!
+    bucket.push(step)
+  }
+
+  return phases
+    .map((phase) => ({ phase, steps: byPhase.get(phase.id) || [] }))
+    .filter((entry) => entry.steps.length > 0)
+}
@@ -0,0 +1,135 @@
+import { toNumericInput } from '../../../shared/computed/computedFields.mjs'
+import { coerceDefaultValue } from '../../../shared/defaults/defaultValues.mjs'
+import type { FormData, FormField, PrefillFromConfig } from './types'
+import { applyLogic } from './conditions'
+
+/**
+ * `prefillFrom`: a field copies an earlier answer the first time it is shown ("once"), or keeps
+ * following it while shown ("mirror"). `state` carries what was copied between calls:
+ * `done` marks "once" fields already handled, `sources` the last mirrored source value and
+ * `prefilled` the value each field was given, for the "prefilled from your earlier answer" hint.
+ */
+export interface PrefillState {
+  done: Record<string, true>
+  sources: FormData
+  prefilled: FormData
+}
+
+export interface PrefillUpdates {
+  updates: FormData
+  state: PrefillState
+}
+
+export type PrefillTransform = (value: unknown, values: FormData) => unknown
+
+export const INITIAL_PREFILL_STATE: PrefillState = { done: {}, sources: {}, prefilled: {} }
+
+const transforms = new Map<string, PrefillTransform>([
+  ['trim', (value) => (typeof value === 'string' ? value.trim() : value)],
+  ['uppercase', (value) => (typeof value === 'string' ? value.toUpperCase() : value)],
+  ['lowercase', (value) => (typeof value === 'string' ? value.toLowerCase() : value)],
+])
+
+/**
+ * Make a named transform available to `prefillFrom.transform`
+ */
+export function registerPrefillTransform(name: string, transform: PrefillTransform): void {
+  transforms.set(name, transform)
+}
+
+export function getPrefillConfig(field: FormField): PrefillFromConfig | null {
+  if (!('prefillFrom' in field) || !field.prefillFrom) return null
+  return typeof field.prefillFrom === 'string' ? { path: field.prefillFrom } : field.prefillFrom
+}
+
+// "borrowers[0].email" / "borrowers.0.email" -> ['borrowers', '0', 'email']
+function splitPath(path: string): string[] {
+  return path.split(/[.[\]]/).filter(Boolean)
+}
+
+export function readPath(values: FormData, path: string): unknown {
+  return splitPath(path).reduce<unknown>(
+    (current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    values
+  )
+}
+
+// Value keys the prefill sources read
+export function collectPrefillKeys(fields: FormField[]): string[] {
+  const keys = new Set<string>()
+  for (const field of fields) {
+    const prefill = getPrefillConfig(field)
+    if (prefill) keys.add(splitPath(prefill.path)[0])
+  }
+  return Array.from(keys)
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * Whether a field still holds the value `prefillFrom` gave it
+ */
+export function isPrefilledValue(value: unknown, prefilledValue: unknown): boolean {
+  return prefilledValue !== undefined && isSameValue(value, prefilledValue)
+}
+
+function transformValue(field: FormField, prefill: PrefillFromConfig, value: unknown, values: FormData): unknown {
+  let result = value
+  if (typeof prefill.transform === 'string') {
+    const transform = transforms.get(prefill.transform)
+    if (!transform) console.warn(`Unknown prefill transform "${prefill.transform}" on ${field.name}`)
+    else result = transform(value, values)
+  } else if (prefill.transform) {
+    // Display-formatted numbers ("$350,000") are read as numbers, as in computed expressions
+    const data = Object.fromEntries(Object.entries({ ...values, value }).map(([name, v]) => [name, toNumericInput(v)]))
+    try {
+      result = applyLogic(prefill.transform, data)
+    } catch {
+      return undefined
+    }
+  }
+  return coerceDefaultValue(field, result)
+}
+
+/**
+ * Values `prefillFrom` asks for among the fields shown now. A "once" field is filled when it is
+ * first shown with a source value, and only if still empty (a draft or prefill wins); a "mirror"
+ * field takes the source value again whenever the source changes.
+ */
+export function getPrefillUpdates(shownFields: FormField[], values: FormData, state: PrefillState): PrefillUpdates {
+  const updates: FormData = {}
+  const next: PrefillState = {
+    done: { ...state.done },
+    sources: { ...state.sources },
+    prefilled: { ...state.prefilled },
+  }
+
+  for (const field of shownFields) {
+    const prefill = getPrefillConfig(field)
+    if (!prefill) continue
+    const source = readPath(values, prefill.path)
+    if (isEmptyValue(source)) continue
+
+    if (prefill.mode === 'mirror') {
+      if (field.name in next.sources && isSameValue(next.sources[field.name], source)) continue
+      next.sources[field.name] = source
+    } else {
+      if (next.done[field.name]) continue
+      next.done[field.name] = true
+      if (!isEmptyValue(values[field.name])) continue
+    }
+
+    const value = transformValue(field, prefill, source, values)
+    if (value === undefined) continue
+    next.prefilled[field.name] = value
+    if (!isSameValue(values[field.name], value)) updates[field.name] = value
+  }
+
+  return { updates, state: next }
+}
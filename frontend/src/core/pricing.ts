@@ -0,0 +1,41 @@
+import { createPricingEvaluator, type PriceQuote, type PricingConfig } from '../../../shared/pricing/pricingModel.mjs'
+import { fetchPriceQuote } from '../api/formConfig'
+import type { FormConfig, FormData } from './types'
+import { applyLogic } from './conditions'
+
+/**
+ * Frontend binding of the shared pricing model (shared/pricing/pricingModel.mjs), which the
+ * backend stub behind POST /api/forms/:formId/price also uses.
+ */
+export const { priceQuote } = createPricingEvaluator(applyLogic)
+
+// Prices the current answers; null while answers the pricing needs are missing
+export type PricingAdapter = (values: FormData) => Promise<PriceQuote | null>
+
+export type PricingAdapterFactory = (config: FormConfig, pricing: PricingConfig) => PricingAdapter
+
+const adapters = new Map<string, PricingAdapterFactory>([
+  ['rules', (_config, pricing) => async (values) => priceQuote(pricing, values)],
+  ['api', (config) => (values) => fetchPriceQuote(config.metadata.id, values)],
+])
+
+/**
+ * Make a pricing adapter available to `pricing.adapter`
+ */
+export function registerPricingAdapter(name: string, factory: PricingAdapterFactory): void {
+  adapters.set(name, factory)
+}
+
+/**
+ * Adapter for the form's `pricing` ("rules" when unset); null when the form has no pricing
+ */
+export function createPricingAdapter(config: FormConfig): PricingAdapter | null {
+  if (!config.pricing) return null
+  const name = config.pricing.adapter || 'rules'
+  const factory = adapters.get(name)
+  if (!factory) {
+    console.warn(`Unknown pricing adapter "${name}" for form ${config.metadata.id}`)
+    return null
+  }
+  return factory(config, config.pricing)
+}
@@ -0,0 +1,29 @@
+import * as React from 'react'
+import type { FormData } from '../types'
+import type { FormCore } from '../formCore'
+
+interface ComputedFieldsOptions {
+  core: FormCore
+  getValues: () => FormData
+  // Changes whenever a value read by a computed expression changes
+  depsSignature: string
+  setValue: (name: string, value: unknown) => void
+}
+
+/**
+ * Keep `computed` field values in sync with their inputs.
+ */
+export function useComputedFields({ core, getValues, depsSignature, setValue }: ComputedFieldsOptions): void {
+  // Latest setter without re-running the effect on every render
+  const setValueRef = React.useRef(setValue)
+  React.useEffect(() => {
+    setValueRef.current = setValue
+  })
+
+  React.useEffect(() => {
+    if (core.computedFields.length === 0) return
+    for (const [name, value] of Object.entries(core.getComputedUpdates(getValues()))) {
+      setValueRef.current(name, value)
+    }
+  }, [core, getValues, depsSignature])
+}
@@ -0,0 +1,36 @@
+import * as React from 'react'
+import { fetchDraft, type FormDraft } from '../../api/formConfig'
+
+interface DraftRestoreOptions {
+  formId: string
+  sessionId?: string
+  // Applies the draft to the form; only called when a draft exists
+  onRestore: (draft: FormDraft) => void
+}
+
+/**
+ * Restore values and step from the session draft, once per session.
+ */
+export function useDraftRestore({ formId, sessionId, onRestore }: DraftRestoreOptions): boolean {
+  const [isRestoringDraft, setIsRestoringDraft] = React.useState(Boolean(sessionId))
+  const restoredSessionRef = React.useRef<string | null>(null)
+  // Latest callback without re-running the effect on every render
+  const onRestoreRef = React.useRef(onRestore)
+  React.useEffect(() => {
+    onRestoreRef.current = onRestore
+  })
+
+  React.useEffect(() => {
+    if (!sessionId || restoredSessionRef.current === sessionId) return
+    restoredSessionRef.current = sessionId
+    setIsRestoringDraft(true)
+    fetchDraft(formId, sessionId)
+      .then((draft) => {
+        if (draft && restoredSessionRef.current === sessionId) onRestoreRef.current(draft)
+      })
+      .catch((error) => console.warn('Failed to restore draft:', error))
+      .finally(() => setIsRestoringDraft(false))
+  }, [formId, sessionId])
+
+  return isRestoringDraft
+}
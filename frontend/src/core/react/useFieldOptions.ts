@@ -0,0 +1,72 @@
+import * as React from 'react'
+import { fetchOptions } from '../../api/formConfig'
+import { isChoiceField } from '../fieldTypes'
+import type { FieldOption, FormData, FormField } from '../types'
+import { filterOptions, getOptionsRequest } from '../options'
+
+export interface FieldOptionsState {
+  options: FieldOption[]
+  isLoading: boolean
+  error: string | null
+  // Remote source with an empty dependency (e.g. no state picked yet)
+  isWaiting: boolean
+  retry: () => void
+}
+
+// Remote option lists are shared by every field and form on the page
+const optionsCache = new Map<string, Promise<FieldOption[]>>()
+
+function loadOptions(source: string, params: Record<string, string>): Promise<FieldOption[]> {
+  const key = `${source}?${new URLSearchParams(params).toString()}`
+  let pending = optionsCache.get(key)
+  if (!pending) {
+    pending = fetchOptions(source, params)
+    // Failed requests are retried on the next attempt
+    pending.catch(() => optionsCache.delete(key))
+    optionsCache.set(key, pending)
+  }
+  return pending
+}
+
+/**
+ * Options to offer for a dropdown/radio field: static or loaded from `optionsSource`,
+ * filtered by per-option conditions. `values` only needs the field's dependency keys.
+ */
+export function useFieldOptions(field: FormField, values: FormData): FieldOptionsState {
+  const request = getOptionsRequest(field, values)
+  const requestKey = request ? JSON.stringify(request) : null
+  const [remote, setRemote] = React.useState<{ key: string; options?: FieldOption[]; error?: string } | null>(null)
+  const [attempt, setAttempt] = React.useState(0)
+
+  React.useEffect(() => {
+    if (!requestKey) return
+    let mounted = true
+    const { source, params } = JSON.parse(requestKey) as { source: string; params: Record<string, string> }
+    loadOptions(source, params)
+      .then((options) => {
+        if (mounted) setRemote({ key: requestKey, options })
+      })
+      .catch((e) => {
+        if (mounted) setRemote({ key: requestKey, error: e instanceof Error ? e.message : 'Failed to load options' })
+      })
+    return () => {
+      mounted = false
+    }
+  }, [requestKey, attempt])
+
+  const current = remote && remote.key === requestKey ? remote : null
+  const choice = isChoiceField(field) ? field : null
+  const baseOptions = choice?.optionsSource ? current?.options : choice?.options
+  const retry = React.useCallback(() => {
+    setRemote(null)
+    setAttempt((n) => n + 1)
+  }, [])
+
+  return {
+    options: filterOptions(baseOptions, values),
+    isLoading: Boolean(requestKey) && !current,
+    error: current?.error ?? null,
+    isWaiting: Boolean(choice?.optionsSource) && !requestKey,
+    retry,
+  }
+}
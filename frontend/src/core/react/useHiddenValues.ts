@@ -0,0 +1,34 @@
+import * as React from 'react'
+import type { FormData } from '../types'
+import type { FormCore } from '../formCore'
+
+interface HiddenValuesOptions {
+  core: FormCore
+  getValues: () => FormData
+  // Subscribed values of core.conditionKeys; a new object only when one of them changes
+  conditionValues: FormData
+  setValue: (name: string, value: unknown) => void
+}
+
+/**
+ * Apply each hidden field's `onHide` policy as visibility changes: "clear" empties the value,
+ * "restoreOnShow" empties it and puts the answer back once the field is shown again.
+ */
+export function useHiddenValues({ core, getValues, conditionValues, setValue }: HiddenValuesOptions): void {
+  // Latest setter without re-running the effect on every render
+  const setValueRef = React.useRef(setValue)
+  React.useEffect(() => {
+    setValueRef.current = setValue
+  })
+
+  // Answers of hidden "restoreOnShow" fields
+  const stashRef = React.useRef<FormData>({})
+
+  React.useEffect(() => {
+    const { updates, stash } = core.getHiddenValueUpdates({ ...getValues(), ...conditionValues }, stashRef.current)
+    stashRef.current = stash
+    for (const [name, value] of Object.entries(updates)) {
+      setValueRef.current(name, value)
+    }
+  }, [core, getValues, conditionValues])
+}
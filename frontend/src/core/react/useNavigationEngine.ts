@@ -0,0 +1,93 @@
+import * as React from 'react'
+import type { FormData, FormStep } from '../types'
+import type { FormCore } from '../formCore'
+
+interface NavigationEngineOptions {
+  core: FormCore
+  // Returns the latest values snapshot
+  getValues: () => FormData
+  // Subscribed values of core.conditionKeys; a new object only when one of them changes
+  conditionValues: FormData
+  // Start on the last visible step instead of the first
+  startAtLastStep?: boolean
+  // Called by previous() on the first visible step
+  onBack?: () => void
+}
+
+export interface NavigationEngine {
+  // Index in the normalized steps array
+  currentStepIndex: number
+  setCurrentStepIndex: (i: number) => void
+  // Visible steps and mapping
+  visibleStepIndices: number[]
+  visibleSteps: FormStep[]
+  currentVisiblePos: number
+  totalSteps: number
+  // Next visible step after the current one, if any
+  nextStepIndex: number | undefined
+
+  // Navigation (no validation; adapters validate before calling next/goTo forward)
+  next: () => void
+  previous: () => void
+  goTo: (visibleIndex: number) => void
+  canGoPrevious: boolean
+}
+
+export function useNavigationEngine({
+  core,
+  getValues,
+  conditionValues,
+  startAtLastStep = false,
+  onBack,
+}: NavigationEngineOptions): NavigationEngine {
+  // Starting past the end lets the visibility effect settle on the last visible step
+  const [currentStepIndex, setCurrentStepIndex] = React.useState(() => (startAtLastStep ? core.steps.length - 1 : 0))
+
+  // Visible steps for the latest values; recomputed when a condition value changes
+  const visibleStepIndices = React.useMemo(
+    () => core.getVisibleStepIndices({ ...getValues(), ...conditionValues }),
+    [core, conditionValues, getValues]
+  )
+
+  const visibleSteps = React.useMemo(() => visibleStepIndices.map((i) => core.steps[i]), [visibleStepIndices, core])
+
+  // Keep current real index within visible set
+  React.useEffect(() => {
+    const target = core.resolveStepIndex(currentStepIndex, visibleStepIndices)
+    if (target !== currentStepIndex) setCurrentStepIndex(target)
+  }, [core, visibleStepIndices, currentStepIndex])
+
+  const currentVisiblePos = Math.max(0, visibleStepIndices.indexOf(currentStepIndex))
+  const nextStepIndex = core.getNextStepIndex(currentStepIndex, visibleStepIndices)
+  const previousStepIndex = core.getPreviousStepIndex(currentStepIndex, visibleStepIndices)
+
+  const next = React.useCallback(() => {
+    if (nextStepIndex !== undefined) setCurrentStepIndex(nextStepIndex)
+  }, [nextStepIndex])
+
+  const previous = React.useCallback(() => {
+    if (previousStepIndex !== undefined) setCurrentStepIndex(previousStepIndex)
+    else onBack?.()
+  }, [previousStepIndex, onBack])
+
+  const goTo = React.useCallback(
+    (visibleIndex: number) => {
+      if (visibleIndex <= currentVisiblePos) setCurrentStepIndex(visibleStepIndices[visibleIndex])
+    },
+    [currentVisiblePos, visibleStepIndices]
+  )
+
+  return {
+    currentStepIndex,
+    setCurrentStepIndex,
+    visibleStepIndices,
+    visibleSteps,
+    currentVisiblePos,
+    totalSteps: visibleSteps.length,
+    nextStepIndex,
+    next,
+    previous,
+    goTo,
+    canGoPrevious: previousStepIndex !== undefined || Boolean(onBack),
+  }
+}
@@ -0,0 +1,12 @@
+import * as React from 'react'
+import { DEFAULT_NUMBER_FORMAT, type NumberFormat } from '../../../../shared/numbers/numberFormat.mjs'
+
+/**
+ * The form's numberFormat (resolveNumberFormat(config)); renderers provide it around their fields
+ * so number inputs and formatted values use the form's locale and currency.
+ */
+export const NumberFormatContext = React.createContext<NumberFormat>(DEFAULT_NUMBER_FORMAT)
+
+export function useNumberFormat(): NumberFormat {
+  return React.useContext(NumberFormatContext)
+}
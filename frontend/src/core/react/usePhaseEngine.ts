@@ -0,0 +1,98 @@
+import * as React from 'react'
+import type { ComponentType } from 'react'
+import type { FlowPhase, FormConfig, FormData, FormStep } from '../types'
+import { getConfigDefaults } from '../defaults'
+import { buildPhases, type PhaseEntry } from '../phases'
+
+interface PhaseEngineOptions {
+  config: FormConfig
+  defaultValues?: Partial<FormData>
+}
+
+export interface PhaseEngine {
+  phases: PhaseEntry[]
+  currentPhaseIndex: number
+  currentPhase: PhaseEntry | undefined
+  // Whether the current phase was entered moving forward ('start') or backward ('end')
+  entry: 'start' | 'end'
+  isLastPhase: boolean
+  canGoPrevious: boolean
+
+  // Value store shared by every phase
+  values: FormData
+  setValue: (name: string, value: unknown) => void
+  mergeValues: (values: Partial<FormData>) => void
+
+  next: (values?: Partial<FormData>) => void
+  previous: () => void
+}
+
+export interface PhaseRendererProps {
+  config: FormConfig
+  phase: FlowPhase
+  steps: FormStep[]
+  values: FormData
+  setValue: (name: string, value: unknown) => void
+  mergeValues: (values: Partial<FormData>) => void
+  entry: 'start' | 'end'
+  isLastPhase: boolean
+  // Leave the phase forward, optionally merging values collected by the phase
+  onComplete: (values?: Partial<FormData>) => void
+  // Leave the phase backward; undefined on the first phase
+  onBack?: () => void
+  // Final submit (only meaningful when isLastPhase)
+  onSubmit: (data: FormData) => void | Promise<void>
+}
+
+export type PhaseRenderer = ComponentType<PhaseRendererProps>
+
+/**
+ * Walks the phases of `flowConfig.phases` over one value store shared by every phase,
+ * so either form library can render the phases and moving back and forth keeps answers.
+ */
+export function usePhaseEngine({ config, defaultValues = {} }: PhaseEngineOptions): PhaseEngine {
+  const phases = React.useMemo(() => buildPhases(config), [config])
+  const [currentPhaseIndex, setCurrentPhaseIndex] = React.useState(0)
+  const [entry, setEntry] = React.useState<'start' | 'end'>('start')
+  // Selection and question phases start from the config defaults too
+  const [values, setValues] = React.useState<FormData>(() => ({
+    ...defaultValues,
+    ...getConfigDefaults(config.steps, defaultValues),
+  }))
+
+  const setValue = React.useCallback((name: string, value: unknown) => {
+    setValues((prev) => ({ ...prev, [name]: value }))
+  }, [])
+
+  const mergeValues = React.useCallback((next: Partial<FormData>) => {
+    setValues((prev) => ({ ...prev, ...next }))
+  }, [])
+
+  const next = React.useCallback(
+    (phaseValues?: Partial<FormData>) => {
+      if (phaseValues) mergeValues(phaseValues)
+      setEntry('start')
+      setCurrentPhaseIndex((i) => Math.min(i + 1, phases.length - 1))
+    },
+    [mergeValues, phases.length]
+  )
+
+  const previous = React.useCallback(() => {
+    setEntry('end')
+    setCurrentPhaseIndex((i) => Math.max(i - 1, 0))
+  }, [])
+
+  return {
+    phases,
+    currentPhaseIndex,
+    currentPhase: phases[currentPhaseIndex],
+    entry,
+    isLastPhase: currentPhaseIndex >= phases.length - 1,
+    canGoPrevious: currentPhaseIndex > 0,
+    values,
+    setValue,
+    mergeValues,
+    next,
+    previous,
+  }
+}
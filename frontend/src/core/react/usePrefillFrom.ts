@@ -0,0 +1,41 @@
+import * as React from 'react'
+import type { FormData, FormField } from '../types'
+import type { FormCore } from '../formCore'
+import { INITIAL_PREFILL_STATE } from '../prefillFrom'
+
+interface PrefillFromOptions {
+  core: FormCore
+  getValues: () => FormData
+  // Fields on screen (current step, or every visible step of a single page)
+  shownFields: FormField[]
+  // Changes whenever a value a `prefillFrom` source reads changes
+  depsSignature: string
+  setValue: (name: string, value: unknown) => void
+}
+
+/**
+ * Copy earlier answers into `prefillFrom` fields as they are shown (and, for "mirror", as the
+ * source changes). Returns the value each field was prefilled with, for the hint under the field.
+ */
+export function usePrefillFrom({ core, getValues, shownFields, depsSignature, setValue }: PrefillFromOptions): FormData {
+  // Latest setter without re-running the effect on every render
+  const setValueRef = React.useRef(setValue)
+  React.useEffect(() => {
+    setValueRef.current = setValue
+  })
+
+  const stateRef = React.useRef(INITIAL_PREFILL_STATE)
+  const [prefilledValues, setPrefilledValues] = React.useState<FormData>({})
+
+  React.useEffect(() => {
+    const { updates, state } = core.getPrefillUpdates(shownFields, getValues(), stateRef.current)
+    const changed = JSON.stringify(state.prefilled) !== JSON.stringify(stateRef.current.prefilled)
+    stateRef.current = state
+    for (const [name, value] of Object.entries(updates)) {
+      setValueRef.current(name, value)
+    }
+    if (changed) setPrefilledValues(state.prefilled)
+  }, [core, getValues, shownFields, depsSignature])
+
+  return prefilledValues
+}
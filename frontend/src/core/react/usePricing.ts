@@ -0,0 +1,44 @@
+import * as React from 'react'
+import type { PriceQuote } from '../../../../shared/pricing/pricingModel.mjs'
+import type { FormConfig, FormData } from '../types'
+import { createPricingAdapter } from '../pricing'
+
+export interface PricingState {
+  quote: PriceQuote | null
+  isLoading: boolean
+  error: string | null
+}
+
+// Answers settle for this long before they are priced
+const PRICING_DEBOUNCE_MS = 300
+
+/**
+ * Indicative quote for the current answers, repriced as they change; idle while `enabled` is false
+ * (steps without `showPricer`). Only the latest request's result is kept.
+ */
+export function usePricing(config: FormConfig, values: FormData, enabled: boolean): PricingState {
+  const adapter = React.useMemo(() => createPricingAdapter(config), [config])
+  const valuesKey = JSON.stringify(values)
+  const [state, setState] = React.useState<PricingState>({ quote: null, isLoading: false, error: null })
+
+  React.useEffect(() => {
+    if (!enabled || !adapter) return
+    let current = true
+    setState((prev) => ({ ...prev, isLoading: true }))
+    const timer = setTimeout(() => {
+      adapter(JSON.parse(valuesKey) as FormData)
+        .then((quote) => {
+          if (current) setState({ quote, isLoading: false, error: null })
+        })
+        .catch((e) => {
+          if (current) setState({ quote: null, isLoading: false, error: e instanceof Error ? e.message : 'Pricing failed' })
+        })
+    }, PRICING_DEBOUNCE_MS)
+    return () => {
+      current = false
+      clearTimeout(timer)
+    }
+  }, [adapter, enabled, valuesKey])
+
+  return state
+}
@@ -0,0 +1,43 @@
+import * as React from 'react'
+import type { FormData } from '../types'
+import type { FormCore } from '../formCore'
+import { getRepeaterRows, resizeRows } from '../repeater'
+
+interface RepeaterRowCountsOptions {
+  core: FormCore
+  getValues: () => FormData
+  // Subscribed values of core.conditionKeys (row counts read a subset); a new object only when one changes
+  conditionValues: FormData
+  setValue: (name: string, value: unknown) => void
+}
+
+/**
+ * Resize repeaters when their requested row count (countExpression / countField) changes.
+ * Rows follow the count while it is set; they are only added or removed by hand while it is unset.
+ */
+export function useRepeaterRowCounts({ core, getValues, conditionValues, setValue }: RepeaterRowCountsOptions): void {
+  // Latest setter without re-running the effect on every render
+  const setValueRef = React.useRef(setValue)
+  React.useEffect(() => {
+    setValueRef.current = setValue
+  })
+
+  const lastCounts = React.useRef<Record<string, number | null> | null>(null)
+
+  React.useEffect(() => {
+    if (core.repeaterFields.length === 0) return
+    const values = { ...getValues(), ...conditionValues }
+    const counts = core.getRequestedRowCounts(values)
+    const previous = lastCounts.current
+    lastCounts.current = counts
+    // Initial rows already follow the count (buildDefaultValues)
+    if (!previous) return
+
+    for (const field of core.repeaterFields) {
+      const count = counts[field.name]
+      if (count === null || count === previous[field.name] || !field.repeater) continue
+      const rows = getRepeaterRows(field, values)
+      if (rows.length !== count) setValueRef.current(field.name, resizeRows(field.repeater, rows, count))
+    }
+  }, [core, getValues, conditionValues])
+}
@@ -0,0 +1,39 @@
+import * as React from 'react'
+import type { FormConfig } from '../types'
+import type { ReviewSection } from '../review'
+
+export interface ReviewMode {
+  // flowConfig.reviewStep is set
+  enabled: boolean
+  isReviewing: boolean
+  startReview: () => void
+  stopReview: () => void
+  // Leave the review and scroll to the section's step
+  editSection: (section: ReviewSection) => void
+}
+
+// Element id single-page renderers give each step section, so Edit links can scroll to it
+export function getStepAnchorId(stepId: string): string {
+  return `step-${stepId}`
+}
+
+/**
+ * Review before submit for renderers that show every step at once (the stepped renderers
+ * get a review step from the core instead).
+ */
+export function useReviewMode(config: Pick<FormConfig, 'flowConfig'>): ReviewMode {
+  const enabled = Boolean(config.flowConfig?.reviewStep)
+  const [isReviewing, setIsReviewing] = React.useState(false)
+
+  const startReview = React.useCallback(() => setIsReviewing(true), [])
+  const stopReview = React.useCallback(() => setIsReviewing(false), [])
+  const editSection = React.useCallback((section: ReviewSection) => {
+    setIsReviewing(false)
+    // Scroll once the form is shown again
+    requestAnimationFrame(() => {
+      document.getElementById(getStepAnchorId(section.stepId))?.scrollIntoView({ behavior: 'smooth', block: 'start' })
+    })
+  }, [])
+
+  return { enabled, isReviewing: enabled && isReviewing, startReview, stopReview, editSection }
+}
@@ -0,0 +1,93 @@
+import * as React from 'react'
+import type { FormData } from '../types'
+import type { FormCore } from '../formCore'
+import type { NavigationEngine } from './useNavigationEngine'
+
+export interface StepHistoryOptions {
+  // Step id currently in the URL; undefined when the URL names no step
+  stepId?: string
+  // Writes a step id to the URL; `replace` rewrites the current history entry instead of pushing one
+  onStepChange?: (stepId: string, options: { replace: boolean }) => void
+}
+
+interface StepHistoryEngineOptions extends StepHistoryOptions {
+  core: FormCore
+  nav: NavigationEngine
+  getValues: () => FormData
+  // The adapter's next(): validates (and saves) the current step before moving on
+  next: () => Promise<void>
+  // False while the draft is being restored; the URL is applied once values are in place
+  ready: boolean
+}
+
+/**
+ * Keeps the current step and the URL in step, for routes like /rhf/form/:formId/:stepId.
+ *
+ * - On load the linked step is used when it is reachable (every visible step before it complete),
+ *   otherwise the URL is replaced with the furthest reachable step.
+ * - Moving between steps in the form pushes a history entry.
+ * - Back/forward map to the form's own navigation: any earlier visible step, or one step forward
+ *   through next()'s validation. Anything else puts the current step back in the URL.
+ *
+ * Does nothing without `onStepChange`.
+ */
+export function useStepHistory({ core, nav, getValues, next, ready, stepId, onStepChange }: StepHistoryEngineOptions) {
+  const enabled = Boolean(onStepChange)
+  const currentStepId = core.steps[nav.currentStepIndex]?.id
+  const initializedRef = React.useRef(false)
+  // Step the URL and the form last agreed on
+  const syncedStepIdRef = React.useRef<string | undefined>(undefined)
+  // URL step already acted on, so re-renders don't replay it
+  const handledStepIdRef = React.useRef(stepId)
+  // A URL change is being applied (next() may be saving)
+  const pendingRef = React.useRef(false)
+  const [settled, setSettled] = React.useState(0)
+
+  // Hold URL corrections until the step change (and any next() call) has been applied
+  const settleAfter = React.useCallback((move?: Promise<void>) => {
+    pendingRef.current = true
+    Promise.resolve(move).finally(() => {
+      pendingRef.current = false
+      setSettled((n) => n + 1)
+    })
+  }, [])
+
+  // Deep link: land on the linked step if it is reachable
+  React.useEffect(() => {
+    if (!enabled || !ready || initializedRef.current) return
+    initializedRef.current = true
+    handledStepIdRef.current = stepId
+    // Unknown or missing step ids stay on the current step; the settle effect corrects the URL
+    const linkedIndex = stepId ? core.getStepIndexById(stepId) : -1
+    const target = linkedIndex < 0 ? nav.currentStepIndex : core.getReachableStepIndex(linkedIndex, getValues())
+    if (target !== nav.currentStepIndex) nav.setCurrentStepIndex(target)
+    syncedStepIdRef.current = core.steps[target]?.id
+    settleAfter()
+  }, [enabled, ready, stepId, core, nav, getValues, settleAfter])
+
+  // Back/forward: the URL now names another step
+  React.useEffect(() => {
+    if (!enabled || !initializedRef.current || stepId === handledStepIdRef.current) return
+    handledStepIdRef.current = stepId
+    if (!stepId || stepId === currentStepId) return
+
+    const targetPos = nav.visibleStepIndices.indexOf(core.getStepIndexById(stepId))
+    if (targetPos >= 0 && targetPos < nav.currentVisiblePos) {
+      nav.goTo(targetPos)
+      settleAfter()
+    } else {
+      settleAfter(targetPos === nav.currentVisiblePos + 1 ? next() : undefined)
+    }
+  }, [enabled, stepId, currentStepId, core, nav, next, settleAfter])
+
+  // The form moved, or a URL change settled: bring the URL in line with the current step
+  React.useEffect(() => {
+    if (!enabled || !initializedRef.current || pendingRef.current || !currentStepId) return
+    if (currentStepId !== stepId) {
+      // Push for moves made in the form; replace when the URL asked for a step the form did not go to
+      onStepChange?.(currentStepId, { replace: stepId !== syncedStepIdRef.current })
+      handledStepIdRef.current = currentStepId
+    }
+    syncedStepIdRef.current = currentStepId
+  }, [enabled, currentStepId, stepId, settled, onStepChange])
+}
@@ -0,0 +1,26 @@
+import * as React from 'react'
+import type { FormConfig, FormData, SaveState } from '../types'
+import { INITIAL_SAVE_STATE, isStepSaveEnabled, saveStep, type StepSaveHandler } from '../savePolicy'
+
+interface StepSaveOptions {
+  config: FormConfig
+  onSave?: StepSaveHandler
+  sessionId?: string
+}
+
+export function useStepSave({ config, onSave, sessionId }: StepSaveOptions) {
+  const [saveState, setSaveState] = React.useState<SaveState>(INITIAL_SAVE_STATE)
+  const stepSaveEnabled = isStepSaveEnabled(config, onSave)
+
+  const saveStepData = React.useCallback(
+    async (stepId: string, data: FormData, resumeStepIndex?: number): Promise<void> => {
+      if (!stepSaveEnabled) return
+      setSaveState((prev) => ({ ...prev, isSaving: true, saveError: null }))
+      const update = await saveStep({ config, stepId, data, sessionId, resumeStepIndex, onSave })
+      setSaveState((prev) => ({ ...prev, ...update }))
+    },
+    [stepSaveEnabled, config, sessionId, onSave]
+  )
+
+  return { saveState, stepSaveEnabled, saveStepData }
+}
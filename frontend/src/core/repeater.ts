@@ -0,0 +1,97 @@
+import {
+  clampRowCount,
+  createRow,
+  formatRowLabel,
+  getRequestedRowCount as getTemplateRowCount,
+  getRowFieldName,
+  getVisibleRowFields,
+  isRepeaterField as isRepeaterType,
+} from '../../../shared/repeater/repeaterModel.mjs'
+import type { ArrayTemplate, ArrayTemplateField, FormData, FormField, FormStep, RepeaterField } from './types'
+import { applyLogic, evaluateConditions, type ConditionEvaluator } from './conditions'
+
+/**
+ * Frontend side of the shared repeater model (shared/repeater/repeaterModel.mjs). A repeater's
+ * value is an array of row objects; row fields are addressed as `<repeater>.<index>.<id>`,
+ * a path both TanStack Form and React Hook Form resolve into that array.
+ */
+export { createRow as createRepeaterRow, formatRowLabel }
+
+export function isRepeaterField(field: FormField): field is RepeaterField {
+  return isRepeaterType(field)
+}
+
+export function collectRepeaterFields(steps: FormStep[]): RepeaterField[] {
+  return steps.flatMap((step) => step.fields.filter(isRepeaterField).filter((field) => field.repeater))
+}
+
+export function getRepeaterRows(field: FormField, values: FormData): FormData[] {
+  const rows = values[field.name]
+  return Array.isArray(rows) ? rows : []
+}
+
+/**
+ * Row count asked for by the template's `countExpression` or `countField`, or null while it is unset.
+ */
+export function getRequestedRowCount(tpl: ArrayTemplate, values: FormData): number | null {
+  return getTemplateRowCount(tpl, values, applyLogic)
+}
+
+/**
+ * Initial rows: as many as the requested row count, else `defaultCount`.
+ */
+export function buildRepeaterRows(tpl: ArrayTemplate, values: FormData): FormData[] {
+  const count = getRequestedRowCount(tpl, values) ?? clampRowCount(tpl, tpl.defaultCount || 1)
+  return Array.from({ length: count }, () => createRow(tpl))
+}
+
+/**
+ * Rows grown with empty rows or cut from the end to `count`.
+ */
+export function resizeRows(tpl: ArrayTemplate, rows: FormData[], count: number): FormData[] {
+  if (rows.length >= count) return rows.slice(0, count)
+  return [...rows, ...Array.from({ length: count - rows.length }, () => createRow(tpl))]
+}
+
+function toRowField(field: RepeaterField, base: ArrayTemplateField, index: number): FormField {
+  const name = getRowFieldName(field.name, index, base.id)
+  return {
+    ...base,
+    id: name,
+    name,
+    type: base.type || 'text',
+    label: base.label || base.id,
+    required: base.required ?? true,
+    validation: base.validation || [],
+    // Already evaluated against the row
+    conditions: undefined,
+    grid: base.grid || { xs: 12 },
+  } as FormField
+}
+
+/**
+ * Fields shown in row `index` of a repeater, after per-row conditions.
+ */
+export function getRepeaterRowFields(
+  field: RepeaterField,
+  index: number,
+  values: FormData,
+  evaluate: ConditionEvaluator = evaluateConditions
+): FormField[] {
+  const row = getRepeaterRows(field, values)[index]
+  return getVisibleRowFields(field.repeater, values, row, index, evaluate).map((base) => toRowField(field, base, index))
+}
+
+/**
+ * `fields` with each repeater replaced by the fields of all its rows.
+ */
+export function expandRepeaterFields(
+  fields: FormField[],
+  values: FormData,
+  evaluate: ConditionEvaluator = evaluateConditions
+): FormField[] {
+  return fields.flatMap((field) => {
+    if (!isRepeaterField(field)) return [field]
+    return getRepeaterRows(field, values).flatMap((_, index) => getRepeaterRowFields(field, index, values, evaluate))
+  })
+}
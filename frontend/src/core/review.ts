@@ -0,0 +1,155 @@
+import {
+  DEFAULT_NUMBER_FORMAT,
+  formatNumberValue,
+  isNumericField,
+  type NumberFormat,
+} from '../../../shared/numbers/numberFormat.mjs'
+import { isStaticField } from './staticFields'
+import type { FlowConfig, FormConfig, FormData, FormField, FormStep, RepeaterField } from './types'
+import { createConfigFieldValidator } from './zodValidation'
+import type { NormalizedFormConfig } from './config'
+import { formatComputedValue, isComputedField } from './computed'
+import { formatRowLabel, getRepeaterRowFields, getRepeaterRows, isRepeaterField } from './repeater'
+import { checkSubmitRules } from './validationPlan'
+
+export const REVIEW_STEP_TYPE = 'review'
+
+export interface ReviewItem {
+  name: string
+  label: string
+  // Display text; '' when unanswered
+  value: string
+  // Answered but currently hidden by its conditions (still part of the submitted values)
+  hidden: boolean
+  error?: string
+}
+
+export interface ReviewSection {
+  stepId: string
+  stepIndex: number
+  // Position among the visible steps, for goTo(); -1 for a hidden step
+  visibleIndex: number
+  name: string
+  hidden: boolean
+  items: ReviewItem[]
+}
+
+/**
+ * Review step settings from `flowConfig.reviewStep`, or null when the form has no review step.
+ */
+export function getReviewStepConfig(flowConfig: FlowConfig | undefined): Exclude<FlowConfig['reviewStep'], boolean | undefined> | null {
+  const reviewStep = flowConfig?.reviewStep
+  if (!reviewStep) return null
+  return reviewStep === true ? {} : reviewStep
+}
+
+/**
+ * Synthetic last step holding no fields; renderers show the review summary on it.
+ */
+export function createReviewStep(config: FormConfig): FormStep | null {
+  const settings = getReviewStepConfig(config.flowConfig)
+  if (!settings) return null
+  const last = config.steps[config.steps.length - 1]
+  return {
+    id: REVIEW_STEP_TYPE,
+    name: settings.name || 'Review & Confirm',
+    description: settings.description || 'Check your answers before submitting',
+    order: (last?.order || 0) + 1,
+    fields: [],
+    stepType: REVIEW_STEP_TYPE,
+    saveRequired: false,
+  }
+}
+
+export function isReviewStep(step: FormStep | undefined): boolean {
+  return step?.stepType === REVIEW_STEP_TYPE
+}
+
+function isAnswered(value: unknown): boolean {
+  if (value === undefined || value === null || value === '' || value === false) return false
+  if (Array.isArray(value)) return value.length > 0
+  return true
+}
+
+/**
+ * Answer as the user would read it: option labels, Yes/No, numbers in the form's numberFormat, phone numbers.
+ */
+export function formatFieldValue(field: FormField, value: unknown, numberFormat: NumberFormat = DEFAULT_NUMBER_FORMAT): string {
+  if (!isAnswered(value)) return field.type === 'checkbox' && value === false ? 'No' : ''
+  if (isComputedField(field)) return formatComputedValue(field, value, numberFormat)
+  if (isNumericField(field)) return formatNumberValue(field, value, numberFormat) || String(value)
+
+  switch (field.type) {
+    case 'checkbox':
+      return value ? 'Yes' : 'No'
+    case 'dropdown':
+    case 'radio':
+    case 'options':
+    case 'options_cards':
+    case 'multi_select':
+    case 'checkbox_group':
+      return (Array.isArray(value) ? value : [value])
+        .map((item) => field.options?.find((o) => String(o.value) === String(item))?.label ?? String(item))
+        .join(', ')
+    case 'phone': {
+      const digits = String(value).replace(/\D/g, '')
+      return digits.length === 10 ? `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6)}` : String(value)
+    }
+    case 'tag_input':
+      return Array.isArray(value) ? value.join(', ') : String(value)
+    case 'password':
+      return '••••••••'
+    default:
+      return String(value)
+  }
+}
+
+function reviewField(field: FormField, value: unknown, hidden: boolean, globalErrors: Map<string, string>, numberFormat: NumberFormat, label = field.label || field.name): ReviewItem {
+  const error = hidden
+    ? undefined
+    : createConfigFieldValidator(field)({ value }) || globalErrors.get(field.name)
+  return { name: field.name, label, value: formatFieldValue(field, value, numberFormat), hidden, error }
+}
+
+function reviewRepeater(field: RepeaterField, values: FormData, hidden: boolean, globalErrors: Map<string, string>, evaluate: NormalizedFormConfig['evaluateConditions'], numberFormat: NumberFormat): ReviewItem[] {
+  const rows = getRepeaterRows(field, values)
+  return rows.flatMap((row, index) =>
+    getRepeaterRowFields(field, index, values, evaluate).map((rowField) => {
+      const id = rowField.name.slice(`${field.name}.${index}.`.length)
+      return reviewField(rowField, row?.[id], hidden, globalErrors, numberFormat, `${formatRowLabel(field.repeater, index)} · ${rowField.label || id}`)
+    })
+  )
+}
+
+/**
+ * Every answer grouped by step: visible fields with their unresolved errors, plus answered fields
+ * (and steps) that are currently hidden. The review step itself is left out.
+ */
+export function buildReviewSummary(normalized: NormalizedFormConfig, values: FormData): ReviewSection[] {
+  const evaluate = normalized.evaluateConditions
+  const { errors: globalErrors } = checkSubmitRules(normalized, values)
+  const numberFormat = normalized.numberFormat
+  const sections: ReviewSection[] = []
+  let visibleIndex = 0
+
+  normalized.steps.forEach((step, stepIndex) => {
+    const stepVisible = evaluate(step.conditions, values)
+    const position = stepVisible ? visibleIndex++ : -1
+    if (isReviewStep(step)) return
+
+    const items: ReviewItem[] = []
+    for (const field of step.fields) {
+      if (isStaticField(field)) continue
+      const hidden = !stepVisible || !evaluate(field.conditions, values)
+      const value = values[field.name]
+      if (hidden && !isAnswered(value)) continue
+      if (isRepeaterField(field)) items.push(...reviewRepeater(field, values, hidden, globalErrors, evaluate, numberFormat))
+      else items.push(reviewField(field, value, hidden, globalErrors, numberFormat))
+    }
+
+    if (items.length === 0) return
+    sections.push({ stepId: step.id, stepIndex, visibleIndex: position, name: step.name, hidden: !stepVisible, items })
+  })
+
+  return sections
+}
@@ -0,0 +1,58 @@
+import { saveProgress } from '../api/formConfig'
+import type { FormConfig, FormData, FormStep, SaveState } from './types'
+
+export type StepSaveHandler = (stepId: string, data: FormData) => Promise<void>
+
+export const INITIAL_SAVE_STATE: SaveState = {
+  isSaving: false,
+  lastSaveTime: null,
+  saveError: null,
+}
+
+/**
+ * Steps are saved when the caller supplies onSave or the config enables saveConfig;
+ * without onSave they go to the session draft on the backend.
+ */
+export function isStepSaveEnabled(config: FormConfig, onSave?: StepSaveHandler): boolean {
+  return Boolean(onSave || config.saveConfig?.enabled)
+}
+
+// Per-step opt-out via `saveRequired: false`
+export function shouldSaveStep(enabled: boolean, step: FormStep): boolean {
+  return enabled && step.saveRequired !== false
+}
+
+interface SaveStepInput {
+  config: FormConfig
+  stepId: string
+  data: FormData
+  sessionId?: string
+  resumeStepIndex?: number
+  onSave?: StepSaveHandler
+}
+
+/**
+ * Persist one step and return the save state update. Never throws: navigation
+ * continues even when a save fails, so failures are reported through `saveError`.
+ */
+export async function saveStep({ config, stepId, data, sessionId, resumeStepIndex, onSave }: SaveStepInput): Promise<Partial<SaveState>> {
+  try {
+    if (onSave) {
+      await onSave(stepId, data)
+    } else {
+      await saveProgress(config.metadata.id, { stepId, sessionId, currentStepIndex: resumeStepIndex, data })
+    }
+    return { isSaving: false, lastSaveTime: new Date(), saveError: null }
+  } catch (error) {
+    const validationFailed = Boolean((error as { validationErrors?: unknown })?.validationErrors)
+    if (validationFailed) console.warn('Save validation failed:', (error as { validationErrors?: unknown }).validationErrors)
+    return {
+      isSaving: false,
+      saveError: validationFailed
+        ? 'Some fields need attention, but you can continue.'
+        : error instanceof Error
+          ? error.message
+          : 'Failed to save progress',
+    }
+  }
+}
@@ -0,0 +1,8 @@
+import type { FormField, StaticField, StaticFieldType } from './types'
+
+export const STATIC_FIELD_TYPES: readonly StaticFieldType[] = ['label', 'heading', 'paragraph', 'divider', 'info', 'markdown']
+
+// Static fields are rendered but never registered, defaulted, validated or submitted
+export function isStaticField(field: FormField): field is StaticField {
+  return STATIC_FIELD_TYPES.includes(field.type as StaticFieldType)
+}
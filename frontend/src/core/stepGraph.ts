@@ -0,0 +1,40 @@
+import type { FormData, FormField } from './types'
+import type { NormalizedFormConfig } from './config'
+
+/**
+ * Indices (into the normalized steps) of steps whose conditions pass.
+ */
+export function getVisibleStepIndices(normalized: NormalizedFormConfig, values: FormData): number[] {
+  const indices: number[] = []
+  normalized.steps.forEach((step, i) => {
+    if (normalized.evaluateConditions(step.conditions, values)) indices.push(i)
+  })
+  return indices
+}
+
+/**
+ * Step to show when `current` is hidden: the next visible step, else the last visible one.
+ * Returns `current` when it is visible (or nothing is).
+ */
+export function resolveVisibleStepIndex(current: number, visibleStepIndices: number[]): number {
+  if (visibleStepIndices.length === 0 || visibleStepIndices.includes(current)) return current
+  return visibleStepIndices.find((i) => i >= current) ?? visibleStepIndices[visibleStepIndices.length - 1]
+}
+
+/**
+ * Neighbouring visible step in `direction`, or undefined at either end.
+ */
+export function getAdjacentStepIndex(current: number, visibleStepIndices: number[], direction: 1 | -1): number | undefined {
+  const pos = visibleStepIndices.indexOf(current)
+  if (pos < 0) return undefined
+  return visibleStepIndices[pos + direction]
+}
+
+/**
+ * Visible fields of a step; a repeater stays one field (its rows are rendered by the repeater).
+ */
+export function getVisibleStepFields(normalized: NormalizedFormConfig, stepIndex: number, values: FormData): FormField[] {
+  const step = normalized.steps[stepIndex]
+  if (!step) return []
+  return step.fields.filter((field) => normalized.evaluateConditions(field.conditions, values))
+}
@@ -0,0 +1,330 @@
+import type { ConditionPolicy } from '../../../shared/conditions/conditionModel.mjs'
+import type { ComputedFormat } from '../../../shared/computed/computedFields.mjs'
+import type { OnHidePolicy } from '../../../shared/conditions/hiddenValues.mjs'
+import type { PricingConfig } from '../../../shared/pricing/pricingModel.mjs'
+import type { NumberFormat, NumericFieldType } from '../../../shared/numbers/numberFormat.mjs'
+
+// Display-only field types: rendered from `text`, never part of form values
+export type StaticFieldType = 'label' | 'heading' | 'paragraph' | 'divider' | 'info' | 'markdown'
+// Free-form inputs holding a string
+export type TextFieldType = 'text' | 'email' | 'phone' | 'date' | 'textarea' | 'password' | 'hidden'
+// Inputs holding a number (null while empty), shown in the form's numberFormat locale
+export type NumberFieldType = NumericFieldType
+// Choice among `options` / `optionsSource`: radio buttons, a select, a button list or cards;
+// multi_select and checkbox_group always hold an array of picked values
+export type ChoiceFieldType = 'radio' | 'dropdown' | 'options' | 'options_cards' | 'multi_select' | 'checkbox_group'
+
+// Every field type the engines render; kept in line with the config JSON Schema
+// (backend/configs/schemas/form-config.schema.json, checked by the backend parity tests, `npm test`)
+export type FieldType =
+  | TextFieldType
+  | NumberFieldType
+  | ChoiceFieldType
+  | 'checkbox'
+  | 'tag_input'
+  | 'computed'
+  | 'repeater'
+  | StaticFieldType
+
+export interface FieldOption {
+  value: string
+  label: string
+  // Heading under the label on option cards
+  title?: string
+  description?: string
+  // Icon name (registerOptionIcon) shown on option buttons and cards
+  icon?: string
+  // json-logic conditions; the option is offered only while they hold
+  conditions?: unknown[]
+}
+
+export interface OptionsSource {
+  source: string
+  params?: Record<string, string>
+}
+
+export interface FieldGrid {
+  xs: number
+  sm?: number
+  md?: number
+  lg?: number
+}
+
+export type ValidationRuleConfig = string | { [key: string]: any }
+
+// Props shared by every field type
+interface FieldBase {
+  id: string
+  name: string
+  label?: string
+  required?: boolean
+  helpText?: string
+  validation?: ValidationRuleConfig[]
+  conditions?: any[]
+  // What happens to the value while `conditions` hide the field (overrides the step's and the form's)
+  onHide?: OnHidePolicy
+  dependencies?: string[]
+  // Optional UI style metadata
+  style?: Record<string, any>
+  grid?: FieldGrid
+}
+
+// json-logic over the incoming values and the other defaults
+export interface DefaultValueExpression {
+  expression: unknown
+}
+
+export type PrefillMode = 'once' | 'mirror'
+
+export interface PrefillFromConfig {
+  // Value to copy: a field name, or a path into repeater rows ("borrowers[0].email")
+  path: string
+  // Named transform (registerPrefillTransform) or json-logic over the form values plus `value`
+  transform?: string | Record<string, unknown>
+  // 'once' (default): copy when the field is first shown; 'mirror': follow the source while shown
+  mode?: PrefillMode
+}
+
+// Props of fields the user fills in
+interface InputFieldBase<V> extends FieldBase {
+  placeholder?: string
+  // Value the field starts with when no draft or prefill supplies one (coerced to the field's type)
+  defaultValue?: V | DefaultValueExpression
+  // Earlier answer this field is prefilled from (a path, or the full config)
+  prefillFrom?: string | PrefillFromConfig
+  // Extra props for the input element, e.g. `{ "startAdornment": "$" }`
+  inputProps?: Record<string, unknown>
+  // Setting this field to a value (key) sets another field
+  autoTriggers?: Record<string, { field: string; value: string }>
+  // Controller field whose value sets the row count of this arrayTemplates entry
+  arrayController?: string
+}
+
+export interface TextField extends InputFieldBase<string | number> {
+  type: TextFieldType
+  // "amount" on a `text` field (older configs): stored and shown like a `number` field with the currency symbol
+  formType?: string
+}
+
+// number / integer / percentage (percent units: 7.5 means 7.5%) / currency (an amount in the form's currency)
+export interface NumberField extends InputFieldBase<number | string> {
+  type: NumberFieldType
+  // Decimals kept (integer: 0; percentage defaults to 2, currency to 0)
+  precision?: number
+  // Bounds, checked like `min` / `max` rules and applied by the arrow keys
+  min?: number
+  max?: number
+  // Arrow-key increment (defaults to 1)
+  step?: number
+}
+
+export interface ChoiceField extends InputFieldBase<string | number | string[]> {
+  type: ChoiceFieldType
+  options?: FieldOption[]
+  // Options loaded from GET /api/options/:source; `params` maps query params to form fields
+  optionsSource?: OptionsSource
+  // `options` / `options_cards` only: pick any number of options (the value is an array)
+  multiple?: boolean
+}
+
+export interface CheckboxField extends InputFieldBase<boolean> {
+  type: 'checkbox'
+}
+
+// Free-form list of short strings (Enter or comma adds one)
+export interface TagInputField extends InputFieldBase<string[]> {
+  type: 'tag_input'
+}
+
+// json-logic expression over other values, display format and rounding
+export interface ComputedField extends FieldBase {
+  type: 'computed'
+  placeholder?: string
+  expression: unknown
+  format?: ComputedFormat
+  precision?: number
+}
+
+// Repeats an arrayTemplates entry (by name; defaults to the field name), resolved on load
+export interface RepeaterField extends FieldBase {
+  type: 'repeater'
+  template?: string
+  repeater?: ArrayTemplate
+  arrayController?: string
+}
+
+export interface StaticField extends FieldBase {
+  type: StaticFieldType
+  // Content (label, heading, paragraph, info, markdown); falls back to `label`
+  text?: string
+  // Heading level for `heading` fields (defaults to 3)
+  level?: 2 | 3 | 4
+}
+
+export type FormField =
+  | TextField
+  | NumberField
+  | ChoiceField
+  | CheckboxField
+  | TagInputField
+  | ComputedField
+  | RepeaterField
+  | StaticField
+export type InputField = TextField | NumberField | ChoiceField | CheckboxField | TagInputField
+
+// One field of a repeater row; rows are stored as objects keyed by `id`
+export interface ArrayTemplateField {
+  id: string
+  type: FieldType
+  label?: string
+  required?: boolean
+  placeholder?: string
+  helpText?: string
+  validation?: ValidationRuleConfig[]
+  // Evaluated per row against the form values plus the row's values and `index` (0-based)
+  conditions?: unknown[]
+  options?: FieldOption[]
+  grid?: FieldGrid
+  arrayIndex?: boolean
+  // Static value new rows start with
+  defaultValue?: string | number | boolean
+}
+
+export interface ArrayTemplate {
+  minCount: number
+  maxCount: number
+  defaultCount: number
+  // Field whose value sets the number of rows
+  countField?: string
+  // json-logic over the form values giving the number of rows; takes precedence over countField
+  countExpression?: unknown
+  // Repeater label and per-row heading ("Borrower {index}", 1-based)
+  label?: string
+  itemLabel?: string
+  fieldTemplate: ArrayTemplateField[]
+}
+
+export interface FormStep {
+  id: string
+  name: string
+  description?: string
+  order?: number
+  required?: boolean
+  conditions?: any[]
+  // What happens to the step's values while it or its fields are hidden (overrides `conditionPolicy.onHide`)
+  onHide?: OnHidePolicy
+  fields: FormField[]
+  // Optional metadata used by wizard flows
+  stepType?: string
+  phase?: string
+  // Group label shown above the step name
+  category?: string
+  // Show the pricing panel (top-level `pricing`) next to this step
+  showPricer?: boolean
+  // Step-based save configuration
+  saveRequired?: boolean // defaults to true
+}
+
+export interface FlowPhase {
+  id: string
+  name: string
+  // Built-in phase types; custom types resolve through the phase renderer registry
+  type: 'selection' | 'wizard' | 'traditional' | (string & {})
+  description: string
+  order?: number
+}
+
+export interface FlowConfig {
+  type: 'linear' | 'selection' | 'wizard' | 'hybrid' | 'single'
+  navigation?: 'stepped' | 'wizard' | 'free-form' | 'sections' | string
+  selectionStep?: {
+    stepId: string
+    fieldName: string
+  }
+  phases?: FlowPhase[]
+  // Opt-in "Review & Confirm" step appended after the last step
+  reviewStep?: boolean | { name?: string; description?: string }
+}
+
+export interface SaveConfig {
+  enabled: boolean
+  saveOnStepComplete: boolean
+  showSaveStatus?: boolean
+  allowManualSave?: boolean
+}
+
+export interface SaveState {
+  isSaving: boolean
+  lastSaveTime: Date | null
+  saveError: string | null
+}
+
+export interface GlobalRule {
+  type?: string
+  rule: string
+  fields?: string[]
+  field?: string
+  target?: string
+  errorField?: string
+  operator?: '===' | '==' | '!==' | '<' | '<=' | '>' | '>='
+  value?: any
+  allowEqual?: boolean
+  conditions?: any[]
+  message?: string
+}
+
+export interface FormConfig {
+  metadata: {
+    id: string
+    name: string
+    version?: string
+    description?: string
+    formType?: string
+  }
+  // How conditions that fail to evaluate resolve (default "show") and what hidden values do
+  // (default "restoreOnShow"); shared with the backend
+  conditionPolicy?: ConditionPolicy
+  // New unified flow configuration (preferred)
+  flowConfig?: FlowConfig
+  saveConfig?: SaveConfig
+  steps: FormStep[]
+  flowSelection?: { step: string; field: string }
+  arrayTemplates?: Record<string, ArrayTemplate>
+  validation?: {
+    globalRules?: GlobalRule[]
+  }
+  // Indicative pricing for steps with `showPricer`
+  pricing?: PricingConfig
+  // Locale and currency numeric fields are parsed and shown in (default en-US / USD)
+  numberFormat?: Partial<NumberFormat>
+}
+
+export interface StepNavigationProps {
+  currentStep: number
+  totalSteps: number
+  canGoNext: boolean
+  canGoPrevious: boolean
+  onNext: () => void
+  onPrevious: () => void
+  onStepClick: (stepIndex: number) => void
+  steps: FormStep[]
+  isSubmitting?: boolean
+  isSaving?: boolean
+  onSubmit?: () => void
+}
+
+export interface FormFieldProps {
+  field: FormField
+  value: any
+  // Current form values; needed for option conditions and option sources with params
+  values?: FormData
+  onChange: (value: any) => void
+  onBlur: () => void
+  error?: string
+  isValidating?: boolean
+  onAutoTrigger?: (sourceField: string, sourceValue: any, targetField: string, targetValue: any) => void
+  // Value prefillFrom gave the field; a hint shows while the field still holds it
+  prefilledValue?: unknown
+}
+
+export type FormData = Record<string, any>
@@ -0,0 +1,99 @@
+import { collectActiveFieldNames, runGlobalRules } from './globalRules'
+import { isStaticField } from './staticFields'
+import type { FormData, FormField } from './types'
+import { createConfigFieldValidator } from './zodValidation'
+import type { NormalizedFormConfig } from './config'
+import { expandRepeaterFields } from './repeater'
+import { getVisibleStepFields } from './stepGraph'
+
+/**
+ * What `next` validates on a step: every visible value field (required or not), then the
+ * cross-field rules whose errors land on this step.
+ */
+export interface StepValidationPlan {
+  fields: FormField[]
+  fieldNames: string[]
+}
+
+export function planStepValidation(visibleFields: FormField[]): StepValidationPlan {
+  const fields = visibleFields.filter((field) => !isStaticField(field))
+  return { fields, fieldNames: fields.map((field) => field.name) }
+}
+
+/**
+ * Global rules over everything answered up to `stepIndex`; only errors on the step's fields are returned.
+ */
+export function checkStepRules(
+  normalized: NormalizedFormConfig,
+  values: FormData,
+  stepIndex: number,
+  plan: StepValidationPlan
+): Map<string, string> {
+  const errors = runGlobalRules(normalized.config.validation?.globalRules, values, {
+    activeFields: collectActiveFieldNames(normalized.steps, values, normalized.evaluateConditions, stepIndex),
+    evaluateConditions: normalized.evaluateConditions,
+    fields: plan.fields,
+  })
+  return new Map(Array.from(errors).filter(([name]) => plan.fieldNames.includes(name)))
+}
+
+/**
+ * Every global rule before submit, with the first step holding an error (-1 when none do).
+ */
+export function checkSubmitRules(
+  normalized: NormalizedFormConfig,
+  values: FormData
+): { errors: Map<string, string>; firstErrorStepIndex: number } {
+  const errors = runGlobalRules(normalized.config.validation?.globalRules, values, {
+    activeFields: collectActiveFieldNames(normalized.steps, values, normalized.evaluateConditions),
+    evaluateConditions: normalized.evaluateConditions,
+    fields: normalized.steps.flatMap((step) => step.fields),
+  })
+  const firstErrorStepIndex =
+    errors.size === 0 ? -1 : normalized.steps.findIndex((step) => step.fields.some((field) => errors.has(field.name)))
+  return { errors, firstErrorStepIndex }
+}
+
+// Value at a field name, following `<repeater>.<index>.<id>` paths into row arrays
+function getFieldValue(values: FormData, name: string): unknown {
+  return name
+    .split('.')
+    .reduce<unknown>((value, key) => (value && typeof value === 'object' ? (value as FormData)[key] : undefined), values)
+}
+
+/**
+ * What stops `next` from leaving the step, keyed by field name: the first failing validator of
+ * each planned field, else the global rules landing on the step.
+ */
+export function getStepErrors(normalized: NormalizedFormConfig, values: FormData, stepIndex: number): Map<string, string> {
+  const visibleFields = getVisibleStepFields(normalized, stepIndex, values)
+  const plan = planStepValidation(expandRepeaterFields(visibleFields, values, normalized.evaluateConditions))
+  const errors = new Map<string, string>()
+  for (const field of plan.fields) {
+    const error = createConfigFieldValidator(field)({ value: getFieldValue(values, field.name) })
+    if (error) errors.set(field.name, error)
+  }
+  return errors.size > 0 ? errors : checkStepRules(normalized, values, stepIndex, plan)
+}
+
+/**
+ * Whether `next` would let the user leave the step: every planned field passes its validators
+ * and no global rule lands on the step.
+ */
+export function isStepComplete(normalized: NormalizedFormConfig, values: FormData, stepIndex: number): boolean {
+  return getStepErrors(normalized, values, stepIndex).size === 0
+}
+
+/**
+ * Step a deep link to `targetIndex` may land on: the target when every visible step before it is
+ * complete, else the first incomplete one. `targetIndex` must be visible.
+ */
+export function getReachableStepIndex(
+  normalized: NormalizedFormConfig,
+  values: FormData,
+  targetIndex: number,
+  visibleStepIndices: number[]
+): number {
+  const blocking = visibleStepIndices.find((i) => i < targetIndex && !isStepComplete(normalized, values, i))
+  return blocking ?? targetIndex
+}
@@ -0,0 +1,39 @@
+import { z } from 'zod'
+import { checkRule, getFieldValidationRules, normalizeValidationRules } from '../../../shared/validation/ruleRegistry.mjs'
+import type { ValidationRuleInput } from '../../../shared/validation/ruleRegistry.mjs'
+import type { FormField } from './types'
+
+// Field-level validator: the error message, or undefined when the value passes
+export type FieldValidator = ({ value }: { value: any }) => string | undefined
+
+/**
+ * Zod-backed field validator over the shared rule registry (the backend schema generator
+ * uses the same registry). Accepts every rule shape the registry normalises.
+ */
+export function createZodFieldValidator(validationRules: ValidationRuleInput[] = [], fieldType: string = 'text'): FieldValidator {
+  const rules = normalizeValidationRules(validationRules)
+
+  // Rules run in config order; the first failure is reported
+  const schema = z.any().superRefine((value, ctx) => {
+    for (const rule of rules) {
+      const message = checkRule(rule, value, fieldType)
+      if (message) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message })
+        return
+      }
+    }
+  })
+
+  return ({ value }) => {
+    const res = schema.safeParse(value)
+    if (!res.success) return res.error.issues[0]?.message || 'Invalid value'
+    return undefined
+  }
+}
+
+/**
+ * Validator for a field's `validation` rules, including a numeric field's `min` / `max`
+ */
+export function createConfigFieldValidator(field: FormField): FieldValidator {
+  return createZodFieldValidator(getFieldValidationRules(field), field.type)
+}
@@ -0,0 +1,20 @@
+import * as React from 'react'
+import { getDraftSessionId, rotateDraftSession } from '../api/formConfig'
+
+/**
+ * Draft session of a form that saves its steps (undefined otherwise). `endSession` starts a new
+ * session once the form is submitted, so the submitted draft is never resumed.
+ */
+export function useDraftSession(formId: string | undefined, enabled: boolean) {
+  // Bumped to re-read the session after it is rotated
+  const [, setRevision] = React.useState(0)
+  const sessionId = formId && enabled ? getDraftSessionId(formId) : undefined
+
+  const endSession = React.useCallback(() => {
+    if (!formId || !enabled) return
+    rotateDraftSession(formId)
+    setRevision((revision) => revision + 1)
+  }, [formId, enabled])
+
+  return { sessionId, endSession }
+}
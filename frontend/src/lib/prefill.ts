@@ -0,0 +1,97 @@
+import * as React from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { fetchPrefill } from '../api/formConfig'
+import type { FormConfig } from '../api/formConfig'
+
+export type PrefillSource = 'url' | 'loan'
+
+// Lowest to highest priority. A resumed draft is applied over both by the engines (useDraftRestore)
+export const PREFILL_PRIORITY: PrefillSource[] = ['url', 'loan']
+
+export type PrefillLayers = Partial<Record<PrefillSource, Record<string, unknown>>>
+
+/**
+ * Read prefill values from URL query params (?loanAmount=350000&isFirstTimeBuyer=true).
+ * Only params matching a configured (non-computed, non-repeater) field name are used; checkbox fields are coerced.
+ */
+export function parseUrlPrefill(config: FormConfig, params: URLSearchParams): Record<string, unknown> {
+  const values: Record<string, unknown> = {}
+  for (const step of config.steps) {
+    for (const field of step.fields) {
+      const raw = params.get(field.name)
+      if (raw === null || field.type === 'computed' || field.type === 'repeater') continue
+      if (field.type === 'checkbox') {
+        values[field.name] = raw === 'true' || raw === '1'
+      } else {
+        values[field.name] = raw
+      }
+    }
+  }
+  return values
+}
+
+/**
+ * Merge prefill layers by priority. Returns the values and which source each field came from.
+ */
+export function mergePrefill(layers: PrefillLayers) {
+  const values: Record<string, unknown> = {}
+  const sources: Record<string, PrefillSource> = {}
+  for (const source of PREFILL_PRIORITY) {
+    for (const [name, value] of Object.entries(layers[source] || {})) {
+      if (value === undefined || value === null) continue
+      values[name] = value
+      sources[name] = source
+    }
+  }
+  return { values, sources }
+}
+
+interface PrefillPipelineOptions {
+  formId?: string
+  config: FormConfig | null
+}
+
+/**
+ * Page-level prefill: URL params and loan JSON mapped by the backend inbound transformation,
+ * merged into one set of renderer default values.
+ * `version` changes whenever loan data is applied so renderers can be remounted with the new values.
+ */
+export function usePrefillPipeline({ formId, config }: PrefillPipelineOptions) {
+  const [searchParams] = useSearchParams()
+  const [loanValues, setLoanValues] = React.useState<Record<string, unknown> | undefined>(undefined)
+  const [error, setError] = React.useState<string | null>(null)
+  const [version, setVersion] = React.useState(0)
+
+  const applyLoanData = React.useCallback(
+    async (loanData: unknown) => {
+      if (!formId) return
+      setError(null)
+      try {
+        const values = await fetchPrefill(formId, loanData)
+        setLoanValues(values)
+        setVersion((v) => v + 1)
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to prefill from loan data')
+      }
+    },
+    [formId]
+  )
+
+  const urlValues = React.useMemo(
+    () => (config ? parseUrlPrefill(config, searchParams) : {}),
+    [config, searchParams]
+  )
+
+  const merged = React.useMemo(
+    () => mergePrefill({ url: urlValues, loan: loanValues }),
+    [urlValues, loanValues]
+  )
+
+  return {
+    values: merged.values,
+    sources: merged.sources,
+    error,
+    version,
+    applyLoanData,
+  }
+}
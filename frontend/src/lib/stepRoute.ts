@@ -0,0 +1,39 @@
+import * as React from 'react'
+import { useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom'
+
+/**
+ * Step and flow selection kept in the URL of a form page:
+ *   /rhf/form/:formId/:stepId?<selectionField>=<flow>
+ * The query string (URL prefill params, selected flow) is kept when the step changes.
+ */
+export function useStepRoute(basePath: string) {
+  const { stepId } = useParams<{ stepId?: string }>()
+  const [searchParams] = useSearchParams()
+  const navigate = useNavigate()
+  const { search } = useLocation()
+
+  const onStepChange = React.useCallback(
+    (nextStepId: string, { replace }: { replace: boolean }) => {
+      navigate({ pathname: `${basePath}/${encodeURIComponent(nextStepId)}`, search }, { replace })
+    },
+    [navigate, basePath, search]
+  )
+
+  // Selected flow of a MULTI_FLOW form, read from its selection field's query param
+  const getFlow = React.useCallback(
+    (fieldName: string | undefined) => (fieldName ? searchParams.get(fieldName) : null),
+    [searchParams]
+  )
+
+  // Choosing a flow pushes a history entry, so Back returns to the selection screen; the step starts over
+  const selectFlow = React.useCallback(
+    (fieldName: string, value: string) => {
+      const params = new URLSearchParams(search)
+      params.set(fieldName, value)
+      navigate({ pathname: basePath, search: `?${params}` })
+    },
+    [navigate, basePath, search]
+  )
+
+  return { stepId, onStepChange, getFlow, selectFlow }
+}
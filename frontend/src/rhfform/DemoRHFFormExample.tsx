@@ -1,7 +1,7 @@
 import * as React from 'react'
 import { RHFConfigFormRenderer } from './RHFConfigFormRenderer'
 import { fetchFormConfig, type FormConfig } from '../api/formConfig'
-import type { FormData } from '../tanstackform/types'
+import type { FormData } from '../core/types'
 
 export function DemoRHFFormExample() {
   const [config, setConfig] = React.useState<FormConfig | null>(null)
@@ -1,32 +1,45 @@
 import * as React from 'react'
 import { useParams, Link } from 'react-router-dom'
-import jsonLogic from 'json-logic-js'
 import { fetchFormConfig, submitForm } from '../api/formConfig'
-import type { FormConfig as ApiFormConfig } from '../api/formConfig'
+import type { FormConfig } from '../core/types'
+import { isChoiceField } from '../core/fieldTypes'
+import { useDraftSession } from '../lib/draftSession'
+import { usePrefillPipeline } from '../lib/prefill'
+import { PrefillPanel } from '../components/PrefillPanel'
+import { useStepRoute } from '../lib/stepRoute'
 import { RHFConfigFormRenderer } from './RHFConfigFormRenderer'
+import { WizardFlowRenderer } from './WizardFlowRenderer'
+import { createConditionsEvaluator } from '../core'
 
 type FormType = 'APPLICATION_FORM' | 'MULTI_FLOW_FORM' | string
 
-function pruneConfigByFlow(config: ApiFormConfig, selectionField: string, selectionValue: string): ApiFormConfig {
+function pruneConfigByFlow(config: FormConfig, selectionField: string, selectionValue: string): FormConfig {
   const context: Record<string, any> = { [selectionField]: selectionValue }
+  const evaluateConditions = createConditionsEvaluator(config.conditionPolicy)
   const prunedSteps = config.steps.filter((step) => {
     if (step.id === config.flowSelection?.step) return false
-    if (!step.conditions || step.conditions.length === 0) return true
-    try {
-      return step.conditions.every((rule) => Boolean(jsonLogic.apply(rule as any, context)))
-    } catch {
-      return true
-    }
+    return evaluateConditions(step.conditions, context)
   })
   return { ...config, steps: prunedSteps }
 }
 
+// MULTI_FLOW_FORM selection field and the flow picked in the URL (null unless it is one of the field's options)
+function getFlowSelection(config: FormConfig, getFlow: (fieldName: string | undefined) => string | null) {
+  const fieldName = config.flowSelection?.field
+  const step = config.steps.find((s) => s.id === config.flowSelection?.step)
+  const field = step?.fields.filter(isChoiceField).find((f) => f.name === fieldName)
+  const requestedFlow = getFlow(fieldName)
+  const selectedFlow = field?.options?.some((opt) => String(opt.value) === requestedFlow) ? requestedFlow : null
+  return { fieldName, field, selectedFlow }
+}
+
 export function DynamicRHFFormPage() {
   const { formId } = useParams<{ formId: string }>()
-  const [config, setConfig] = React.useState<ApiFormConfig | null>(null)
+  const [config, setConfig] = React.useState<FormConfig | null>(null)
   const [loading, setLoading] = React.useState(true)
   const [error, setError] = React.useState<string | null>(null)
-  const [selectedFlow, setSelectedFlow] = React.useState<string | null>(null)
+  // Current step and MULTI_FLOW_FORM selection live in the URL
+  const stepRoute = useStepRoute(`/rhf/form/${formId}`)
 
   React.useEffect(() => {
     let mounted = true
@@ -51,6 +64,21 @@ export function DynamicRHFFormPage() {
     }
   }, [formId])
 
+  // Drafts are only kept for forms with step saving enabled; the renderer restores them
+  const { sessionId, endSession } = useDraftSession(formId, Boolean(config?.saveConfig?.enabled))
+
+  // URL params < loan JSON; renderers remount when loan data is applied
+  const prefill = usePrefillPipeline({ formId, config })
+
+  // Pruned once per flow, so the renderer's config only changes when the selection does
+  const flowSelection = config ? getFlowSelection(config, stepRoute.getFlow) : null
+  const selectionFieldName = flowSelection?.fieldName
+  const selectedFlow = flowSelection?.selectedFlow ?? null
+  const prunedConfig = React.useMemo(
+    () => (config && selectionFieldName && selectedFlow ? pruneConfigByFlow(config, selectionFieldName, selectedFlow) : null),
+    [config, selectionFieldName, selectedFlow]
+  )
+
   const handleSubmit = async (data: Record<string, any>) => {
     try {
       console.log('RHF submitting:', { formId, data })
@@ -59,7 +87,8 @@ export function DynamicRHFFormPage() {
         throw new Error('Form ID is required for submission')
       }
 
-      const result = await submitForm(formId, data)
+      const result = await submitForm(formId, data, sessionId)
+      endSession()
       console.log('Form submission result:', result)
       alert(`Form submitted successfully! Check console for details.\nTimestamp: ${result.timestamp}`)
     } catch (error) {
@@ -106,22 +135,32 @@ export function DynamicRHFFormPage() {
 
   const formType = (config.metadata?.formType || 'APPLICATION_FORM') as FormType
 
+  const prefillPanel = (
+    <PrefillPanel onApply={prefill.applyLoanData} sources={prefill.sources} error={prefill.error} className="max-w-6xl" />
+  )
+
+  // Phased wizards (flowConfig.phases) run on the phase engine whatever their formType
+  if (config.flowConfig?.type === 'wizard') {
+    return (
+      <div className="min-h-screen bg-background p-6">
+        {prefillPanel}
+        <WizardFlowRenderer config={config} onSubmit={handleSubmit} key={prefill.version} defaultValues={prefill.values} className="max-w-6xl" />
+      </div>
+    )
+  }
+
   if (formType === 'APPLICATION_FORM') {
     return (
       <div className="min-h-screen bg-background p-6">
-        <RHFConfigFormRenderer config={config as any} onSubmit={handleSubmit} defaultValues={{}} className="max-w-6xl" />
+        {prefillPanel}
+        <RHFConfigFormRenderer config={config} onSubmit={handleSubmit} key={prefill.version} defaultValues={prefill.values} sessionId={sessionId} stepId={stepRoute.stepId} onStepChange={stepRoute.onStepChange} className="max-w-6xl" />
       </div>
     )
   }
 
   if (formType === 'MULTI_FLOW_FORM') {
-    const selectionStepId = config.flowSelection?.step
-    const selectionFieldName = config.flowSelection?.field
-    const selectionStep = config.steps.find((s) => s.id === selectionStepId)
-    const selectionField = selectionStep?.fields.find((f) => f.name === selectionFieldName)
-
-    if (!selectedFlow) {
-      const options = selectionField?.options || []
+    if (!prunedConfig || !selectedFlow || !selectionFieldName) {
+      const options = flowSelection?.field?.options || []
       return (
         <div className="min-h-screen bg-background p-6">
           <div className="max-w-4xl mx-auto space-y-6">
@@ -133,7 +172,7 @@ export function DynamicRHFFormPage() {
               {options.map((opt) => (
                 <button
                   key={opt.value}
-                  onClick={() => setSelectedFlow(String(opt.value))}
+                  onClick={() => stepRoute.selectFlow(selectionFieldName!, String(opt.value))}
                   className="text-left border rounded-lg p-4 hover:border-primary transition-colors bg-card"
                 >
                   <div className="font-semibold">{opt.label}</div>
@@ -146,13 +185,17 @@ export function DynamicRHFFormPage() {
       )
     }
 
-    const pruned = selectionFieldName ? pruneConfigByFlow(config, selectionFieldName, selectedFlow) : config
     return (
       <div className="min-h-screen bg-background p-6">
+        {prefillPanel}
         <RHFConfigFormRenderer
-          config={pruned as any}
+          config={prunedConfig}
           onSubmit={handleSubmit}
-          defaultValues={{ [selectionFieldName!]: selectedFlow }}
+          key={prefill.version}
+          defaultValues={{ ...prefill.values, [selectionFieldName]: selectedFlow }}
+          sessionId={sessionId}
+          stepId={stepRoute.stepId}
+          onStepChange={stepRoute.onStepChange}
           className="max-w-6xl"
         />
       </div>
@@ -161,7 +204,8 @@ export function DynamicRHFFormPage() {
 
   return (
     <div className="min-h-screen bg-background p-6">
-      <RHFConfigFormRenderer config={config as any} onSubmit={handleSubmit} defaultValues={{}} className="max-w-6xl" />
+      {prefillPanel}
+      <RHFConfigFormRenderer config={config} onSubmit={handleSubmit} key={prefill.version} defaultValues={prefill.values} sessionId={sessionId} stepId={stepRoute.stepId} onStepChange={stepRoute.onStepChange} className="max-w-6xl" />
     </div>
   )
 }
@@ -1,16 +1,26 @@
 import * as React from 'react'
-import { FormProvider } from 'react-hook-form'
+import { FormProvider, useWatch } from 'react-hook-form'
 import { RHFFormField } from './RHFFormField'
+import { ReviewSummary } from '../tanstackform/ReviewSummary'
 import { StepNavigation } from '../tanstackform/StepNavigation'
 import { cn } from '@/lib/utils'
-import type { FormConfig, FormData } from '../tanstackform/types'
+import type { FormConfig, FormData } from '../core/types'
+import { PricerPanel } from '../tanstackform/PricerPanel'
+import { NumberFormatProvider } from '../tanstackform/NumberFormatProvider'
 import { useRHFConfigFormEngine } from './engine/useRHFConfigFormEngine'
+import type { StepHistoryOptions } from '../core'
 
-export interface RHFConfigFormRendererProps {
+export interface RHFConfigFormRendererProps extends StepHistoryOptions {
   config: FormConfig
   onSubmit: (data: FormData) => void | Promise<void>
   defaultValues?: Partial<FormData>
   className?: string
+  // Draft session to restore from and save steps to
+  sessionId?: string
+  // Passed through to the engine; used when the form is one phase of a larger flow
+  onBack?: () => void
+  onValuesChange?: (values: FormData) => void
+  startAtLastStep?: boolean
 }
 
 export function RHFConfigFormRenderer({
@@ -18,65 +28,105 @@ export function RHFConfigFormRenderer({
   onSubmit,
   defaultValues = {},
   className,
+  sessionId,
+  onBack,
+  onValuesChange,
+  startAtLastStep,
+  stepId,
+  onStepChange,
 }: RHFConfigFormRendererProps) {
   // Track how many times this renderer re-renders
   const renderCountRef = React.useRef(0)
   renderCountRef.current += 1
-  const engine = useRHFConfigFormEngine({ config, onSubmit, defaultValues })
+  const engine = useRHFConfigFormEngine({
+    config,
+    onSubmit,
+    defaultValues,
+    sessionId,
+    onBack,
+    onValuesChange,
+    startAtLastStep,
+    stepId,
+    onStepChange,
+  })
   const { methods, currentStep, totalSteps } = engine
+  const showPricer = Boolean(currentStep.showPricer && config.pricing)
 
   return (
-    <div className={cn('w-full max-w-4xl mx-auto space-y-8', className)}>
-      <div className="text-center space-y-2">
-        <h1 className="text-3xl font-bold">{config.metadata.name}</h1>
-        <p className="text-muted-foreground">
-          Step {engine.stepNavigationProps.currentStep + 1} of {totalSteps}: {currentStep.name}
-        </p>
-        <p className="text-xs text-muted-foreground">Renders: {renderCountRef.current}</p>
-      </div>
+    <NumberFormatProvider config={config}>
+      <div className={cn('w-full max-w-4xl mx-auto space-y-8', className)}>
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl font-bold">{config.metadata.name}</h1>
+          <p className="text-muted-foreground">
+            Step {engine.stepNavigationProps.currentStep + 1} of {totalSteps}: {currentStep.name}
+          </p>
+          <p className="text-xs text-muted-foreground">Renders: {renderCountRef.current}</p>
+        </div>
 
-      <FormProvider {...methods}>
-        <form onSubmit={engine.handleSubmit} className="space-y-8">
-          <div className="bg-card rounded-lg border p-6 space-y-6">
-            <div className="space-y-2">
-              <h2 className="text-xl font-semibold">{currentStep.name}</h2>
-              <p className="text-muted-foreground">{currentStep.description}</p>
-            </div>
+        <FormProvider {...methods}>
+          <form onSubmit={engine.handleSubmit} className="space-y-8">
+            {/* Step fields, with the pricer beside them on showPricer steps */}
+            <div className={cn(showPricer && 'grid gap-6 items-start lg:grid-cols-[1fr_18rem]')}>
+              <div className="bg-card rounded-lg border p-6 space-y-6">
+                <div className="space-y-2">
+                  {currentStep.category && (
+                    <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{currentStep.category}</p>
+                  )}
+                  <h2 className="text-xl font-semibold">{currentStep.name}</h2>
+                  <p className="text-muted-foreground">{currentStep.description}</p>
+                </div>
 
-            <div className="grid grid-cols-12 gap-4">
-              {engine.visibleFields.map((field) => (
-                <RHFFormField key={field.id} field={field} onAutoTrigger={engine.handleAutoTrigger} />
-              ))}
+                {engine.isReviewStep ? (
+                  <ReviewSummary sections={engine.getReviewSummary()} onEdit={(section) => engine.goTo(section.visibleIndex)} />
+                ) : (
+                  <div className="grid grid-cols-12 gap-4">
+                    {engine.visibleFields.map((field) => (
+                      <RHFFormField
+                        key={field.id}
+                        field={field}
+                        onAutoTrigger={engine.handleAutoTrigger}
+                        prefilledValue={engine.prefilledValues[field.name]}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+              {showPricer && <WatchedPricerPanel config={config} />}
             </div>
-          </div>
 
-          <StepNavigation {...engine.stepNavigationProps} />
+            <StepNavigation {...engine.stepNavigationProps} />
 
-          {process.env.NODE_ENV === 'development' && (
-            <details className="bg-muted p-4 rounded-lg">
-              <summary className="cursor-pointer font-semibold">Debug: Form State</summary>
-              <pre className="mt-2 text-xs overflow-auto">
-                {JSON.stringify(
-                  {
-                    renderCount: renderCountRef.current,
-                    currentStep: engine.stepNavigationProps.currentStep,
-                    values: methods.getValues(),
-                    errors: simplifyErrors(methods.formState.errors as any),
-                    isValid: methods.formState.isValid,
-                    isSubmitting: methods.formState.isSubmitting,
-                  },
-                  null,
-                  2,
-                )}
-              </pre>
-            </details>
-          )}
-        </form>
-      </FormProvider>
-    </div>
+            {process.env.NODE_ENV === 'development' && (
+              <details className="bg-muted p-4 rounded-lg">
+                <summary className="cursor-pointer font-semibold">Debug: Form State</summary>
+                <pre className="mt-2 text-xs overflow-auto">
+                  {JSON.stringify(
+                    {
+                      renderCount: renderCountRef.current,
+                      currentStep: engine.stepNavigationProps.currentStep,
+                      values: methods.getValues(),
+                      errors: simplifyErrors(methods.formState.errors as any),
+                      isValid: methods.formState.isValid,
+                      isSubmitting: methods.formState.isSubmitting,
+                    },
+                    null,
+                    2,
+                  )}
+                </pre>
+              </details>
+            )}
+          </form>
+        </FormProvider>
+      </div>
+    </NumberFormatProvider>
   )
 }
 
+function WatchedPricerPanel({ config }: { config: FormConfig }) {
+  const values = useWatch() as FormData
+  return <PricerPanel config={config} values={values} />
+}
+
 function simplifyErrors(errs: any): any {
   if (!errs || typeof errs !== 'object') return errs
   const out: any = Array.isArray(errs) ? [] : {}
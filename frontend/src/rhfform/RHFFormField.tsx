@@ -1,38 +1,63 @@
 import * as React from 'react'
-import { useFormContext, Controller } from 'react-hook-form'
+import { useFormContext, useWatch, Controller, get } from 'react-hook-form'
 import type { RegisterOptions } from 'react-hook-form'
-import { createZodFieldValidator } from '../tanstackform/zodValidation'
+import { createConfigFieldValidator } from '../core/zodValidation'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Select } from '@/components/ui/select'
 import { cn } from '@/lib/utils'
-import type { FormField as FormFieldType } from '../tanstackform/types'
+import { StaticField } from '../tanstackform/StaticField'
+import { ComputedValue } from '../tanstackform/ComputedValue'
+import { OptionsStatus } from '../tanstackform/OptionsStatus'
+import { OptionList } from '../tanstackform/OptionList'
+import { CheckboxGroup } from '../tanstackform/CheckboxGroup'
+import { TagInput } from '../tanstackform/TagInput'
+import { PrefillHint } from '../tanstackform/PrefillHint'
+import { NumberInput } from '../tanstackform/NumberInput'
+import { InputAdornments } from '../tanstackform/InputAdornments'
+import { getInputAdornments, isNumberField } from '../core/fieldTypes'
+import { RHFRepeaterField } from './RHFRepeaterField'
+import { getOptionDependencyKeys, isRepeaterField, useFieldOptions } from '../core'
+import { isStaticField } from '../core/staticFields'
+import type { FormField as FormFieldType } from '../core/types'
 
 interface Props {
   field: FormFieldType
   onAutoTrigger?: (sourceField: string, sourceValue: any, targetField: string, targetValue: any) => void
+  // Value prefillFrom gave the field; a hint shows while the field still holds it
+  prefilledValue?: unknown
 }
 
-export function RHFFormField({ field, onAutoTrigger }: Props) {
+export function RHFFormField({ field, onAutoTrigger, prefilledValue }: Props) {
   const { register, control, formState: { errors } } = useFormContext()
 
-  const error = (errors as any)?.[field.name]?.message as string | undefined
+  // Names may be paths into arrays (repeater rows: "borrowers.0.first_name")
+  const error = get(errors, field.name)?.message as string | undefined
   const fieldId = `field-${field.id}`
 
   const rules = React.useMemo(() => buildRules(field), [field])
 
+  // Static options filtered by their conditions, or options loaded from `optionsSource`
+  const dependencyKeys = React.useMemo(() => getOptionDependencyKeys(field), [field])
+  const dependencyValues = useWatch({ control, name: dependencyKeys })
+  const optionsState = useFieldOptions(
+    field,
+    Object.fromEntries(dependencyKeys.map((key, i) => [key, dependencyValues[i]]))
+  )
+
   const showLabel = field.type !== 'checkbox'
 
   // Helper function to handle field changes with auto-triggers
-  const handleChangeWithAutoTrigger = React.useCallback((newValue: any, onChange: (value: any) => void) => {
+  // (multi-select fields trigger on the option just picked)
+  const handleChangeWithAutoTrigger = React.useCallback((newValue: any, onChange: (value: any) => void, triggerKey: unknown = newValue) => {
     // First, update the current field value
     onChange(newValue)
 
     // Then check for auto-triggers (only on user interaction)
-    if (field.autoTriggers && onAutoTrigger) {
-      const trigger = field.autoTriggers[newValue]
+    if ('autoTriggers' in field && field.autoTriggers && onAutoTrigger) {
+      const trigger = field.autoTriggers[String(triggerKey)]
       if (trigger) {
         // Execute the auto-trigger
         onAutoTrigger(field.name, newValue, trigger.field, trigger.value)
@@ -40,6 +65,15 @@ export function RHFFormField({ field, onAutoTrigger }: Props) {
     }
   }, [field, onAutoTrigger])
 
+  // Static content is never registered, so it stays out of form values
+  if (isStaticField(field)) {
+    return <StaticField field={field} className={getGridClasses(field.grid)} />
+  }
+
+  if (isRepeaterField(field)) {
+    return <RHFRepeaterField field={field} onAutoTrigger={onAutoTrigger} />
+  }
+
   return (
     <div className={cn('space-y-2', getGridClasses(field.grid))}>
       {showLabel && (
@@ -55,6 +89,8 @@ export function RHFFormField({ field, onAutoTrigger }: Props) {
         <p className="text-xs text-muted-foreground">{field.helpText}</p>
       )}
 
+      {prefilledValue !== undefined && <WatchedPrefillHint name={field.name} prefilledValue={prefilledValue} />}
+
       {error && (
         <p id={`${fieldId}-error`} className="text-xs text-destructive">{error}</p>
       )}
@@ -62,19 +98,44 @@ export function RHFFormField({ field, onAutoTrigger }: Props) {
   )
 
   function renderInput() {
+    // number, integer, percentage, currency and `formType: "amount"` text fields
+    if (isNumberField(field)) {
+      return (
+        <Controller
+          name={field.name}
+          control={control}
+          rules={rules}
+          render={({ field: ctl }) => (
+            <NumberInput
+              id={fieldId}
+              field={field}
+              value={ctl.value}
+              onChange={ctl.onChange}
+              onBlur={ctl.onBlur}
+              placeholder={field.placeholder}
+              invalid={Boolean(error)}
+              describedBy={error ? `${fieldId}-error` : undefined}
+            />
+          )}
+        />
+      )
+    }
+
     switch (field.type) {
       case 'text':
       case 'email':
       case 'password':
         return (
-          <Input
-            id={fieldId}
-            type={field.type}
-            placeholder={field.placeholder}
-            aria-describedby={error ? `${fieldId}-error` : undefined}
-            variant={error ? 'error' : 'default'}
-            {...register(field.name, rules)}
-          />
+          <InputAdornments {...getInputAdornments(field)}>
+            <Input
+              id={fieldId}
+              type={field.type}
+              placeholder={field.placeholder}
+              aria-describedby={error ? `${fieldId}-error` : undefined}
+              variant={error ? 'error' : 'default'}
+              {...register(field.name, rules)}
+            />
+          </InputAdornments>
         )
 
       case 'date':
@@ -132,7 +193,7 @@ export function RHFFormField({ field, onAutoTrigger }: Props) {
             rules={rules}
             render={({ field: ctl }) => (
               <div className="space-y-2">
-                {field.options?.map((option) => (
+                {optionsState.options.map((option) => (
                   <div key={option.value} className="flex items-center space-x-2">
                     <input
                       type="radio"
@@ -154,6 +215,7 @@ export function RHFFormField({ field, onAutoTrigger }: Props) {
                     </div>
                   </div>
                 ))}
+                <OptionsStatus state={optionsState} />
               </div>
             )}
           />
@@ -161,43 +223,132 @@ export function RHFFormField({ field, onAutoTrigger }: Props) {
 
       case 'dropdown':
         return (
-          <Select
-            id={fieldId}
-            aria-describedby={error ? `${fieldId}-error` : undefined}
-            variant={error ? 'error' : 'default'}
-            {...register(field.name, rules)}
-          >
-            <option value="">{field.placeholder || 'Select an option...'}</option>
-            {field.options?.map((option) => (
-              <option key={option.value} value={option.value}>
-                {option.label}
-              </option>
-            ))}
-          </Select>
+          <>
+            <Select
+              id={fieldId}
+              aria-describedby={error ? `${fieldId}-error` : undefined}
+              variant={error ? 'error' : 'default'}
+              disabled={optionsState.isLoading || optionsState.isWaiting}
+              {...register(field.name, rules)}
+            >
+              <option value="">{field.placeholder || 'Select an option...'}</option>
+              {optionsState.options.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </Select>
+            <OptionsStatus state={optionsState} />
+          </>
         )
 
-      case 'phone':
+      case 'options':
+      case 'options_cards':
         return (
           <Controller
             name={field.name}
             control={control}
             rules={rules}
             render={({ field: ctl }) => (
-              <Input
+              <>
+                <OptionList
+                  id={fieldId}
+                  options={optionsState.options}
+                  value={ctl.value}
+                  onChange={(next, picked) => handleChangeWithAutoTrigger(next, ctl.onChange, picked)}
+                  onBlur={ctl.onBlur}
+                  variant={field.type === 'options_cards' ? 'cards' : 'list'}
+                  multiple={field.multiple}
+                  invalid={Boolean(error)}
+                  describedBy={error ? `${fieldId}-error` : undefined}
+                />
+                <OptionsStatus state={optionsState} />
+              </>
+            )}
+          />
+        )
+
+      case 'multi_select':
+        return (
+          <Controller
+            name={field.name}
+            control={control}
+            rules={rules}
+            render={({ field: ctl }) => {
+              const selected: string[] = Array.isArray(ctl.value) ? ctl.value : []
+              return (
+                <>
+                  <Select
+                    id={fieldId}
+                    multiple
+                    value={selected}
+                    onChange={(e) => {
+                      const next = Array.from(e.target.selectedOptions, (option) => option.value)
+                      handleChangeWithAutoTrigger(next, ctl.onChange, next.find((v) => !selected.includes(v)) ?? null)
+                    }}
+                    onBlur={ctl.onBlur}
+                    disabled={optionsState.isLoading || optionsState.isWaiting}
+                    aria-describedby={error ? `${fieldId}-error` : undefined}
+                    variant={error ? 'error' : 'default'}
+                    className="h-auto min-h-24"
+                  >
+                    {optionsState.options.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </Select>
+                  <OptionsStatus state={optionsState} />
+                </>
+              )
+            }}
+          />
+        )
+
+      case 'checkbox_group':
+        return (
+          <Controller
+            name={field.name}
+            control={control}
+            rules={rules}
+            render={({ field: ctl }) => (
+              <>
+                <CheckboxGroup
+                  id={fieldId}
+                  options={optionsState.options}
+                  value={ctl.value}
+                  onChange={(next, picked) => handleChangeWithAutoTrigger(next, ctl.onChange, picked)}
+                  onBlur={ctl.onBlur}
+                  invalid={Boolean(error)}
+                  describedBy={error ? `${fieldId}-error` : undefined}
+                />
+                <OptionsStatus state={optionsState} />
+              </>
+            )}
+          />
+        )
+
+      case 'tag_input':
+        return (
+          <Controller
+            name={field.name}
+            control={control}
+            rules={rules}
+            render={({ field: ctl }) => (
+              <TagInput
                 id={fieldId}
-                type="tel"
-                placeholder={field.placeholder}
-                value={formatPhone(ctl.value || '')}
-                onChange={(e) => ctl.onChange(e.target.value.replace(/\D/g, ''))}
+                value={ctl.value}
+                onChange={ctl.onChange}
                 onBlur={ctl.onBlur}
-                aria-describedby={error ? `${fieldId}-error` : undefined}
-                variant={error ? 'error' : 'default'}
+                placeholder={field.placeholder}
+                invalid={Boolean(error)}
+                describedBy={error ? `${fieldId}-error` : undefined}
               />
             )}
           />
         )
 
-      case 'currency':
+      case 'phone':
         return (
           <Controller
             name={field.name}
@@ -206,10 +357,10 @@ export function RHFFormField({ field, onAutoTrigger }: Props) {
             render={({ field: ctl }) => (
               <Input
                 id={fieldId}
-                type="text"
+                type="tel"
                 placeholder={field.placeholder}
-                value={formatCurrency(ctl.value)}
-                onChange={(e) => ctl.onChange(parseCurrency(e.target.value))}
+                value={formatPhone(ctl.value || '')}
+                onChange={(e) => ctl.onChange(e.target.value.replace(/\D/g, ''))}
                 onBlur={ctl.onBlur}
                 aria-describedby={error ? `${fieldId}-error` : undefined}
                 variant={error ? 'error' : 'default'}
@@ -218,6 +369,17 @@ export function RHFFormField({ field, onAutoTrigger }: Props) {
           />
         )
 
+      case 'computed':
+        // Registered through a Controller so the engine-maintained value is validated and submitted
+        return (
+          <Controller
+            name={field.name}
+            control={control}
+            rules={rules}
+            render={({ field: ctl }) => <ComputedValue id={fieldId} field={field} value={ctl.value} error={error} />}
+          />
+        )
+
       default:
         return null
     }
@@ -225,7 +387,7 @@ export function RHFFormField({ field, onAutoTrigger }: Props) {
 }
 
 function buildRules(field: FormFieldType): RegisterOptions {
-  const validator = createZodFieldValidator(field.validation || [], field.type)
+  const validator = createConfigFieldValidator(field)
   return {
     validate: (v: any) => {
       const msg = validator({ value: v })
@@ -243,25 +405,10 @@ function formatPhone(v: string): string {
   return `(${digits.slice(0, 3)}) ${digits.slice(3, 6)}-${digits.slice(6, 10)}`
 }
 
-function parseCurrency(input: string): number | '' {
-  const cleaned = (input || '').toString().replace(/[^\d.]/g, '')
-  if (!cleaned) return ''
-  const num = Number(cleaned)
-  return isNaN(num) ? '' : num
-}
-
-function formatCurrency(v: any): string {
-  if (v === '' || v == null || isNaN(Number(v))) return ''
-  try {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(Number(v))
-  } catch {
-    return String(v)
-  }
+// Watches the field's value only for fields that were prefilled
+function WatchedPrefillHint({ name, prefilledValue }: { name: string; prefilledValue: unknown }) {
+  const value = useWatch({ name })
+  return <PrefillHint value={value} prefilledValue={prefilledValue} />
 }
 
 function getGridClasses(grid: FormFieldType['grid']): string {
@@ -0,0 +1,38 @@
+import { useFieldArray, useFormContext, useWatch } from 'react-hook-form'
+import { RHFFormField } from './RHFFormField'
+import { RepeaterRows } from '../tanstackform/RepeaterRows'
+import { createRepeaterRow, getRepeaterRowFields, getRequestedRowCount } from '../core'
+import type { FormData, FormFieldProps, RepeaterField } from '../core/types'
+
+interface Props {
+  field: RepeaterField
+  onAutoTrigger?: FormFieldProps['onAutoTrigger']
+}
+
+/**
+ * React Hook Form rendering of a `repeater`: a field array whose rows register nested
+ * fields named `<repeater>.<index>.<id>`.
+ */
+export function RHFRepeaterField({ field, onAutoTrigger }: Props) {
+  const { control } = useFormContext()
+  const { fields: rows, append, remove, move } = useFieldArray({ control, name: field.name })
+  // Per-row conditions may read any value
+  const values = useWatch({ control }) as FormData
+
+  return (
+    <RepeaterRows
+      field={field}
+      rowCount={rows.length}
+      fixedCount={field.repeater && getRequestedRowCount(field.repeater, values)}
+      rowKeys={rows.map((row) => row.id)}
+      onAdd={() => append(createRepeaterRow(field.repeater))}
+      onRemove={remove}
+      onMove={move}
+      renderRow={(index) =>
+        getRepeaterRowFields(field, index, values).map((rowField) => (
+          <RHFFormField key={rowField.id} field={rowField} onAutoTrigger={onAutoTrigger} />
+        ))
+      }
+    />
+  )
+}
@@ -1,10 +1,12 @@
 import * as React from 'react'
-import { FormProvider, useForm } from 'react-hook-form'
-import jsonLogic from 'json-logic-js'
+import { FormProvider, useForm, useWatch } from 'react-hook-form'
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
 import { RHFFormField } from './RHFFormField'
-import type { FormConfig, FormData, FormStep, FormField } from '../tanstackform/types'
+import type { FormConfig, FormData } from '../core/types'
+import { ReviewSummary } from '../tanstackform/ReviewSummary'
+import { NumberFormatProvider } from '../tanstackform/NumberFormatProvider'
+import { createFormCore, getStepAnchorId, useHiddenValues, usePrefillFrom, useReviewMode } from '../core'
 
 export interface SinglePageFormRendererProps {
   config: FormConfig
@@ -13,15 +15,6 @@ export interface SinglePageFormRendererProps {
   className?: string
 }
 
-function evaluateConditions(conditions: any[] | undefined, values: Record<string, any>): boolean {
-  if (!conditions || conditions.length === 0) return true
-  try {
-    return conditions.every((rule) => Boolean(jsonLogic.apply(rule, values)))
-  } catch {
-    return true
-  }
-}
-
 export function SinglePageFormRenderer({
   config,
   onSubmit,
@@ -31,32 +24,10 @@ export function SinglePageFormRenderer({
   const renderCountRef = React.useRef(0)
   renderCountRef.current += 1
 
+  const core = React.useMemo(() => createFormCore(config), [config])
+
   // Build default values from config + incoming defaults
-  const formDefaultValues = React.useMemo(() => {
-    const values: FormData = { ...defaultValues }
-    for (const step of config.steps) {
-      for (const field of step.fields) {
-        if (!(field.name in values)) {
-          switch (field.type) {
-            case 'checkbox':
-              values[field.name] = false
-              break
-            case 'radio':
-            case 'dropdown':
-              values[field.name] = ''
-              break
-            case 'currency':
-              values[field.name] = ''
-              break
-            default:
-              values[field.name] = ''
-              break
-          }
-        }
-      }
-    }
-    return values
-  }, [config.steps, defaultValues])
+  const formDefaultValues = React.useMemo(() => core.buildDefaultValues(defaultValues), [core, defaultValues])
 
   const methods = useForm({
     defaultValues: formDefaultValues,
@@ -67,6 +38,37 @@ export function SinglePageFormRenderer({
   // Watch all values for conditional logic
   const watchedValues = methods.watch()
 
+  const getValues = React.useCallback(() => methods.getValues() as FormData, [methods])
+
+  // Values of the condition keys; a new object only when one of them changes
+  const conditionValues = useWatch({
+    control: methods.control,
+    name: core.conditionKeys,
+    compute: (values: unknown[]) => Object.fromEntries(core.conditionKeys.map((key, i) => [key, values[i]])),
+  })
+
+  // Empty or restore values of fields that conditions hide
+  useHiddenValues({
+    core,
+    getValues,
+    conditionValues,
+    setValue: (name, value) => methods.setValue(name, value, { shouldValidate: false }),
+  })
+
+  // Every visible step is on screen, so prefillFrom applies across all of them
+  const shownFields = React.useMemo(() => {
+    const values = { ...getValues(), ...conditionValues }
+    return core.getVisibleStepIndices(values).flatMap((i) => core.getVisibleFields(i, values))
+  }, [core, getValues, conditionValues])
+
+  const prefilledValues = usePrefillFrom({
+    core,
+    getValues,
+    shownFields,
+    depsSignature: JSON.stringify(core.prefillKeys.map((key) => watchedValues[key])),
+    setValue: (name, value) => methods.setValue(name, value, { shouldValidate: false }),
+  })
+
   // Handle auto-trigger functionality
   const handleAutoTrigger = React.useCallback(
     (sourceField: string, sourceValue: any, targetField: string, targetValue: any) => {
@@ -75,81 +77,119 @@ export function SinglePageFormRenderer({
     [methods]
   )
 
-  const visibleSteps = React.useMemo(() => {
-    return config.steps.filter((step) => evaluateConditions(step.conditions, watchedValues))
-  }, [config.steps, watchedValues])
+  // Optional review of every answer before submit (flowConfig.reviewStep)
+  const review = useReviewMode(config)
+
+  const visibleStepIndices = React.useMemo(() => core.getVisibleStepIndices(watchedValues), [core, watchedValues])
 
   const handleFormSubmit = React.useCallback(
     (e: React.FormEvent) => {
       e.preventDefault()
       e.stopPropagation()
       methods.handleSubmit(async (data) => {
+        const { errors } = core.checkSubmitRules(data as FormData)
+        if (errors.size > 0) {
+          for (const [name, message] of errors) {
+            methods.setError(name, { type: 'globalRule', message })
+          }
+          return
+        }
         await onSubmit(data as FormData)
       })(e)
     },
-    [methods, onSubmit]
+    [methods, onSubmit, core]
   )
 
   return (
-    <div className={cn('w-full max-w-6xl mx-auto space-y-6', className)}>
-      <div className="space-y-1 text-center">
-        <h1 className="text-3xl font-bold">{config.metadata.name}</h1>
-        <p className="text-xs text-muted-foreground">Renders: {renderCountRef.current}</p>
-      </div>
-
-      <FormProvider {...methods}>
-        <form onSubmit={handleFormSubmit} className="space-y-8">
-          {visibleSteps.map((step) => {
-            const stepFields = step.fields.filter((field) => evaluateConditions(field.conditions, watchedValues))
-
-            if (stepFields.length === 0) return null
-
-            return (
-              <section key={step.id} className="bg-card rounded-lg border p-6 space-y-6">
-                <div className="space-y-1">
-                  <h2 className="text-xl font-semibold">{step.name}</h2>
-                  <p className="text-muted-foreground">{step.description}</p>
-                </div>
-                <div className="grid grid-cols-12 gap-4">
-                  {stepFields.map((field) => (
-                    <RHFFormField key={field.id} field={field} onAutoTrigger={handleAutoTrigger} />
-                  ))}
-                </div>
+    <NumberFormatProvider config={config}>
+      <div className={cn('w-full max-w-6xl mx-auto space-y-6', className)}>
+        <div className="space-y-1 text-center">
+          <h1 className="text-3xl font-bold">{config.metadata.name}</h1>
+          <p className="text-xs text-muted-foreground">Renders: {renderCountRef.current}</p>
+        </div>
+
+        <FormProvider {...methods}>
+          <form onSubmit={handleFormSubmit} className="space-y-8">
+            {visibleStepIndices.map((stepIndex) => {
+              const step = core.steps[stepIndex]
+              const stepFields = core.getVisibleFields(stepIndex, watchedValues)
+
+              if (stepFields.length === 0) return null
+
+              return (
+                <section
+                  key={step.id}
+                  id={getStepAnchorId(step.id)}
+                  className={cn('bg-card rounded-lg border p-6 space-y-6', review.isReviewing && 'hidden')}
+                >
+                  <div className="space-y-1">
+                    <h2 className="text-xl font-semibold">{step.name}</h2>
+                    <p className="text-muted-foreground">{step.description}</p>
+                  </div>
+                  <div className="grid grid-cols-12 gap-4">
+                    {stepFields.map((field) => (
+                      <RHFFormField
+                        key={field.id}
+                        field={field}
+                        onAutoTrigger={handleAutoTrigger}
+                        prefilledValue={prefilledValues[field.name]}
+                      />
+                    ))}
+                  </div>
+                </section>
+              )
+            })}
+
+            {review.isReviewing && (
+              <section className="bg-card rounded-lg border p-6 space-y-6">
+                <h2 className="text-xl font-semibold">Review &amp; Confirm</h2>
+                <ReviewSummary sections={core.getReviewSummary(watchedValues)} onEdit={review.editSection} />
               </section>
-            )
-          })}
-
-          <div className="flex justify-end">
-            <Button
-              type="submit"
-              disabled={methods.formState.isSubmitting}
-              className="px-6 py-2"
-            >
-              {methods.formState.isSubmitting ? 'Submitting...' : 'Submit'}
-            </Button>
-          </div>
-
-          {process.env.NODE_ENV === 'development' && (
-            <details className="bg-muted p-4 rounded-lg">
-              <summary className="cursor-pointer font-semibold">Debug: Form State</summary>
-              <pre className="mt-2 text-xs overflow-auto">
-                {JSON.stringify(
-                  {
-                    renderCount: renderCountRef.current,
-                    values: methods.getValues(),
-                    errors: simplifyErrors(methods.formState.errors as any),
-                    isValid: methods.formState.isValid,
-                    isSubmitting: methods.formState.isSubmitting,
-                  },
-                  null,
-                  2
-                )}
-              </pre>
-            </details>
-          )}
-        </form>
-      </FormProvider>
-    </div>
+            )}
+
+            <div className="flex justify-end gap-2">
+              {review.isReviewing && (
+                <Button type="button" variant="outline" onClick={review.stopReview}>
+                  Back to form
+                </Button>
+              )}
+              {review.enabled && !review.isReviewing ? (
+                <Button type="button" onClick={review.startReview} className="px-6 py-2">
+                  Review answers
+                </Button>
+              ) : (
+                <Button
+                  type="submit"
+                  disabled={methods.formState.isSubmitting}
+                  className="px-6 py-2"
+                >
+                  {methods.formState.isSubmitting ? 'Submitting...' : review.enabled ? 'Confirm & Submit' : 'Submit'}
+                </Button>
+              )}
+            </div>
+
+            {process.env.NODE_ENV === 'development' && (
+              <details className="bg-muted p-4 rounded-lg">
+                <summary className="cursor-pointer font-semibold">Debug: Form State</summary>
+                <pre className="mt-2 text-xs overflow-auto">
+                  {JSON.stringify(
+                    {
+                      renderCount: renderCountRef.current,
+                      values: methods.getValues(),
+                      errors: simplifyErrors(methods.formState.errors as any),
+                      isValid: methods.formState.isValid,
+                      isSubmitting: methods.formState.isSubmitting,
+                    },
+                    null,
+                    2
+                  )}
+                </pre>
+              </details>
+            )}
+          </form>
+        </FormProvider>
+      </div>
+    </NumberFormatProvider>
   )
 }
 
@@ -2,9 +2,11 @@ import * as React from 'react'
 import { FormProvider } from 'react-hook-form'
 import { Button } from '@/components/ui/button'
 import { RHFFormField } from './RHFFormField'
+import { ReviewSummary } from '../tanstackform/ReviewSummary'
+import { NumberFormatProvider } from '../tanstackform/NumberFormatProvider'
 import { VerticalStepList } from './VerticalStepList'
 import { cn } from '@/lib/utils'
-import type { FormConfig, FormData } from '../tanstackform/types'
+import type { FormConfig, FormData } from '../core/types'
 import { useRHFConfigFormEngine } from './engine/useRHFConfigFormEngine'
 
 export interface VerticalConfigFormRendererProps {
@@ -12,6 +14,8 @@ export interface VerticalConfigFormRendererProps {
   onSubmit: (data: FormData) => void | Promise<void>
   defaultValues?: Partial<FormData>
   className?: string
+  // Draft session to restore from and save steps to
+  sessionId?: string
 }
 
 export function VerticalConfigFormRenderer({
@@ -19,100 +23,112 @@ export function VerticalConfigFormRenderer({
   onSubmit,
   defaultValues = {},
   className,
+  sessionId,
 }: VerticalConfigFormRendererProps) {
   const renderCountRef = React.useRef(0)
   renderCountRef.current += 1
-  const engine = useRHFConfigFormEngine({ config, onSubmit, defaultValues })
+  const engine = useRHFConfigFormEngine({ config, onSubmit, defaultValues, sessionId })
   const { methods, currentStep, totalSteps } = engine
 
   return (
-    <div className={cn('w-full max-w-6xl mx-auto space-y-6', className)}>
-      <div className="space-y-1">
-        <h1 className="text-3xl font-bold">{config.metadata.name}</h1>
-        <p className="text-muted-foreground">
-          Step {engine.stepNavigationProps.currentStep + 1} of {totalSteps}: {currentStep.name}
-        </p>
-        <p className="text-xs text-muted-foreground">Renders: {renderCountRef.current}</p>
-      </div>
-
-      <FormProvider {...methods}>
-        <form onSubmit={engine.handleSubmit} className="grid grid-cols-12 gap-6">
-          <aside className="col-span-12 md:col-span-4">
-            <div className="bg-card rounded-lg border p-4 sticky top-4">
-              <VerticalStepList
-                currentStep={engine.stepNavigationProps.currentStep}
-                steps={engine.stepNavigationProps.steps}
-                onStepClick={engine.goTo}
-              />
-            </div>
-          </aside>
+    <NumberFormatProvider config={config}>
+      <div className={cn('w-full max-w-6xl mx-auto space-y-6', className)}>
+        <div className="space-y-1">
+          <h1 className="text-3xl font-bold">{config.metadata.name}</h1>
+          <p className="text-muted-foreground">
+            Step {engine.stepNavigationProps.currentStep + 1} of {totalSteps}: {currentStep.name}
+          </p>
+          <p className="text-xs text-muted-foreground">Renders: {renderCountRef.current}</p>
+        </div>
 
-          <section className="col-span-12 md:col-span-8 space-y-6">
-            <div className="bg-card rounded-lg border p-6 space-y-6">
-              <div className="space-y-2">
-                <h2 className="text-xl font-semibold">{currentStep.name}</h2>
-                <p className="text-muted-foreground">{currentStep.description}</p>
+        <FormProvider {...methods}>
+          <form onSubmit={engine.handleSubmit} className="grid grid-cols-12 gap-6">
+            <aside className="col-span-12 md:col-span-4">
+              <div className="bg-card rounded-lg border p-4 sticky top-4">
+                <VerticalStepList
+                  currentStep={engine.stepNavigationProps.currentStep}
+                  steps={engine.stepNavigationProps.steps}
+                  onStepClick={engine.goTo}
+                />
               </div>
+            </aside>
 
-              <div className="grid grid-cols-12 gap-4">
-                {engine.visibleFields.map((field) => (
-                  <RHFFormField key={field.id} field={field} onAutoTrigger={engine.handleAutoTrigger} />
-                ))}
-              </div>
-            </div>
+            <section className="col-span-12 md:col-span-8 space-y-6">
+              <div className="bg-card rounded-lg border p-6 space-y-6">
+                <div className="space-y-2">
+                  <h2 className="text-xl font-semibold">{currentStep.name}</h2>
+                  <p className="text-muted-foreground">{currentStep.description}</p>
+                </div>
 
-            <div className="flex justify-between">
-              <Button
-                type="button"
-                variant="outline"
-                onClick={engine.previous}
-                disabled={!engine.canGoPrevious || methods.formState.isSubmitting}
-              >
-                Previous
-              </Button>
+                {engine.isReviewStep ? (
+                  <ReviewSummary sections={engine.getReviewSummary()} onEdit={(section) => engine.goTo(section.visibleIndex)} />
+                ) : (
+                  <div className="grid grid-cols-12 gap-4">
+                    {engine.visibleFields.map((field) => (
+                      <RHFFormField
+                        key={field.id}
+                        field={field}
+                        onAutoTrigger={engine.handleAutoTrigger}
+                        prefilledValue={engine.prefilledValues[field.name]}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
 
-              {engine.stepNavigationProps.currentStep < totalSteps - 1 ? (
+              <div className="flex justify-between">
                 <Button
                   type="button"
-                  onClick={engine.next}
-                  disabled={!engine.canGoNext || methods.formState.isSubmitting}
+                  variant="outline"
+                  onClick={engine.previous}
+                  disabled={!engine.canGoPrevious || methods.formState.isSubmitting}
                 >
-                  Next
+                  Previous
                 </Button>
-              ) : (
-                <Button
-                  type="button"
-                  onClick={engine.submit}
-                  disabled={!engine.canGoNext || methods.formState.isSubmitting}
-                >
-                  {methods.formState.isSubmitting ? 'Submitting...' : 'Submit'}
-                </Button>
-              )}
-            </div>
 
-            {process.env.NODE_ENV === 'development' && (
-              <details className="bg-muted p-4 rounded-lg">
-                <summary className="cursor-pointer font-semibold">Debug: Form State</summary>
-                <pre className="mt-2 text-xs overflow-auto">
-                  {JSON.stringify(
-                    {
-                      renderCount: renderCountRef.current,
-                      currentStep: engine.stepNavigationProps.currentStep,
-                      values: methods.getValues(),
-                      errors: simplifyErrors(methods.formState.errors as any),
-                      isValid: methods.formState.isValid,
-                      isSubmitting: methods.formState.isSubmitting,
-                    },
-                    null,
-                    2,
-                  )}
-                </pre>
-              </details>
-            )}
-          </section>
-        </form>
-      </FormProvider>
-    </div>
+                {engine.stepNavigationProps.currentStep < totalSteps - 1 ? (
+                  <Button
+                    type="button"
+                    onClick={engine.next}
+                    disabled={!engine.canGoNext || methods.formState.isSubmitting}
+                  >
+                    Next
+                  </Button>
+                ) : (
+                  <Button
+                    type="button"
+                    onClick={engine.submit}
+                    disabled={!engine.canGoNext || methods.formState.isSubmitting}
+                  >
+                    {methods.formState.isSubmitting ? 'Submitting...' : 'Submit'}
+                  </Button>
+                )}
+              </div>
+
+              {process.env.NODE_ENV === 'development' && (
+                <details className="bg-muted p-4 rounded-lg">
+                  <summary className="cursor-pointer font-semibold">Debug: Form State</summary>
+                  <pre className="mt-2 text-xs overflow-auto">
+                    {JSON.stringify(
+                      {
+                        renderCount: renderCountRef.current,
+                        currentStep: engine.stepNavigationProps.currentStep,
+                        values: methods.getValues(),
+                        errors: simplifyErrors(methods.formState.errors as any),
+                        isValid: methods.formState.isValid,
+                        isSubmitting: methods.formState.isSubmitting,
+                      },
+                      null,
+                      2,
+                    )}
+                  </pre>
+                </details>
+              )}
+            </section>
+          </form>
+        </FormProvider>
+      </div>
+    </NumberFormatProvider>
   )
 }
 
@@ -1,5 +1,6 @@
 import type { UseFormReturn } from 'react-hook-form'
-import type { FormConfig, FormData, FormField, FormStep } from '../../tanstackform/types'
+import type { ReviewSection, StepHistoryOptions } from '../../core'
+import type { FormConfig, FormData, FormField, FormStep } from '../../core/types'
 
 export interface SaveState {
   isSaving: boolean
@@ -14,11 +15,20 @@ export interface SaveConfig {
   allowManualSave?: boolean
 }
 
-export interface RHFFormEngineOptions {
+// stepId/onStepChange sync the current step with the URL (see useStepHistory)
+export interface RHFFormEngineOptions extends StepHistoryOptions {
   config: FormConfig
   onSubmit: (data: FormData) => void | Promise<void>
   defaultValues?: Partial<FormData>
   onSave?: (stepId: string, data: FormData) => Promise<void>
+  // Draft session: restores saved values and step on load; without onSave, steps are saved to this draft
+  sessionId?: string
+  // Called by previous() on the first visible step (e.g. to return to an earlier phase)
+  onBack?: () => void
+  // Receives every value change, for callers keeping their own value store
+  onValuesChange?: (values: FormData) => void
+  // Start on the last visible step instead of the first
+  startAtLastStep?: boolean
 }
 
 export interface RHFFormEngine {
@@ -33,6 +43,13 @@ export interface RHFFormEngine {
   // Visibility helpers
   isFieldVisible: (field: FormField) => boolean
 
+  // Review step (flowConfig.reviewStep): whether it is current, and the answers to show on it
+  isReviewStep: boolean
+  getReviewSummary: () => ReviewSection[]
+
+  // Value each prefillFrom field was given, keyed by field name (for the "prefilled" hint)
+  prefilledValues: FormData
+
   // Navigation
   canGoNext: boolean
   canGoPrevious: boolean
@@ -46,7 +63,8 @@ export interface RHFFormEngine {
 
   // Save functionality
   saveState: SaveState
-  saveStepData: (stepId: string, stepData: FormData) => Promise<void>
+  saveStepData: (stepId: string, stepData: FormData, resumeStepIndex?: number) => Promise<void>
+  isRestoringDraft: boolean
 
   // AutoTrigger functionality
   handleAutoTrigger: (sourceField: string, sourceValue: any, targetField: string, targetValue: any) => void
@@ -1,108 +1,40 @@
 import * as React from 'react'
-import { FormProvider, useForm, type UseFormReturn } from 'react-hook-form'
-import jsonLogic from 'json-logic-js'
-import type { RHFFormEngine, RHFFormEngineOptions, FormData, SaveState } from './types'
-import type { FormConfig, FormStep, FormField } from '../../tanstackform/types'
-
-function buildAugmentedSteps(config: FormConfig): { steps: FormStep[]; dynamicArraySteps: Map<string, { stepId: string; insertAfterIndex: number }> } {
-  const resultSteps: FormStep[] = [...config.steps]
-  const dynamicArraySteps = new Map<string, { stepId: string; insertAfterIndex: number }>()
-
-  if (!config.arrayTemplates) return { steps: resultSteps, dynamicArraySteps }
-
-  for (const [templateName] of Object.entries(config.arrayTemplates)) {
-    let controllerStepIndex = -1
-    outer: for (let i = 0; i < resultSteps.length; i++) {
-      const step = resultSteps[i]
-      for (const field of step.fields) {
-        if ((field as any).arrayController === templateName) {
-          controllerStepIndex = i
-          break outer
-        }
-      }
-    }
-    if (controllerStepIndex >= 0) {
-      const stepId = `${templateName}-details`
-      const synthetic: FormStep = {
-        id: stepId,
-        name: templateName[0].toUpperCase() + templateName.slice(1),
-        description: 'Provide details',
-        order: (resultSteps[controllerStepIndex]?.order || 0) + 0.1,
-        fields: [],
-      }
-      resultSteps.splice(controllerStepIndex + 1, 0, synthetic)
-      dynamicArraySteps.set(templateName, { stepId, insertAfterIndex: controllerStepIndex })
-    }
-  }
-  return { steps: resultSteps, dynamicArraySteps }
-}
-
-function expandArrayTemplateFields(templateName: string, config: FormConfig, values: FormData): FormField[] {
-  const tpl = config.arrayTemplates?.[templateName]
-  if (!tpl) return []
-  const countField = tpl.countField
-  const rawCount = (values as any)[countField]
-  const appType = (values as any)['applicationType']
-  let count = appType && appType !== 'joint' ? 1 : (typeof rawCount === 'number' ? rawCount : parseInt(String(rawCount || ''), 10))
-  if (!Number.isFinite(count) || count <= 0) count = tpl.defaultCount || 1
-  count = Math.max(tpl.minCount ?? 1, Math.min(tpl.maxCount ?? 99, count))
-
-  const fields: FormField[] = []
-  for (let i = 0; i < count; i++) {
-    for (const base of tpl.fieldTemplate) {
-      const id = `${templateName}[${i}].${base.id}`
-      const name = id
-      fields.push({
-        id,
-        name,
-        type: (base.type as any) || 'text',
-        label: base.label ? `${base.label}` : base.id,
-        required: (base as any).required ?? true,
-        validation: (base as any).validation || [],
-        grid: (base as any).grid || { xs: 12 },
-      } as unknown as FormField)
-    }
-  }
-  return fields
-}
-
-export function useRHFConfigFormEngine({ config, onSubmit, defaultValues = {}, onSave }: RHFFormEngineOptions): RHFFormEngine {
-  const [currentStepIndex, setCurrentStepIndex] = React.useState(0)
-  const { steps: augmentedSteps, dynamicArraySteps } = React.useMemo(() => buildAugmentedSteps(config as FormConfig), [config])
-
-  // Save state management
-  const [saveState, setSaveState] = React.useState<SaveState>({
-    isSaving: false,
-    lastSaveTime: null,
-    saveError: null,
-  })
+import { useForm, useWatch, type UseFormReturn } from 'react-hook-form'
+import type { RHFFormEngine, RHFFormEngineOptions, FormData } from './types'
+import {
+  createFormCore,
+  isReviewStep,
+  shouldSaveStep,
+  useComputedFields,
+  useDraftRestore,
+  useHiddenValues,
+  usePrefillFrom,
+  useNavigationEngine,
+  useRepeaterRowCounts,
+  useStepHistory,
+  useStepSave,
+} from '../../core'
+
+/**
+ * React Hook Form adapter over the headless form core: RHF owns values and
+ * field errors, the core decides visibility, step order, validation and saving.
+ */
+export function useRHFConfigFormEngine({
+  config,
+  onSubmit,
+  defaultValues = {},
+  onSave,
+  sessionId,
+  onBack,
+  onValuesChange,
+  startAtLastStep = false,
+  stepId,
+  onStepChange,
+}: RHFFormEngineOptions): RHFFormEngine {
+  const core = React.useMemo(() => createFormCore(config), [config])
 
   // Build default values from config + incoming defaults
-  const formDefaultValues = React.useMemo(() => {
-    const values: FormData = { ...defaultValues }
-    for (const step of augmentedSteps) {
-      for (const field of step.fields) {
-        if (!(field.name in values)) {
-          switch (field.type) {
-            case 'checkbox':
-              values[field.name] = false
-              break
-            case 'radio':
-            case 'dropdown':
-              values[field.name] = ''
-              break
-            case 'currency':
-              values[field.name] = ''
-              break
-            default:
-              values[field.name] = ''
-              break
-          }
-        }
-      }
-    }
-    return values
-  }, [augmentedSteps, defaultValues])
+  const formDefaultValues = React.useMemo(() => core.buildDefaultValues(defaultValues), [core, defaultValues])
 
   const methods = useForm({
     defaultValues: formDefaultValues,
@@ -110,126 +42,136 @@ export function useRHFConfigFormEngine({ config, onSubmit, defaultValues = {}, o
     reValidateMode: 'onChange',
   }) as UseFormReturn<FormData>
 
-  // json-logic helpers
-  const evaluateConditions = React.useCallback((conditions: any[] | undefined, values: FormData) => {
-    if (!conditions || conditions.length === 0) return true
-    try {
-      return conditions.every((rule) => Boolean(jsonLogic.apply(rule, values)))
-    } catch (_) {
-      return true
-    }
-  }, [])
+  const { saveState, stepSaveEnabled, saveStepData } = useStepSave({ config, onSave, sessionId })
 
-  const extractVarsFromLogic = React.useCallback((rule: any, acc: Set<string>) => {
-    if (!rule || typeof rule !== 'object') return
-    if (Array.isArray(rule)) {
-      rule.forEach((r) => extractVarsFromLogic(r, acc))
-      return
-    }
-    for (const [op, val] of Object.entries(rule)) {
-      if (op === 'var') {
-        if (typeof val === 'string') acc.add(val)
-        else if (Array.isArray(val) && typeof val[0] === 'string') acc.add(val[0])
-      } else if (Array.isArray(val)) {
-        val.forEach((v) => extractVarsFromLogic(v as any, acc))
-      } else if (val && typeof val === 'object') {
-        extractVarsFromLogic(val as any, acc)
-      }
-    }
-  }, [])
+  // Subscribe only to condition-driving values; a new object only when one of them changes
+  const conditionValues = useWatch({
+    control: methods.control,
+    name: core.conditionKeys,
+    compute: (values: unknown[]) => Object.fromEntries(core.conditionKeys.map((key, i) => [key, values[i]])),
+  })
 
-  const conditionKeys = React.useMemo(() => {
-    const set = new Set<string>()
-    for (const step of augmentedSteps) {
-      step.conditions?.forEach((r) => extractVarsFromLogic(r, set))
-      for (const field of step.fields) {
-        field.conditions?.forEach((r) => extractVarsFromLogic(r, set))
-      }
-    }
-    if ((config as FormConfig).arrayTemplates) {
-      for (const tpl of Object.values((config as FormConfig).arrayTemplates!)) {
-        if (tpl.countField) set.add(tpl.countField)
-      }
-    }
-    set.add('applicationType')
-    return Array.from(set)
-  }, [augmentedSteps, extractVarsFromLogic, config])
+  const getValues = React.useCallback(() => methods.getValues() as FormData, [methods])
 
-  // Subscribe only to condition-driving values; use to trigger recompute
-  const _watchedConditionValues = methods.watch(conditionKeys as any)
+  const nav = useNavigationEngine({
+    core,
+    getValues,
+    conditionValues,
+    startAtLastStep,
+    onBack,
+  })
 
-  // Visible steps (indices into config.steps)
-  const visibleStepIndices = React.useMemo(() => {
-    const values = methods.getValues() as FormData
-    const indices: number[] = []
-    for (let i = 0; i < augmentedSteps.length; i++) {
-      const step = augmentedSteps[i]
-      if (evaluateConditions(step.conditions, values)) indices.push(i)
-    }
-    return indices
-  }, [augmentedSteps, _watchedConditionValues, evaluateConditions, methods])
+  const currentStep = core.steps[nav.currentStepIndex]
 
-  const visibleSteps = React.useMemo(() => visibleStepIndices.map((i) => augmentedSteps[i]), [visibleStepIndices, augmentedSteps])
+  // Recompute `computed` fields whenever a value they read changes
+  const computedKeySignature = JSON.stringify(methods.watch(core.computedKeys))
 
-  // Ensure current step is visible; if not, move to nearest visible
-  React.useEffect(() => {
-    if (visibleStepIndices.length === 0) return
-    if (!visibleStepIndices.includes(currentStepIndex)) {
-      const after = visibleStepIndices.find((i) => i >= currentStepIndex)
-      const target = after ?? visibleStepIndices[visibleStepIndices.length - 1]
-      setCurrentStepIndex(target)
-    }
-  }, [visibleStepIndices, currentStepIndex])
+  useComputedFields({
+    core,
+    getValues,
+    depsSignature: computedKeySignature,
+    setValue: (name, value) => methods.setValue(name, value, { shouldValidate: false }),
+  })
+
+  // Resize repeaters when their requested row count changes
+  useRepeaterRowCounts({
+    core,
+    getValues,
+    conditionValues,
+    setValue: (name, value) => methods.setValue(name, value, { shouldValidate: false }),
+  })
 
-  const currentStep = augmentedSteps[currentStepIndex]
-  const currentVisiblePos = Math.max(0, visibleStepIndices.indexOf(currentStepIndex))
-  const totalSteps = visibleSteps.length
+  // Empty or restore values of fields that conditions hide (conditionPolicy.onHide / step / field onHide)
+  useHiddenValues({
+    core,
+    getValues,
+    conditionValues,
+    setValue: (name, value) => methods.setValue(name, value, { shouldValidate: false }),
+  })
 
-  // Visible fields for current step
-  const visibleFields = React.useMemo(() => {
-    const values = methods.getValues() as FormData
-    let base = currentStep.fields
-    if ((config as FormConfig).arrayTemplates) {
-      for (const [templateName, meta] of dynamicArraySteps.entries()) {
-        if (currentStep.id === meta.stepId) {
-          base = expandArrayTemplateFields(templateName, config as FormConfig, values)
-          break
-        }
+  const isRestoringDraft = useDraftRestore({
+    formId: config.metadata.id,
+    sessionId,
+    onRestore: (draft) => {
+      methods.reset({ ...formDefaultValues, ...draft.values })
+      if (draft.currentStepIndex >= 0 && draft.currentStepIndex < core.steps.length) {
+        nav.setCurrentStepIndex(draft.currentStepIndex)
       }
+    },
+  })
+
+  // Visible fields for current step
+  const visibleFields = React.useMemo(
+    () => core.getVisibleFields(nav.currentStepIndex, { ...getValues(), ...conditionValues }),
+    [core, nav.currentStepIndex, getValues, conditionValues]
+  )
+
+  // Copy earlier answers into prefillFrom fields as they are shown
+  const prefilledValues = usePrefillFrom({
+    core,
+    getValues,
+    shownFields: visibleFields,
+    depsSignature: JSON.stringify(methods.watch(core.prefillKeys)),
+    setValue: (name, value) => methods.setValue(name, value, { shouldValidate: false }),
+  })
+
+  // Field rules plus cross-field rules over everything answered so far; only errors on this step block
+  const validateCurrentStep = React.useCallback(async () => {
+    const plan = core.planStepValidation(visibleFields, getValues())
+    const isValid = await methods.trigger(plan.fieldNames as any)
+    if (!isValid) return false
+
+    const ruleErrors = core.checkStepRules(getValues(), nav.currentStepIndex, plan)
+    for (const [name, message] of ruleErrors) {
+      methods.setError(name, { type: 'globalRule', message })
     }
-    return base.filter((f) => evaluateConditions(f.conditions, values))
-  }, [currentStep.id, currentStep.fields, _watchedConditionValues, evaluateConditions, config, dynamicArraySteps, methods])
+    return ruleErrors.size === 0
+  }, [core, visibleFields, methods, getValues, nav.currentStepIndex])
+
+  // Runs every global rule before submit and jumps to the first step holding an error
+  const passesGlobalRulesOnSubmit = React.useCallback(
+    (values: FormData) => {
+      const { errors, firstErrorStepIndex } = core.checkSubmitRules(values)
+      if (errors.size === 0) return true
+      for (const [name, message] of errors) {
+        methods.setError(name, { type: 'globalRule', message })
+      }
+      if (firstErrorStepIndex >= 0) nav.setCurrentStepIndex(firstErrorStepIndex)
+      return false
+    },
+    [core, methods, nav],
+  )
 
   // Navigation
   const next = React.useCallback(async () => {
-    const names = visibleFields.map((f) => f.name)
-    const isValid = await methods.trigger(names as any)
-    if (isValid) {
-      const pos = currentVisiblePos
-      if (pos > -1 && pos < visibleStepIndices.length - 1) {
-        setCurrentStepIndex(visibleStepIndices[pos + 1])
-      }
+    const isValid = await validateCurrentStep()
+    if (!isValid) return
+    if (shouldSaveStep(stepSaveEnabled, currentStep)) {
+      // Continue navigation even if save fails (UX decision)
+      await saveStepData(currentStep.id, getValues(), nav.nextStepIndex ?? nav.currentStepIndex)
     }
-  }, [visibleFields, currentVisiblePos, visibleStepIndices, methods])
+    nav.next()
+  }, [validateCurrentStep, stepSaveEnabled, currentStep, saveStepData, getValues, nav])
+
+  const previous = React.useCallback(() => nav.previous(), [nav])
+
+  // Mirror the current step in the URL and follow browser back/forward
+  useStepHistory({ core, nav, getValues, next, ready: !isRestoringDraft, stepId, onStepChange })
 
-  const previous = React.useCallback(() => {
-    const pos = currentVisiblePos
-    if (pos > 0) setCurrentStepIndex(visibleStepIndices[pos - 1])
-  }, [currentVisiblePos, visibleStepIndices])
+  // Mirror value changes to an external store
+  React.useEffect(() => {
+    if (!onValuesChange) return
+    const subscription = methods.watch((values) => onValuesChange(values as FormData))
+    return () => subscription.unsubscribe()
+  }, [methods, onValuesChange])
 
+  // Back to any earlier step; forward only one step, through next()'s validation
   const goTo = React.useCallback(
     async (visibleIndex: number) => {
-      const pos = currentVisiblePos
-      const targetRealIndex = visibleStepIndices[visibleIndex]
-      if (visibleIndex <= pos) {
-        setCurrentStepIndex(targetRealIndex)
-      } else {
-        const names = visibleFields.map((f) => f.name)
-        const isValid = await methods.trigger(names as any)
-        if (isValid) setCurrentStepIndex(targetRealIndex)
-      }
+      if (visibleIndex === nav.currentVisiblePos + 1) await next()
+      else nav.goTo(visibleIndex)
     },
-    [currentVisiblePos, visibleFields, visibleStepIndices, methods],
+    [nav, next],
   )
 
   const handleSubmit = React.useCallback(
@@ -237,41 +179,20 @@ export function useRHFConfigFormEngine({ config, onSubmit, defaultValues = {}, o
       e.preventDefault()
       e.stopPropagation()
       methods.handleSubmit(async (data) => {
+        if (!passesGlobalRulesOnSubmit(data as FormData)) return
         await onSubmit(data as FormData)
       })(e)
     },
-    [methods, onSubmit],
+    [methods, onSubmit, passesGlobalRulesOnSubmit],
   )
 
   const submit = React.useCallback(() => {
     // Programmatic submit without relying on native form event
     void methods.handleSubmit(async (data) => {
+      if (!passesGlobalRulesOnSubmit(data as FormData)) return
       await onSubmit(data as FormData)
     })()
-  }, [methods, onSubmit])
-
-  // Save step data function
-  const saveStepData = React.useCallback(async (stepId: string, stepData: FormData) => {
-    if (!onSave) return
-
-    setSaveState(prev => ({ ...prev, isSaving: true, saveError: null }))
-
-    try {
-      await onSave(stepId, stepData)
-      setSaveState(prev => ({
-        ...prev,
-        isSaving: false,
-        lastSaveTime: new Date(),
-        saveError: null,
-      }))
-    } catch (error) {
-      setSaveState(prev => ({
-        ...prev,
-        isSaving: false,
-        saveError: error instanceof Error ? error.message : 'Failed to save progress',
-      }))
-    }
-  }, [onSave])
+  }, [methods, onSubmit, passesGlobalRulesOnSubmit])
 
   // Handle auto-trigger functionality (unidirectional)
   const handleAutoTrigger = React.useCallback(
@@ -284,37 +205,42 @@ export function useRHFConfigFormEngine({ config, onSubmit, defaultValues = {}, o
 
   const stepNavigationProps = React.useMemo(
     () => ({
-      currentStep: currentVisiblePos,
-      totalSteps,
+      currentStep: nav.currentVisiblePos,
+      totalSteps: nav.totalSteps,
       canGoNext: true,
-      canGoPrevious: currentVisiblePos > 0,
+      canGoPrevious: nav.canGoPrevious,
       onNext: next,
       onPrevious: previous,
       onStepClick: goTo,
-      steps: visibleSteps,
+      steps: nav.visibleSteps,
       isSubmitting: methods.formState.isSubmitting,
       isSaving: saveState.isSaving,
       onSubmit: submit,
     }),
-    [currentVisiblePos, totalSteps, next, previous, goTo, visibleSteps, methods.formState.isSubmitting, saveState.isSaving, submit],
+    [nav, next, previous, goTo, methods.formState.isSubmitting, saveState.isSaving, submit],
   )
 
   const isFieldVisible = React.useCallback(
-    (field) => evaluateConditions(field.conditions, methods.getValues() as FormData),
-    [evaluateConditions, _watchedConditionValues, methods],
+    (field) => core.isVisible(field.conditions, { ...getValues(), ...conditionValues }),
+    [core, getValues, conditionValues],
   )
 
+  const getReviewSummary = React.useCallback(() => core.getReviewSummary(getValues()), [core, getValues])
+
   return {
     methods,
     config,
-    currentStepIndex,
-    setCurrentStepIndex,
+    currentStepIndex: nav.currentStepIndex,
+    setCurrentStepIndex: nav.setCurrentStepIndex,
     currentStep,
-    totalSteps,
+    totalSteps: nav.totalSteps,
     visibleFields,
     isFieldVisible,
+    isReviewStep: isReviewStep(currentStep),
+    getReviewSummary,
+    prefilledValues,
     canGoNext: true,
-    canGoPrevious: currentVisiblePos > 0,
+    canGoPrevious: nav.canGoPrevious,
     next,
     previous,
     goTo,
@@ -322,6 +248,7 @@ export function useRHFConfigFormEngine({ config, onSubmit, defaultValues = {}, o
     submit,
     saveState,
     saveStepData,
+    isRestoringDraft,
     handleAutoTrigger,
     stepNavigationProps,
   }
@@ -6,13 +6,20 @@ export { SinglePageFormRenderer } from "./SinglePageFormRenderer";
 export { RHFFormField } from "./RHFFormField";
 export { VerticalStepList } from "./VerticalStepList";
 export { SaveStatusIndicator } from "./SaveStatusIndicator";
-export { DynamicFormPage } from "./DynamicFormPage";
+export { DynamicRHFFormPage } from "./DynamicRHFFormPage";
 
 // Engine and Types
 export { useRHFConfigFormEngine } from "./engine/useRHFConfigFormEngine";
-export { useNavigationEngine } from "./engine/useNavigationEngine";
-export type { RHFFormEngine, RHFFormEngineOptions, SaveState, SaveConfig } from "./engine/types";
-export type { NavigationEngine } from "./engine/useNavigationEngine";
+export { useNavigationEngine } from "../core";
+export { usePhaseEngine, buildPhases } from "../core";
+export { registerPhaseRenderer, getPhaseRenderer } from "./phases/registry";
+export type {
+  RHFFormEngine,
+  RHFFormEngineOptions,
+  SaveState,
+  SaveConfig,
+} from "./engine/types";
+export type { NavigationEngine, PhaseEngine, PhaseEntry, PhaseRenderer, PhaseRendererProps } from "../core";
 
 // Validation utilities
 export { createRHFFieldValidator, validators } from "./validation";
@@ -31,4 +38,4 @@ export type {
   FormStep,
   FormConfig,
   FormData,
-} from "../tanstackform/types";
+} from "../core/types";
@@ -0,0 +1,136 @@
+import * as React from 'react'
+import { FormProvider, useForm, type UseFormReturn } from 'react-hook-form'
+import { Button } from '@/components/ui/button'
+import type { FormData } from '../../core/types'
+import { PricerPanel } from '../../tanstackform/PricerPanel'
+import { isOneClickChoice } from '../../core/fieldTypes'
+import { RHFFormField } from '../RHFFormField'
+import { cn } from '@/lib/utils'
+import { createFormCore, evaluateConditions, type PhaseRendererProps } from '../../core'
+
+/**
+ * One question (step) at a time, rendered and validated like the fields of a stepped RHF form;
+ * one-click answers auto-advance once they pass. Previous on the first question leaves the phase.
+ */
+export function QuestionWizardPhase({ config, steps, values, mergeValues, entry, onComplete, onBack }: PhaseRendererProps) {
+  const core = React.useMemo(() => createFormCore(config), [config])
+  // Seeded once from the shared value store, then mirrored into it
+  const [initialValues] = React.useState(values)
+  const methods = useForm({
+    defaultValues: initialValues,
+    mode: 'onChange',
+    reValidateMode: 'onChange',
+  }) as UseFormReturn<FormData>
+
+  const visibleQuestionIndexes = React.useMemo(() => {
+    const idxs: number[] = []
+    steps.forEach((step, i) => {
+      if (evaluateConditions(step.conditions, values)) idxs.push(i)
+    })
+    return idxs
+  }, [steps, values])
+
+  // Coming back from a later phase resumes at the last question
+  const [qIndex, setQIndex] = React.useState(() => (entry === 'end' ? Math.max(visibleQuestionIndexes.length - 1, 0) : 0))
+
+  const currentQuestionStep = React.useMemo(() => {
+    const actualIdx = visibleQuestionIndexes[qIndex] ?? -1
+    return actualIdx >= 0 ? steps[actualIdx] : undefined
+  }, [qIndex, steps, visibleQuestionIndexes])
+
+  const isLastQuestion = qIndex >= visibleQuestionIndexes.length - 1
+  const stepIndex = currentQuestionStep ? core.getStepIndexById(currentQuestionStep.id) : -1
+  const visibleFields = stepIndex >= 0 ? core.getVisibleFields(stepIndex, values) : []
+
+  // Same checks as a step's Next: the question's planned fields, then global rules landing on it
+  const goNext = async () => {
+    if (stepIndex >= 0) {
+      const plan = core.planStepValidation(visibleFields, methods.getValues())
+      if (!(await methods.trigger(plan.fieldNames))) return
+      const ruleErrors = core.checkStepRules(methods.getValues(), stepIndex, plan)
+      for (const [name, message] of ruleErrors) {
+        methods.setError(name, { type: 'globalRule', message })
+      }
+      if (ruleErrors.size > 0) return
+    }
+    if (isLastQuestion) onComplete()
+    else setQIndex((i) => i + 1)
+  }
+
+  // Latest question state for the value subscription below
+  const goNextRef = React.useRef(goNext)
+  const visibleFieldsRef = React.useRef(visibleFields)
+  React.useEffect(() => {
+    goNextRef.current = goNext
+    visibleFieldsRef.current = visibleFields
+  })
+
+  // Mirror answers into the shared store; one-click answers advance on their own
+  React.useEffect(() => {
+    const subscription = methods.watch((next, { name, type }) => {
+      mergeValues(next as FormData)
+      const field = type === 'change' && name ? visibleFieldsRef.current.find((f) => f.name === name) : undefined
+      if (field && isOneClickChoice(field)) void goNextRef.current()
+    })
+    return () => subscription.unsubscribe()
+  }, [methods, mergeValues])
+
+  const handleAutoTrigger = React.useCallback(
+    (_sourceField: string, _sourceValue: unknown, targetField: string, targetValue: unknown) => {
+      methods.setValue(targetField, targetValue, { shouldValidate: false, shouldDirty: true })
+    },
+    [methods]
+  )
+
+  const goPrev = () => {
+    if (qIndex > 0) setQIndex((i) => i - 1)
+    else onBack?.()
+  }
+
+  if (!currentQuestionStep) {
+    return (
+      <div className="space-y-4">
+        <div className="text-muted-foreground">No qualifying questions to answer.</div>
+        <div className="flex items-center justify-between">
+          <Button variant="outline" onClick={onBack} disabled={!onBack}>
+            Previous
+          </Button>
+          <Button onClick={() => onComplete()}>Continue</Button>
+        </div>
+      </div>
+    )
+  }
+
+  const showPricer = Boolean(currentQuestionStep.showPricer && config.pricing)
+
+  return (
+    <div className={cn(showPricer && 'grid gap-6 items-start lg:grid-cols-[1fr_18rem]')}>
+      <div className="space-y-6">
+        <div>
+          <div className="text-sm text-muted-foreground">
+            {currentQuestionStep.category ? `${currentQuestionStep.category} · ` : ''}Question {qIndex + 1} of{' '}
+            {visibleQuestionIndexes.length}
+          </div>
+          <h2 className="text-2xl font-semibold">{currentQuestionStep.name}</h2>
+          <p className="text-muted-foreground">{currentQuestionStep.description}</p>
+        </div>
+
+        <FormProvider {...methods}>
+          <div className="grid grid-cols-12 gap-4">
+            {visibleFields.map((field) => (
+              <RHFFormField key={field.id} field={field} onAutoTrigger={handleAutoTrigger} />
+            ))}
+          </div>
+        </FormProvider>
+
+        <div className="flex items-center justify-between pt-2">
+          <Button variant="outline" onClick={goPrev} disabled={qIndex === 0 && !onBack}>
+            Previous
+          </Button>
+          <Button onClick={() => void goNext()}>{isLastQuestion ? 'Continue to Application' : 'Next'}</Button>
+        </div>
+      </div>
+      {showPricer && <PricerPanel config={config} values={values} />}
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+import * as React from 'react'
+import { RHFConfigFormRenderer } from '../RHFConfigFormRenderer'
+import type { FormData } from '../../core/types'
+import type { PhaseRendererProps } from '../../core'
+
+/**
+ * Stepped RHF form over the phase's steps, seeded from and mirrored into the shared value store.
+ * Submitting completes the phase, or submits the whole flow when this is the last phase.
+ */
+export function TraditionalPhase({
+  config,
+  steps,
+  values,
+  mergeValues,
+  entry,
+  isLastPhase,
+  onComplete,
+  onBack,
+  onSubmit,
+}: PhaseRendererProps) {
+  const phaseConfig = React.useMemo(() => ({ ...config, steps }), [config, steps])
+  // Seed once; afterwards the form owns its values and mirrors them outward
+  const [initialValues] = React.useState(values)
+
+  const handleSubmit = React.useCallback(
+    async (data: FormData) => {
+      if (isLastPhase) {
+        await onSubmit({ ...values, ...data })
+      } else {
+        onComplete(data)
+      }
+    },
+    [isLastPhase, onSubmit, onComplete, values]
+  )
+
+  return (
+    <RHFConfigFormRenderer
+      config={phaseConfig}
+      onSubmit={handleSubmit}
+      defaultValues={initialValues}
+      onBack={onBack}
+      onValuesChange={mergeValues}
+      startAtLastStep={entry === 'end'}
+      className="max-w-6xl"
+    />
+  )
+}
@@ -0,0 +1,25 @@
+import type { PhaseRenderer } from '../../core'
+import { SelectionPhase } from '../../tanstackform/phases/SelectionPhase'
+import { QuestionWizardPhase } from './QuestionWizardPhase'
+import { TraditionalPhase } from './TraditionalPhase'
+
+// Phase renderers keyed by FlowPhase.type
+const phaseRenderers: Record<string, PhaseRenderer> = {
+  selection: SelectionPhase,
+  wizard: QuestionWizardPhase,
+  traditional: TraditionalPhase,
+}
+
+export function registerPhaseRenderer(type: string, renderer: PhaseRenderer) {
+  phaseRenderers[type] = renderer
+}
+
+// Unknown phase types fall back to the traditional stepped form
+export function getPhaseRenderer(type: string): PhaseRenderer {
+  const renderer = phaseRenderers[type]
+  if (!renderer) {
+    console.warn(`No phase renderer registered for type "${type}", using traditional`)
+    return TraditionalPhase
+  }
+  return renderer
+}
@@ -0,0 +1,55 @@
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import type { FieldOption } from '../core/types'
+
+interface CheckboxGroupProps {
+  id: string
+  options: FieldOption[]
+  value: unknown
+  // `picked` is the option just checked (null when one was unchecked)
+  onChange: (value: string[], picked: string | null) => void
+  onBlur?: () => void
+  invalid?: boolean
+  describedBy?: string
+}
+
+/**
+ * One checkbox per option for `checkbox_group` fields; the value is the checked option values in option order.
+ */
+export function CheckboxGroup({ id, options, value, onChange, onBlur, invalid = false, describedBy }: CheckboxGroupProps) {
+  const selected = Array.isArray(value) ? value.map(String) : []
+
+  const toggle = (optionValue: string, checked: boolean) => {
+    const next = options
+      .map((option) => String(option.value))
+      .filter((v) => (v === optionValue ? checked : selected.includes(v)))
+    onChange(next, checked ? optionValue : null)
+  }
+
+  return (
+    <div id={id} role="group" aria-invalid={invalid || undefined} aria-describedby={describedBy} className="space-y-2">
+      {options.map((option) => {
+        const optionValue = String(option.value)
+        const optionId = `${id}-${optionValue}`
+        return (
+          <div key={optionValue} className="flex items-start space-x-2">
+            <Checkbox
+              id={optionId}
+              checked={selected.includes(optionValue)}
+              onChange={(e) => toggle(optionValue, e.target.checked)}
+              onBlur={onBlur}
+              variant={invalid ? 'error' : 'default'}
+              className="mt-0.5"
+            />
+            <div>
+              <Label htmlFor={optionId} className="text-sm font-normal">
+                {option.label}
+              </Label>
+              {option.description && <p className="text-xs text-muted-foreground">{option.description}</p>}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,32 @@
+import { Input } from '@/components/ui/input'
+import { formatComputedValue, useNumberFormat } from '../core'
+import type { ComputedField } from '../core/types'
+
+interface ComputedValueProps {
+  id: string
+  field: ComputedField
+  value: unknown
+  error?: string
+}
+
+/**
+ * Read-only output of a `computed` field; the engines keep the value up to date.
+ */
+export function ComputedValue({ id, field, value, error }: ComputedValueProps) {
+  const numberFormat = useNumberFormat()
+  return (
+    <Input
+      id={id}
+      name={field.name}
+      type="text"
+      value={formatComputedValue(field, value, numberFormat)}
+      placeholder={field.placeholder || '—'}
+      readOnly
+      tabIndex={-1}
+      className="bg-muted"
+      variant={error ? 'error' : 'default'}
+      aria-readonly="true"
+      aria-describedby={error ? `${id}-error` : undefined}
+    />
+  )
+}
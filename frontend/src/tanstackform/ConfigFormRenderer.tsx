@@ -1,120 +1,170 @@
 import * as React from "react"
 import { FormField } from "./FormField"
+import { RepeaterField } from "./RepeaterField"
+import { ReviewSummary } from "./ReviewSummary"
+import { PricerPanel } from "./PricerPanel"
+import { NumberFormatProvider } from "./NumberFormatProvider"
 import { StepNavigation } from "./StepNavigation"
 import { SaveStatusIndicator } from "./SaveStatusIndicator"
 import { cn } from "@/lib/utils"
-import type { FormConfig, FormData } from "./types"
+import type { FormConfig, FormData } from "../core/types"
 import { useConfigFormEngine } from './engine/useConfigFormEngine'
+import { isRepeaterField, type StepHistoryOptions } from '../core'
 
-interface ConfigFormRendererProps {
+interface ConfigFormRendererProps extends StepHistoryOptions {
   config: FormConfig
   onSubmit: (data: FormData) => void | Promise<void>
   defaultValues?: Partial<FormData>
   className?: string
+  // Draft session to restore from and save steps to
+  sessionId?: string
+  // Passed through to the engine; used when the form is one phase of a larger flow
+  onBack?: () => void
+  onValuesChange?: (values: FormData) => void
+  startAtLastStep?: boolean
 }
 
 export function ConfigFormRenderer({
   config,
   onSubmit,
   defaultValues = {},
-  className
+  className,
+  sessionId,
+  stepId,
+  onStepChange,
+  onBack,
+  onValuesChange,
+  startAtLastStep,
 }: ConfigFormRendererProps) {
   const renderCountRef = React.useRef(0)
   renderCountRef.current += 1
-  const engine = useConfigFormEngine({ config, onSubmit, defaultValues })
+  const engine = useConfigFormEngine({
+    config,
+    onSubmit,
+    defaultValues,
+    sessionId,
+    stepId,
+    onStepChange,
+    onBack,
+    onValuesChange,
+    startAtLastStep,
+  })
   const { form, currentStep, totalSteps, handleSubmit } = engine
 
   // Show save UI only if enabled in config
   const showSaveUI = config.saveConfig?.enabled
+  const showPricer = Boolean(currentStep.showPricer && config.pricing)
 
   return (
-    <div className={cn("w-full max-w-4xl mx-auto space-y-8", className)}>
-      {/* Form Header */}
-      <div className="text-center space-y-2">
-        <h1 className="text-3xl font-bold">{config.metadata.name}</h1>
-        <p className="text-muted-foreground">
-          Step {engine.stepNavigationProps.currentStep + 1} of {totalSteps}: {currentStep.name}
-        </p>
-        <p className="text-xs text-muted-foreground">Renders: {renderCountRef.current}</p>
+    <NumberFormatProvider config={config}>
+      <div className={cn("w-full max-w-4xl mx-auto space-y-8", className)}>
+        {/* Form Header */}
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl font-bold">{config.metadata.name}</h1>
+          <p className="text-muted-foreground">
+            Step {engine.stepNavigationProps.currentStep + 1} of {totalSteps}: {currentStep.name}
+          </p>
+          <p className="text-xs text-muted-foreground">Renders: {renderCountRef.current}</p>
 
-        {/* Step Save Indicator */}
-        {showSaveUI && (
-          <SaveStatusIndicator
-            saveState={engine.saveState}
-            onManualSave={() => engine.saveStepData(currentStep.id, form.state.values)}
-            showManualSave={config.saveConfig?.allowManualSave}
-          />
-        )}
-      </div>
+          {/* Step Save Indicator */}
+          {showSaveUI && (
+            <SaveStatusIndicator
+              saveState={engine.saveState}
+              onManualSave={() => engine.saveStepData(currentStep.id, form.state.values)}
+              showManualSave={config.saveConfig?.allowManualSave}
+            />
+          )}
+        </div>
 
-      {/* Form */}
-      <form
-        onSubmit={handleSubmit}
-        className="space-y-8"
-      >
-        {/* Current Step Fields */}
-        <div className="bg-card rounded-lg border p-6 space-y-6">
-          <div className="space-y-2">
-            <h2 className="text-xl font-semibold">{currentStep.name}</h2>
-            <p className="text-muted-foreground">{currentStep.description}</p>
-          </div>
+        {/* Form */}
+        <form
+          onSubmit={handleSubmit}
+          className="space-y-8"
+        >
+          {/* Current Step Fields, with the pricer beside them on showPricer steps */}
+          <div className={cn(showPricer && "grid gap-6 items-start lg:grid-cols-[1fr_18rem]")}>
+            <div className="bg-card rounded-lg border p-6 space-y-6">
+              <div className="space-y-2">
+                {currentStep.category && (
+                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">{currentStep.category}</p>
+                )}
+                <h2 className="text-xl font-semibold">{currentStep.name}</h2>
+                <p className="text-muted-foreground">{currentStep.description}</p>
+              </div>
 
-          <div className="grid grid-cols-12 gap-4">
-            {engine.visibleFields.map((field) => {
-              const validator = engine.getValidatorForField(field)
-              return (
-                <form.Field
-                  key={field.id}
-                  name={field.name}
-                  validators={{ onChange: validator }}
-                  children={(formField) => {
-                    const manualError = engine.attemptedNext && !formField.state.meta.isTouched
-                      ? engine.manualErrors.get(field.id)
-                      : undefined
+              {engine.isReviewStep ? (
+                <ReviewSummary sections={engine.getReviewSummary()} onEdit={(section) => engine.goTo(section.visibleIndex)} />
+              ) : (
+                <div className="grid grid-cols-12 gap-4">
+                  {engine.visibleFields.map((field) => {
+                    if (isRepeaterField(field)) {
+                      return <RepeaterField key={field.id} engine={engine} field={field} />
+                    }
+                    const validator = engine.getValidatorForField(field)
                     return (
-                      <FormField
-                        field={field}
-                        value={formField.state.value}
-                        onChange={formField.handleChange}
-                        onBlur={formField.handleBlur}
-                        error={formField.state.meta.errors?.[0] || manualError}
-                        isValidating={formField.state.meta.isValidating}
-                        onAutoTrigger={engine.handleAutoTrigger}
+                      <form.Field
+                        key={field.id}
+                        name={field.name}
+                        validators={{ onChange: validator }}
+                        children={(formField) => {
+                          const manualError = engine.attemptedNext && !formField.state.meta.isTouched
+                            ? engine.manualErrors.get(field.id)
+                            : undefined
+                          return (
+                            <FormField
+                              field={field}
+                              value={formField.state.value}
+                              values={form.state.values}
+                              onChange={formField.handleChange}
+                              onBlur={formField.handleBlur}
+                              error={formField.state.meta.errors?.[0] || manualError || engine.globalErrors.get(field.name)}
+                              isValidating={formField.state.meta.isValidating}
+                              onAutoTrigger={engine.handleAutoTrigger}
+                              prefilledValue={engine.prefilledValues[field.name]}
+                            />
+                          )
+                        }}
                       />
                     )
-                  }}
-                />
-              )
-            })}
+                  })}
+                </div>
+              )}
+            </div>
+            {showPricer && (
+              <form.Subscribe
+                selector={(state: { values: FormData }) => state.values}
+                children={(values: FormData) => <PricerPanel config={config} values={values} />}
+              />
+            )}
           </div>
-        </div>
 
-        {/* Step Navigation */}
-        <StepNavigation {...engine.stepNavigationProps} />
+          {/* Step Navigation */}
+          <StepNavigation {...engine.stepNavigationProps} />
 
-        {/* Form State Debug (Development only) */}
-        {process.env.NODE_ENV === 'development' && (
-          <details className="bg-muted p-4 rounded-lg">
-            <summary className="cursor-pointer font-semibold">
-              Debug: Form State
-            </summary>
-            <pre className="mt-2 text-xs overflow-auto">
-              {JSON.stringify(
-                {
-                  renderCount: renderCountRef.current,
-                  currentStep: engine.currentStepIndex,
-                  values: form.state.values,
-                  errors: form.state.errors,
-                  isValid: form.state.isValid,
-                  canSubmit: form.state.canSubmit,
-                },
-                null,
-                2
-              )}
-            </pre>
-          </details>
-        )}
-      </form>
-    </div>
+          {/* Form State Debug (Development only) */}
+          {process.env.NODE_ENV === 'development' && (
+            <details className="bg-muted p-4 rounded-lg">
+              <summary className="cursor-pointer font-semibold">
+                Debug: Form State
+              </summary>
+              <pre className="mt-2 text-xs overflow-auto">
+                {JSON.stringify(
+                  {
+                    renderCount: renderCountRef.current,
+                    currentStep: engine.currentStepIndex,
+                    values: form.state.values,
+                    errors: form.state.errors,
+                    isValid: form.state.isValid,
+                    canSubmit: form.state.canSubmit,
+                  },
+                  null,
+                  2
+                )}
+              </pre>
+            </details>
+          )}
+        </form>
+      </div>
+    </NumberFormatProvider>
   )
 }
@@ -1,16 +1,21 @@
 import * as React from 'react'
 import { useParams, Link } from 'react-router-dom'
-import jsonLogic from 'json-logic-js'
 import { fetchFormConfig, submitForm } from '../api/formConfig'
-import type { FormConfig as ApiFormConfig } from '../api/formConfig'
+import type { FormConfig } from '../core/types'
+import { isChoiceField } from '../core/fieldTypes'
+import { useDraftSession } from '../lib/draftSession'
+import { usePrefillPipeline } from '../lib/prefill'
+import { PrefillPanel } from '../components/PrefillPanel'
+import { useStepRoute } from '../lib/stepRoute'
 import { ConfigFormRenderer } from './ConfigFormRenderer'
 import { WizardFlowRenderer } from './WizardFlowRenderer'
 import { VerticalConfigFormRenderer } from './VerticalConfigFormRenderer'
 import { SinglePageFormRenderer } from './SinglePageFormRenderer'
+import { createConditionsEvaluator } from '../core'
 
 type FlowBehavior = 'linear' | 'multi-flow' | 'wizard-flow' | 'hybrid-flow' | 'single-flow'
 
-function detectFlowBehavior(config: ApiFormConfig): FlowBehavior {
+function detectFlowBehavior(config: FormConfig): FlowBehavior {
   if (!config.flowConfig) return 'linear'
   switch (config.flowConfig.type) {
     case 'single':
@@ -27,17 +32,12 @@ function detectFlowBehavior(config: ApiFormConfig): FlowBehavior {
   }
 }
 
-function pruneConfigByFlow(config: ApiFormConfig, selectionField: string, selectionValue: string): ApiFormConfig {
+function pruneConfigByFlow(config: FormConfig, selectionField: string, selectionValue: string): FormConfig {
   const context: Record<string, any> = { [selectionField]: selectionValue }
+  const evaluateConditions = createConditionsEvaluator(config.conditionPolicy)
   const prunedSteps = config.steps.filter((step) => {
     if (step.id === config.flowSelection?.step) return false
-    if (!step.conditions || step.conditions.length === 0) return true
-    try {
-      return step.conditions.every((rule) => Boolean(jsonLogic.apply(rule as any, context)))
-    } catch {
-      // If evaluation fails, keep step conservative
-      return true
-    }
+    return evaluateConditions(step.conditions, context)
   })
 
   return {
@@ -46,14 +46,25 @@ function pruneConfigByFlow(config: ApiFormConfig, selectionField: string, select
   }
 }
 
+// MULTI_FLOW selection field and the flow picked in the URL (null unless it is one of the field's options)
+function getFlowSelection(config: FormConfig, getFlow: (fieldName: string | undefined) => string | null) {
+  const stepId = config.flowConfig?.selectionStep?.stepId || config.flowSelection?.step
+  const fieldName = config.flowConfig?.selectionStep?.fieldName || config.flowSelection?.field
+  const step = config.steps.find((s) => s.id === stepId)
+  const field = step?.fields.filter(isChoiceField).find((f) => f.name === fieldName)
+  const requestedFlow = getFlow(fieldName)
+  const selectedFlow = field?.options?.some((opt) => String(opt.value) === requestedFlow) ? requestedFlow : null
+  return { fieldName, field, selectedFlow }
+}
+
 export function DynamicFormPage() {
   const { formId } = useParams<{ formId: string }>()
-  const [config, setConfig] = React.useState<ApiFormConfig | null>(null)
+  const [config, setConfig] = React.useState<FormConfig | null>(null)
   const [loading, setLoading] = React.useState(true)
   const [error, setError] = React.useState<string | null>(null)
 
-  // MULTI_FLOW_FORM selection state
-  const [selectedFlow, setSelectedFlow] = React.useState<string | null>(null)
+  // Current step and MULTI_FLOW_FORM selection live in the URL
+  const stepRoute = useStepRoute(`/tanstack/form/${formId}`)
 
   React.useEffect(() => {
     let mounted = true
@@ -78,6 +89,21 @@ export function DynamicFormPage() {
     }
   }, [formId])
 
+  // Drafts are only kept for forms with step saving enabled; the renderer restores them
+  const { sessionId, endSession } = useDraftSession(formId, Boolean(config?.saveConfig?.enabled))
+
+  // URL params < loan JSON; renderers remount when loan data is applied
+  const prefill = usePrefillPipeline({ formId, config })
+
+  // Pruned once per flow, so the renderer's config only changes when the selection does
+  const flowSelection = config ? getFlowSelection(config, stepRoute.getFlow) : null
+  const selectionFieldName = flowSelection?.fieldName
+  const selectedFlow = flowSelection?.selectedFlow ?? null
+  const prunedConfig = React.useMemo(
+    () => (config && selectionFieldName && selectedFlow ? pruneConfigByFlow(config, selectionFieldName, selectedFlow) : null),
+    [config, selectionFieldName, selectedFlow]
+  )
+
   const handleSubmit = async (data: Record<string, any>) => {
     try {
       console.log('TanStack submitting:', { formId, data })
@@ -86,7 +112,8 @@ export function DynamicFormPage() {
         throw new Error('Form ID is required for submission')
       }
 
-      const result = await submitForm(formId, data)
+      const result = await submitForm(formId, data, sessionId)
+      endSession()
       console.log('Form submission result:', result)
       alert(`Form submitted successfully! Check console for details.\nTimestamp: ${result.timestamp}`)
     } catch (error) {
@@ -133,23 +160,23 @@ export function DynamicFormPage() {
 
   const behavior = detectFlowBehavior(config)
 
+  const prefillPanel = (
+    <PrefillPanel onApply={prefill.applyLoanData} sources={prefill.sources} error={prefill.error} className="max-w-6xl" />
+  )
+
   if (behavior === 'linear') {
     return (
       <div className="min-h-screen bg-background p-6">
-        <ConfigFormRenderer config={config as any} onSubmit={handleSubmit} defaultValues={{}} className="max-w-6xl" />
+        {prefillPanel}
+        <ConfigFormRenderer config={config} onSubmit={handleSubmit} key={prefill.version} defaultValues={prefill.values} sessionId={sessionId} stepId={stepRoute.stepId} onStepChange={stepRoute.onStepChange} className="max-w-6xl" />
       </div>
     )
   }
 
   if (behavior === 'multi-flow') {
-    const selectionStepId = config.flowConfig?.selectionStep?.stepId || config.flowSelection?.step
-    const selectionFieldName = config.flowConfig?.selectionStep?.fieldName || config.flowSelection?.field
-    const selectionStep = config.steps.find((s) => s.id === selectionStepId)
-    const selectionField = selectionStep?.fields.find((f) => f.name === selectionFieldName)
-
-    if (!selectedFlow) {
+    if (!prunedConfig || !selectedFlow || !selectionFieldName) {
       // Phase 1: flow selection cards
-      const options = selectionField?.options || []
+      const options = flowSelection?.field?.options || []
       return (
         <div className="min-h-screen bg-background p-6">
           <div className="max-w-4xl mx-auto space-y-6">
@@ -161,7 +188,7 @@ export function DynamicFormPage() {
               {options.map((opt) => (
                 <button
                   key={opt.value}
-                  onClick={() => setSelectedFlow(String(opt.value))}
+                  onClick={() => stepRoute.selectFlow(selectionFieldName!, String(opt.value))}
                   className="text-left border rounded-lg p-4 hover:border-primary transition-colors bg-card"
                 >
                   <div className="font-semibold">{opt.label}</div>
@@ -175,10 +202,10 @@ export function DynamicFormPage() {
     }
 
     // Phase 2: pruned config based on selected flow
-    const pruned = selectionFieldName ? pruneConfigByFlow(config, selectionFieldName, selectedFlow) : config
     return (
       <div className="min-h-screen bg-background p-6">
-        <ConfigFormRenderer config={pruned as any} onSubmit={handleSubmit} defaultValues={{ [selectionFieldName!]: selectedFlow }} className="max-w-6xl" />
+        {prefillPanel}
+        <ConfigFormRenderer config={prunedConfig} onSubmit={handleSubmit} key={prefill.version} defaultValues={{ ...prefill.values, [selectionFieldName]: selectedFlow }} sessionId={sessionId} stepId={stepRoute.stepId} onStepChange={stepRoute.onStepChange} className="max-w-6xl" />
       </div>
     )
   }
@@ -186,7 +213,8 @@ export function DynamicFormPage() {
   if (behavior === 'wizard-flow') {
     return (
       <div className="min-h-screen bg-background p-6">
-        <WizardFlowRenderer config={config as any} onSubmit={handleSubmit} defaultValues={{}} className="max-w-6xl" />
+        {prefillPanel}
+        <WizardFlowRenderer config={config} onSubmit={handleSubmit} key={prefill.version} defaultValues={prefill.values} className="max-w-6xl" />
       </div>
     )
   }
@@ -194,7 +222,8 @@ export function DynamicFormPage() {
   if (behavior === 'single-flow') {
     return (
       <div className="min-h-screen bg-background p-6">
-        <SinglePageFormRenderer config={config as any} onSubmit={handleSubmit} defaultValues={{}} className="max-w-6xl" />
+        {prefillPanel}
+        <SinglePageFormRenderer config={config} onSubmit={handleSubmit} key={prefill.version} defaultValues={prefill.values} className="max-w-6xl" />
       </div>
     )
   }
@@ -202,7 +231,8 @@ export function DynamicFormPage() {
   // Wizard/hybrid fallback to horizontal
   return (
     <div className="min-h-screen bg-background p-6">
-      <ConfigFormRenderer config={config as any} onSubmit={handleSubmit} defaultValues={{}} className="max-w-6xl" />
+      {prefillPanel}
+      <ConfigFormRenderer config={config} onSubmit={handleSubmit} key={prefill.version} defaultValues={prefill.values} sessionId={sessionId} stepId={stepRoute.stepId} onStepChange={stepRoute.onStepChange} className="max-w-6xl" />
     </div>
   )
 }
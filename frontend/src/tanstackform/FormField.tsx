@@ -5,23 +5,37 @@ import { Textarea } from "@/components/ui/textarea"
 import { Checkbox } from "@/components/ui/checkbox"
 import { Select } from "@/components/ui/select"
 import { cn } from "@/lib/utils"
-import type { FormField as FormFieldType, FormFieldProps } from "./types"
+import { StaticField } from "./StaticField"
+import { ComputedValue } from "./ComputedValue"
+import { OptionsStatus } from "./OptionsStatus"
+import { OptionList } from "./OptionList"
+import { CheckboxGroup } from "./CheckboxGroup"
+import { TagInput } from "./TagInput"
+import { PrefillHint } from "./PrefillHint"
+import { NumberInput } from "./NumberInput"
+import { InputAdornments } from "./InputAdornments"
+import { useFieldOptions } from "../core"
+import { isStaticField } from "../core/staticFields"
+import { getInputAdornments, isNumberField } from "../core/fieldTypes"
+import type { FormField as FormFieldType, FormFieldProps } from "../core/types"
 
-export function FormField({ field, value, onChange, onBlur, error, isValidating, onAutoTrigger }: FormFieldProps) {
+export function FormField({ field, value, values, onChange, onBlur, error, isValidating, onAutoTrigger, prefilledValue }: FormFieldProps) {
   // Ensure error is a string, not an object
   const errorMessage = typeof error === 'string' ? error : undefined
   const fieldId = `field-${field.id}`
 
-  const normalizedType = String(field.type || '').toLowerCase()
+  // Static options filtered by their conditions, or options loaded from `optionsSource`
+  const optionsState = useFieldOptions(field, values || {})
 
   // Helper function to handle field changes with auto-triggers
-  const handleChangeWithAutoTrigger = React.useCallback((newValue: any) => {
+  // (multi-select fields trigger on the option just picked)
+  const handleChangeWithAutoTrigger = React.useCallback((newValue: any, triggerKey: unknown = newValue) => {
     // First, update the current field value
     onChange(newValue)
 
     // Then check for auto-triggers (only on user interaction)
-    if (field.autoTriggers && onAutoTrigger) {
-      const trigger = field.autoTriggers[newValue]
+    if ('autoTriggers' in field && field.autoTriggers && onAutoTrigger) {
+      const trigger = field.autoTriggers[String(triggerKey)]
       if (trigger) {
         // Execute the auto-trigger
         onAutoTrigger(field.name, newValue, trigger.field, trigger.value)
@@ -29,23 +43,46 @@ export function FormField({ field, value, onChange, onBlur, error, isValidating,
     }
   }, [onChange, field, onAutoTrigger])
 
+  // Static content has no input, label, or error
+  if (isStaticField(field)) {
+    return <StaticField field={field} className={getGridClasses(field.grid)} />
+  }
+
   const renderField = () => {
-    switch (normalizedType) {
+    // number, integer, percentage, currency and `formType: "amount"` text fields
+    if (isNumberField(field)) {
+      return (
+        <NumberInput
+          id={fieldId}
+          field={field}
+          value={value}
+          onChange={onChange}
+          onBlur={onBlur}
+          placeholder={field.placeholder}
+          invalid={Boolean(errorMessage)}
+          describedBy={errorMessage ? `${fieldId}-error` : undefined}
+        />
+      )
+    }
+
+    switch (field.type) {
       case 'text':
       case 'email':
       case 'password':
         return (
-          <Input
-            id={fieldId}
-            name={field.name}
-            type={field.type}
-            placeholder={field.placeholder}
-            value={value || ''}
-            onChange={(e) => onChange(e.target.value)}
-            onBlur={onBlur}
-            variant={errorMessage ? 'error' : 'default'}
-            aria-describedby={errorMessage ? `${fieldId}-error` : undefined}
-          />
+          <InputAdornments {...getInputAdornments(field)}>
+            <Input
+              id={fieldId}
+              name={field.name}
+              type={field.type}
+              placeholder={field.placeholder}
+              value={value || ''}
+              onChange={(e) => onChange(e.target.value)}
+              onBlur={onBlur}
+              variant={errorMessage ? 'error' : 'default'}
+              aria-describedby={errorMessage ? `${fieldId}-error` : undefined}
+            />
+          </InputAdornments>
         )
 
       case 'phone':
@@ -86,36 +123,6 @@ export function FormField({ field, value, onChange, onBlur, error, isValidating,
           />
         )
 
-      case 'currency':
-        return (
-          <Input
-            id={fieldId}
-            name={field.name}
-            type="text"
-            placeholder={field.placeholder}
-            value={value || ''}
-            onChange={(e) => {
-              // Format currency as user types
-              let val = e.target.value.replace(/[^\d.]/g, '')
-              if (val) {
-                const num = parseFloat(val)
-                if (!isNaN(num)) {
-                  val = new Intl.NumberFormat('en-US', {
-                    style: 'currency',
-                    currency: 'USD',
-                    minimumFractionDigits: 0,
-                    maximumFractionDigits: 0,
-                  }).format(num)
-                }
-              }
-              onChange(val)
-            }}
-            onBlur={onBlur}
-            variant={errorMessage ? 'error' : 'default'}
-            aria-describedby={errorMessage ? `${fieldId}-error` : undefined}
-          />
-        )
-
       case 'textarea':
         return (
           <Textarea
@@ -152,7 +159,7 @@ export function FormField({ field, value, onChange, onBlur, error, isValidating,
       case 'radio':
         return (
           <div className="space-y-2">
-            {field.options?.map((option) => (
+            {optionsState.options.map((option) => (
               <div key={option.value} className="flex items-center space-x-2">
                 <input
                   type="radio"
@@ -174,36 +181,115 @@ export function FormField({ field, value, onChange, onBlur, error, isValidating,
                 </div>
               </div>
             ))}
+            <OptionsStatus state={optionsState} />
           </div>
         )
 
       case 'dropdown':
         return (
-          <Select
-            id={fieldId}
-            name={field.name}
-            value={value || ''}
-            onChange={(e) => handleChangeWithAutoTrigger(e.target.value)}
-            onBlur={onBlur}
-            variant={errorMessage ? 'error' : 'default'}
-            aria-describedby={errorMessage ? `${fieldId}-error` : undefined}
-          >
-            <option value="">{field.placeholder || 'Select an option...'}</option>
-            {field.options?.map((option) => (
-              <option key={option.value} value={option.value}>
-                {option.label}
-              </option>
-            ))}
-          </Select>
+          <>
+            <Select
+              id={fieldId}
+              name={field.name}
+              value={value || ''}
+              onChange={(e) => handleChangeWithAutoTrigger(e.target.value)}
+              onBlur={onBlur}
+              disabled={optionsState.isLoading || optionsState.isWaiting}
+              variant={errorMessage ? 'error' : 'default'}
+              aria-describedby={errorMessage ? `${fieldId}-error` : undefined}
+            >
+              <option value="">{field.placeholder || 'Select an option...'}</option>
+              {optionsState.options.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </Select>
+            <OptionsStatus state={optionsState} />
+          </>
         )
 
-      case 'label':
+      case 'options':
+      case 'options_cards':
         return (
-          <div className="text-sm text-muted-foreground">
-            {field.text || field.label}
-          </div>
+          <>
+            <OptionList
+              id={fieldId}
+              options={optionsState.options}
+              value={value}
+              onChange={(next, picked) => handleChangeWithAutoTrigger(next, picked)}
+              onBlur={onBlur}
+              variant={field.type === 'options_cards' ? 'cards' : 'list'}
+              multiple={field.multiple}
+              invalid={Boolean(errorMessage)}
+              describedBy={errorMessage ? `${fieldId}-error` : undefined}
+            />
+            <OptionsStatus state={optionsState} />
+          </>
         )
 
+      case 'multi_select': {
+        const selected: string[] = Array.isArray(value) ? value : []
+        return (
+          <>
+            <Select
+              id={fieldId}
+              name={field.name}
+              multiple
+              value={selected}
+              onChange={(e) => {
+                const next = Array.from(e.target.selectedOptions, (option) => option.value)
+                handleChangeWithAutoTrigger(next, next.find((v) => !selected.includes(v)) ?? null)
+              }}
+              onBlur={onBlur}
+              disabled={optionsState.isLoading || optionsState.isWaiting}
+              variant={errorMessage ? 'error' : 'default'}
+              aria-describedby={errorMessage ? `${fieldId}-error` : undefined}
+              className="h-auto min-h-24"
+            >
+              {optionsState.options.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </Select>
+            <OptionsStatus state={optionsState} />
+          </>
+        )
+      }
+
+      case 'checkbox_group':
+        return (
+          <>
+            <CheckboxGroup
+              id={fieldId}
+              options={optionsState.options}
+              value={value}
+              onChange={(next, picked) => handleChangeWithAutoTrigger(next, picked)}
+              onBlur={onBlur}
+              invalid={Boolean(errorMessage)}
+              describedBy={errorMessage ? `${fieldId}-error` : undefined}
+            />
+            <OptionsStatus state={optionsState} />
+          </>
+        )
+
+      case 'tag_input':
+        return (
+          <TagInput
+            id={fieldId}
+            value={value}
+            onChange={onChange}
+            onBlur={onBlur}
+            placeholder={field.placeholder}
+            invalid={Boolean(errorMessage)}
+            describedBy={errorMessage ? `${fieldId}-error` : undefined}
+          />
+        )
+
+      case 'computed':
+        return <ComputedValue id={fieldId} field={field} value={value} error={errorMessage} />
+
       default:
         // Unknown types: don't render an input
         return null
@@ -211,7 +297,7 @@ export function FormField({ field, value, onChange, onBlur, error, isValidating,
   }
 
   // For checkbox fields, we don't show a separate label since it's built into the field
-  const showLabel = normalizedType !== 'checkbox' && normalizedType !== 'label'
+  const showLabel = field.type !== 'checkbox'
 
   return (
     <div className={cn("space-y-2", getGridClasses(field.grid))}>
@@ -228,6 +314,8 @@ export function FormField({ field, value, onChange, onBlur, error, isValidating,
         <p className="text-xs text-muted-foreground">{field.helpText}</p>
       )}
 
+      <PrefillHint value={value} prefilledValue={prefilledValue} />
+
       {isValidating && (
         <p className="text-xs text-muted-foreground">Validating...</p>
       )}
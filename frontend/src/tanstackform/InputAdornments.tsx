@@ -0,0 +1,33 @@
+import * as React from 'react'
+import { cn } from '@/lib/utils'
+
+interface InputAdornmentsProps {
+  start?: string
+  end?: string
+  children: React.ReactNode
+}
+
+const adornmentClass = 'inline-flex shrink-0 items-center border border-input bg-muted px-3 text-sm text-muted-foreground'
+
+/**
+ * Text attached before and after an input (`inputProps.startAdornment` / `endAdornment`, e.g. "$" or "%").
+ * Renders the input alone when there is neither.
+ */
+export function InputAdornments({ start, end, children }: InputAdornmentsProps) {
+  if (!start && !end) return <>{children}</>
+  return (
+    <div className={cn('flex', start && '[&>input]:rounded-l-none', end && '[&>input]:rounded-r-none')}>
+      {start && (
+        <span aria-hidden="true" className={cn(adornmentClass, 'rounded-l-md border-r-0')}>
+          {start}
+        </span>
+      )}
+      {children}
+      {end && (
+        <span aria-hidden="true" className={cn(adornmentClass, 'rounded-r-md border-l-0')}>
+          {end}
+        </span>
+      )}
+    </div>
+  )
+}
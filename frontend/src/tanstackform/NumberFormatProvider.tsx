@@ -0,0 +1,13 @@
+import * as React from 'react'
+import { resolveNumberFormat } from '../../../shared/numbers/numberFormat.mjs'
+import { NumberFormatContext } from '../core'
+import type { FormConfig } from '../core/types'
+
+/**
+ * Gives the fields below the form's `numberFormat` (locale and currency; en-US / USD when unset).
+ */
+export function NumberFormatProvider({ config, children }: { config: Pick<FormConfig, 'numberFormat'>; children: React.ReactNode }) {
+  const { locale, currency } = config.numberFormat || {}
+  const numberFormat = React.useMemo(() => resolveNumberFormat({ numberFormat: { locale, currency } }), [locale, currency])
+  return <NumberFormatContext value={numberFormat}>{children}</NumberFormatContext>
+}
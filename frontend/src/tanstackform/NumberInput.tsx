@@ -0,0 +1,75 @@
+import * as React from 'react'
+import { Input } from '@/components/ui/input'
+import {
+  formatNumberValue,
+  getNumberAdornments,
+  getNumericType,
+  parseNumberInput,
+} from '../../../shared/numbers/numberFormat.mjs'
+import { useNumberFormat } from '../core'
+import { InputAdornments } from './InputAdornments'
+import type { NumberField } from '../core/types'
+
+interface NumberInputProps {
+  id: string
+  field: NumberField
+  value: unknown
+  onChange: (value: number | null) => void
+  onBlur?: () => void
+  placeholder?: string
+  invalid?: boolean
+  describedBy?: string
+}
+
+/**
+ * Input for numeric fields (number, integer, percentage, currency, `formType: "amount"`).
+ * Typing stores the parsed number (null while empty); the text is shown grouped in the form's locale
+ * once the input loses focus. ArrowUp / ArrowDown step the value within `min` / `max`.
+ */
+export function NumberInput({ id, field, value, onChange, onBlur, placeholder, invalid = false, describedBy }: NumberInputProps) {
+  const numberFormat = useNumberFormat()
+  // What the user typed, kept as-is while the input has focus
+  const [draft, setDraft] = React.useState<string | null>(null)
+  const { min, max, step = 1 } = field
+  const { start, end } = getNumberAdornments(field, numberFormat)
+  const format = (num: unknown) => formatNumberValue(field, num, numberFormat, { symbols: false })
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key !== 'ArrowUp' && event.key !== 'ArrowDown') return
+    event.preventDefault()
+    const current = parseNumberInput(field, draft ?? value, numberFormat) ?? min ?? 0
+    let next = current + (event.key === 'ArrowUp' ? step : -step)
+    if (typeof min === 'number') next = Math.max(next, min)
+    if (typeof max === 'number') next = Math.min(next, max)
+    // toPrecision drops float noise (0.1 + 0.2) before the field's own rounding
+    const stepped = parseNumberInput(field, Number(next.toPrecision(12)), numberFormat)
+    setDraft(format(stepped))
+    onChange(stepped)
+  }
+
+  return (
+    <InputAdornments start={start} end={end}>
+      <Input
+        id={id}
+        name={field.name}
+        type="text"
+        inputMode={getNumericType(field) === 'integer' ? 'numeric' : 'decimal'}
+        placeholder={placeholder}
+        value={draft ?? format(value)}
+        onFocus={() => setDraft(format(value))}
+        onChange={(e) => {
+          setDraft(e.target.value)
+          onChange(parseNumberInput(field, e.target.value, numberFormat))
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => {
+          setDraft(null)
+          onBlur?.()
+        }}
+        variant={invalid ? 'error' : 'default'}
+        aria-invalid={invalid || undefined}
+        aria-describedby={describedBy}
+      />
+    </InputAdornments>
+  )
+}
@@ -0,0 +1,106 @@
+import * as React from 'react'
+import { Check } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { getOptionIcon } from './optionIcons'
+import type { FieldOption } from '../core/types'
+
+interface OptionListProps {
+  id: string
+  options: FieldOption[]
+  value: unknown
+  // `picked` is the option just selected (null when a multi-select option was cleared)
+  onChange: (value: string | string[], picked: string | null) => void
+  onBlur?: () => void
+  // 'list': full-width buttons (`options`); 'cards': a grid of cards (`options_cards`)
+  variant?: 'list' | 'cards'
+  multiple?: boolean
+  invalid?: boolean
+  describedBy?: string
+}
+
+/**
+ * Button-list and card choice input for `options` / `options_cards` fields.
+ * Arrow keys, Home and End move between options; Space or Enter picks the focused one.
+ */
+export function OptionList({
+  id,
+  options,
+  value,
+  onChange,
+  onBlur,
+  variant = 'list',
+  multiple = false,
+  invalid = false,
+  describedBy,
+}: OptionListProps) {
+  const buttonRefs = React.useRef<(HTMLButtonElement | null)[]>([])
+  const selected = multiple ? (Array.isArray(value) ? value.map(String) : []) : value == null || value === '' ? [] : [String(value)]
+  // Roving tabindex: the first selected option (or the first option) is the one Tab lands on
+  const tabIndex = Math.max(options.findIndex((option) => selected.includes(String(option.value))), 0)
+
+  const pick = (optionValue: string) => {
+    if (!multiple) return onChange(optionValue, optionValue)
+    const isSelected = selected.includes(optionValue)
+    onChange(isSelected ? selected.filter((v) => v !== optionValue) : [...selected, optionValue], isSelected ? null : optionValue)
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent, index: number) => {
+    const last = options.length - 1
+    const target =
+      event.key === 'ArrowDown' || event.key === 'ArrowRight' ? (index === last ? 0 : index + 1)
+      : event.key === 'ArrowUp' || event.key === 'ArrowLeft' ? (index === 0 ? last : index - 1)
+      : event.key === 'Home' ? 0
+      : event.key === 'End' ? last
+      : -1
+    if (target < 0) return
+    event.preventDefault()
+    buttonRefs.current[target]?.focus()
+  }
+
+  return (
+    <div
+      id={id}
+      role={multiple ? 'group' : 'radiogroup'}
+      aria-invalid={invalid || undefined}
+      aria-describedby={describedBy}
+      className={cn(variant === 'cards' ? 'grid gap-3 sm:grid-cols-2' : 'space-y-2')}
+    >
+      {options.map((option, index) => {
+        const optionValue = String(option.value)
+        const isSelected = selected.includes(optionValue)
+        const Icon = option.icon ? getOptionIcon(option.icon) : undefined
+        return (
+          <button
+            key={optionValue}
+            ref={(el) => {
+              buttonRefs.current[index] = el
+            }}
+            type="button"
+            role={multiple ? 'checkbox' : 'radio'}
+            aria-checked={isSelected}
+            tabIndex={index === tabIndex ? 0 : -1}
+            onClick={() => pick(optionValue)}
+            onKeyDown={(e) => handleKeyDown(e, index)}
+            onBlur={onBlur}
+            className={cn(
+              'w-full text-left border rounded-lg transition-colors hover:border-primary focus:outline-none focus-visible:ring-2 focus-visible:ring-primary',
+              variant === 'cards' ? 'p-4 bg-card h-full' : 'p-3',
+              isSelected && 'border-primary bg-primary/5',
+              invalid && !isSelected && 'border-destructive',
+            )}
+          >
+            <div className={cn('flex gap-3', variant === 'cards' ? 'items-start' : 'items-center')}>
+              {Icon && <Icon className={cn('shrink-0 text-primary', variant === 'cards' ? 'h-6 w-6' : 'h-5 w-5')} />}
+              <div className="flex-1 min-w-0">
+                <div className="font-medium">{option.label}</div>
+                {variant === 'cards' && option.title && <div className="text-sm">{option.title}</div>}
+                {option.description && <div className="text-sm text-muted-foreground">{option.description}</div>}
+              </div>
+              {isSelected && <Check className="h-4 w-4 shrink-0 text-primary" aria-hidden="true" />}
+            </div>
+          </button>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,21 @@
+import type { FieldOptionsState } from '../core'
+
+/**
+ * Loading and error line for fields whose options come from an option source.
+ */
+export function OptionsStatus({ state }: { state: FieldOptionsState }) {
+  if (state.error) {
+    return (
+      <p className="text-xs text-destructive">
+        Couldn't load options.{' '}
+        <button type="button" className="underline" onClick={state.retry}>
+          Retry
+        </button>
+      </p>
+    )
+  }
+  if (state.isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading options...</p>
+  }
+  return null
+}
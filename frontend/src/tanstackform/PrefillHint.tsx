@@ -0,0 +1,9 @@
+import { isPrefilledValue } from '../core'
+
+/**
+ * "Prefilled" line for prefillFrom fields, shown while the field still holds the copied value.
+ */
+export function PrefillHint({ value, prefilledValue }: { value: unknown; prefilledValue: unknown }) {
+  if (!isPrefilledValue(value, prefilledValue)) return null
+  return <p className="text-xs text-muted-foreground">Prefilled from your earlier answer</p>
+}
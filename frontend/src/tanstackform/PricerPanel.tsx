@@ -0,0 +1,60 @@
+import { formatCurrency, resolveNumberFormat } from '../../../shared/numbers/numberFormat.mjs'
+import { usePricing } from '../core'
+import type { FormConfig, FormData } from '../core/types'
+
+/**
+ * Indicative rate and payment for the answers so far, shown beside steps with `showPricer`.
+ */
+export function PricerPanel({ config, values }: { config: FormConfig; values: FormData }) {
+  const { quote, isLoading, error } = usePricing(config, values, true)
+  const numberFormat = resolveNumberFormat(config)
+
+  return (
+    <aside className="bg-card rounded-lg border p-4 space-y-3 text-sm lg:sticky lg:top-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Your pricing</h3>
+        {isLoading && <span className="text-xs text-muted-foreground">Updating...</span>}
+      </div>
+
+      {error ? (
+        <p className="text-xs text-destructive">Couldn't load pricing.</p>
+      ) : !quote ? (
+        <p className="text-muted-foreground">Answer more questions to see pricing</p>
+      ) : !quote.eligible ? (
+        <p className="text-muted-foreground">{quote.reason || 'Not eligible for this program'}</p>
+      ) : (
+        <>
+          <div>
+            <div className="text-xs text-muted-foreground">Indicative rate</div>
+            <div className="text-2xl font-bold">{quote.rate?.toFixed(3)}%</div>
+          </div>
+          {quote.payment !== null && (
+            <div>
+              <div className="text-xs text-muted-foreground">Est. monthly payment</div>
+              <div className="text-lg font-semibold">{formatCurrency(quote.payment, numberFormat, 2)}</div>
+            </div>
+          )}
+          {quote.loanAmount !== null && (
+            <div className="text-xs text-muted-foreground">
+              {formatCurrency(quote.loanAmount, numberFormat, 2)} over {quote.termMonths / 12} years
+            </div>
+          )}
+          {quote.adjustments.length > 0 && (
+            <ul className="border-t pt-2 space-y-1">
+              {quote.adjustments.map((adjustment) => (
+                <li key={adjustment.label} className="flex justify-between text-xs">
+                  <span>{adjustment.label}</span>
+                  <span>
+                    {adjustment.rate > 0 ? '+' : ''}
+                    {adjustment.rate.toFixed(3)}%
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+      <p className="text-xs text-muted-foreground">Estimate only, not a rate lock.</p>
+    </aside>
+  )
+}
@@ -0,0 +1,66 @@
+import type { AnyFieldApi } from '@tanstack/react-form'
+import { useStore } from '@tanstack/react-store'
+import { FormField } from './FormField'
+import { RepeaterRows } from './RepeaterRows'
+import { createRepeaterRow, getRepeaterRowFields, getRequestedRowCount } from '../core'
+import type { FormEngine } from './engine/types'
+import type { FormData, RepeaterField as RepeaterFieldConfig } from '../core/types'
+
+interface RepeaterFieldProps {
+  engine: FormEngine
+  field: RepeaterFieldConfig
+}
+
+/**
+ * TanStack rendering of a `repeater`: one array field whose rows are rendered as
+ * nested fields named `<repeater>.<index>.<id>`, validated like any other field.
+ */
+export function RepeaterField({ engine, field }: RepeaterFieldProps) {
+  const { form } = engine
+  // Re-render with the rows (per-row conditions read them) rather than the whole form
+  const rows = useStore(form.store, (s) => (s as { values: FormData }).values[field.name])
+  const values = { ...(form.state.values as FormData), [field.name]: rows }
+
+  return (
+    <form.Field
+      name={field.name}
+      mode="array"
+      children={(arrayField: AnyFieldApi) => (
+        <RepeaterRows
+          field={field}
+          rowCount={Array.isArray(rows) ? rows.length : 0}
+          fixedCount={field.repeater && getRequestedRowCount(field.repeater, values)}
+          onAdd={() => arrayField.pushValue(createRepeaterRow(field.repeater))}
+          onRemove={(index) => arrayField.removeValue(index)}
+          onMove={(from, to) => arrayField.moveValue(from, to)}
+          error={engine.globalErrors.get(field.name)}
+          renderRow={(index) =>
+            getRepeaterRowFields(field, index, values).map((rowField) => (
+              <form.Field
+                key={rowField.id}
+                name={rowField.name}
+                validators={{ onChange: engine.getValidatorForField(rowField) }}
+                children={(formField: AnyFieldApi) => {
+                  const manualError = engine.attemptedNext && !formField.state.meta.isTouched
+                    ? engine.manualErrors.get(rowField.id)
+                    : undefined
+                  return (
+                    <FormField
+                      field={rowField}
+                      value={formField.state.value}
+                      values={values}
+                      onChange={formField.handleChange}
+                      onBlur={formField.handleBlur}
+                      error={formField.state.meta.errors?.[0] || manualError}
+                      isValidating={formField.state.meta.isValidating}
+                    />
+                  )
+                }}
+              />
+            ))
+          }
+        />
+      )}
+    />
+  )
+}
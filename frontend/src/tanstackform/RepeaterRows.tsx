@@ -0,0 +1,93 @@
+import * as React from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { formatRowLabel } from '../core'
+import type { RepeaterField } from '../core/types'
+
+interface RepeaterRowsProps {
+  field: RepeaterField
+  rowCount: number
+  // Row count set by the template's countExpression / countField; rows are not added or removed by hand
+  fixedCount?: number | null
+  // Stable React keys per row (defaults to the index)
+  rowKeys?: string[]
+  onAdd: () => void
+  onRemove: (index: number) => void
+  onMove: (from: number, to: number) => void
+  renderRow: (index: number) => React.ReactNode
+  error?: string
+}
+
+/**
+ * Rows of a `repeater` field with per-row headings and add / remove / reorder controls
+ * bounded by the template's minCount and maxCount, or fixed to the requested row count.
+ * Each engine renders the row fields.
+ */
+export function RepeaterRows({
+  field,
+  rowCount,
+  fixedCount,
+  rowKeys,
+  onAdd,
+  onRemove,
+  onMove,
+  renderRow,
+  error,
+}: RepeaterRowsProps) {
+  const tpl = field.repeater
+  const isFixed = fixedCount != null
+  const canAdd = !isFixed && rowCount < (tpl?.maxCount ?? Infinity)
+  const canRemove = !isFixed && rowCount > (tpl?.minCount ?? 0)
+
+  return (
+    <div className="col-span-12 space-y-4">
+      <Label>
+        {field.label}
+        {field.required && <span className="text-destructive ml-1">*</span>}
+      </Label>
+      {field.helpText && <p className="text-xs text-muted-foreground">{field.helpText}</p>}
+
+      {Array.from({ length: rowCount }, (_, index) => (
+        <fieldset key={rowKeys?.[index] ?? index} className="rounded-lg border p-4 space-y-4">
+          <div className="flex items-center justify-between gap-2">
+            <legend className="font-medium">{formatRowLabel(tpl, index)}</legend>
+            <div className="flex gap-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onMove(index, index - 1)}
+                disabled={index === 0}
+                aria-label={`Move ${formatRowLabel(tpl, index)} up`}
+              >
+                ↑
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onMove(index, index + 1)}
+                disabled={index === rowCount - 1}
+                aria-label={`Move ${formatRowLabel(tpl, index)} down`}
+              >
+                ↓
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => onRemove(index)} disabled={!canRemove}>
+                Remove
+              </Button>
+            </div>
+          </div>
+          <div className="grid grid-cols-12 gap-4">{renderRow(index)}</div>
+        </fieldset>
+      ))}
+
+      {canAdd && (
+        <Button type="button" variant="outline" size="sm" onClick={onAdd}>
+          Add {formatRowLabel(tpl, rowCount)}
+        </Button>
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
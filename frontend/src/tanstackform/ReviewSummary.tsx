@@ -0,0 +1,64 @@
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import type { ReviewSection } from '../core'
+
+interface ReviewSummaryProps {
+  sections: ReviewSection[]
+  // Jump back to a step; not offered for hidden steps
+  onEdit: (section: ReviewSection) => void
+}
+
+/**
+ * Read-only answers grouped by step, with Edit links, hidden-but-answered fields and
+ * unresolved errors. Used by the review step of every renderer.
+ */
+export function ReviewSummary({ sections, onEdit }: ReviewSummaryProps) {
+  const errorCount = sections.reduce((n, section) => n + section.items.filter((item) => item.error).length, 0)
+  const hiddenCount = sections.reduce((n, section) => n + section.items.filter((item) => item.hidden).length, 0)
+
+  return (
+    <div className="space-y-6">
+      {errorCount > 0 && (
+        <p className="rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+          {errorCount === 1 ? '1 answer needs' : `${errorCount} answers need`} attention before you submit.
+        </p>
+      )}
+      {hiddenCount > 0 && (
+        <p className="rounded-md border p-3 text-sm text-muted-foreground">
+          Some answers belong to questions that no longer apply. They are marked as hidden below.
+        </p>
+      )}
+
+      {sections.map((section) => (
+        <section key={section.stepId} className={cn('space-y-3', section.hidden && 'opacity-60')}>
+          <div className="flex items-center justify-between gap-2 border-b pb-2">
+            <h3 className="font-semibold">
+              {section.name}
+              {section.hidden && <span className="ml-2 text-xs font-normal text-muted-foreground">(hidden)</span>}
+            </h3>
+            {!section.hidden && (
+              <Button type="button" variant="link" size="sm" onClick={() => onEdit(section)}>
+                Edit
+              </Button>
+            )}
+          </div>
+
+          <dl className="grid grid-cols-12 gap-x-4 gap-y-2 text-sm">
+            {section.items.map((item) => (
+              <div key={item.name} className={cn('col-span-12 grid grid-cols-12 gap-4', item.hidden && 'opacity-60')}>
+                <dt className="col-span-5 text-muted-foreground">
+                  {item.label}
+                  {item.hidden && <span className="ml-1 text-xs">(hidden)</span>}
+                </dt>
+                <dd className="col-span-7">
+                  {item.value || <span className="text-muted-foreground">—</span>}
+                  {item.error && <p className="text-xs text-destructive">{item.error}</p>}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </section>
+      ))}
+    </div>
+  )
+}
@@ -12,7 +12,7 @@ function formatTimeAgo(date: Date): string {
   if (diffInSeconds < 86400) return `${Math.floor(diffInSeconds / 3600)} hr`
   return `${Math.floor(diffInSeconds / 86400)} day${Math.floor(diffInSeconds / 86400) > 1 ? 's' : ''}`
 }
-import type { SaveState } from "./types"
+import type { SaveState } from "../core/types"
 
 interface SaveStatusIndicatorProps {
   saveState: SaveState
@@ -0,0 +1,98 @@
+import * as React from 'react'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { cn } from '@/lib/utils'
+import type { StaticField as StaticFieldConfig } from '../core/types'
+
+interface StaticFieldProps {
+  field: StaticFieldConfig
+  className?: string
+}
+
+/**
+ * Display-only content (label, heading, paragraph, divider, info callout, markdown).
+ * The config `style` object is applied to the rendered element as inline styles.
+ */
+export function StaticField({ field, className }: StaticFieldProps) {
+  const style = field.style as React.CSSProperties | undefined
+  const text = field.text ?? field.label
+
+  switch (field.type) {
+    case 'heading': {
+      const Heading = `h${field.level || 3}` as 'h2' | 'h3' | 'h4'
+      return (
+        <Heading className={cn('text-lg font-semibold', className)} style={style}>
+          {text}
+        </Heading>
+      )
+    }
+
+    case 'paragraph':
+      return (
+        <p className={cn('text-sm text-muted-foreground', className)} style={style}>
+          {text}
+        </p>
+      )
+
+    case 'divider':
+      return <hr className={cn('border-border', className)} style={style} />
+
+    case 'info':
+      return (
+        <Alert className={className} style={style}>
+          {field.text && field.label && <AlertTitle>{field.label}</AlertTitle>}
+          <AlertDescription>{text}</AlertDescription>
+        </Alert>
+      )
+
+    case 'markdown':
+      return (
+        <div className={cn('space-y-2 text-sm', className)} style={style}>
+          {renderMarkdown(field.text || '')}
+        </div>
+      )
+
+    case 'label':
+    default:
+      return (
+        <div className={cn('text-sm text-muted-foreground', className)} style={style}>
+          {text}
+        </div>
+      )
+  }
+}
+
+// Minimal markdown: #-headings, -/* lists, paragraphs, **bold**, *italic*, `code`, [links](url)
+function renderMarkdown(source: string): React.ReactNode[] {
+  const blocks = source.trim().split(/\n\s*\n/)
+  return blocks.map((block, i) => {
+    const lines = block.split('\n')
+    const heading = /^(#{1,4})\s+(.*)$/.exec(lines[0])
+    if (heading && lines.length === 1) {
+      const Heading = `h${Math.min(heading[1].length + 1, 4)}` as 'h2' | 'h3' | 'h4'
+      return <Heading key={i} className="font-semibold">{renderInline(heading[2])}</Heading>
+    }
+    if (lines.every((line) => /^\s*[-*]\s+/.test(line))) {
+      return (
+        <ul key={i} className="list-disc pl-5 space-y-1">
+          {lines.map((line, j) => <li key={j}>{renderInline(line.replace(/^\s*[-*]\s+/, ''))}</li>)}
+        </ul>
+      )
+    }
+    return <p key={i}>{renderInline(lines.join(' '))}</p>
+  })
+}
+
+function renderInline(text: string): React.ReactNode[] {
+  const pattern = /(\*\*[^*]+\*\*|\*[^*]+\*|`[^`]+`|\[[^\]]+\]\([^)]+\))/g
+  return text.split(pattern).map((part, i) => {
+    if (/^\*\*[^*]+\*\*$/.test(part)) return <strong key={i}>{part.slice(2, -2)}</strong>
+    if (/^\*[^*]+\*$/.test(part)) return <em key={i}>{part.slice(1, -1)}</em>
+    if (/^`[^`]+`$/.test(part)) return <code key={i} className="rounded bg-muted px-1">{part.slice(1, -1)}</code>
+    const link = /^\[([^\]]+)\]\(([^)]+)\)$/.exec(part)
+    if (link) {
+      const href = /^(https?:|mailto:|\/)/.test(link[2]) ? link[2] : undefined
+      return <a key={i} href={href} className="underline" target="_blank" rel="noreferrer">{link[1]}</a>
+    }
+    return part
+  })
+}
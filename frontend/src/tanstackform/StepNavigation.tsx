@@ -1,7 +1,7 @@
 import * as React from "react"
 import { Button } from "@/components/ui/button"
 import { cn } from "@/lib/utils"
-import type { StepNavigationProps } from "./types"
+import type { StepNavigationProps } from "../core/types"
 
 export function StepNavigation({
   currentStep,
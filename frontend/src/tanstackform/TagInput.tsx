@@ -0,0 +1,72 @@
+import * as React from 'react'
+import { X } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+
+interface TagInputProps {
+  id: string
+  value: unknown
+  onChange: (value: string[]) => void
+  onBlur?: () => void
+  placeholder?: string
+  invalid?: boolean
+  describedBy?: string
+}
+
+/**
+ * Free-form list input for `tag_input` fields. Enter or a comma adds the typed text (duplicates are
+ * ignored), Backspace in the empty input removes the last tag, and leaving the input keeps what was typed.
+ */
+export function TagInput({ id, value, onChange, onBlur, placeholder, invalid = false, describedBy }: TagInputProps) {
+  const tags = Array.isArray(value) ? value.map(String) : []
+  const [draft, setDraft] = React.useState('')
+
+  const addDraft = () => {
+    const tag = draft.trim()
+    setDraft('')
+    if (tag && !tags.includes(tag)) onChange([...tags, tag])
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter' || event.key === ',') {
+      event.preventDefault()
+      addDraft()
+    } else if (event.key === 'Backspace' && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1))
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {tags.length > 0 && (
+        <ul className="flex flex-wrap gap-2" aria-label="Entries">
+          {tags.map((tag) => (
+            <li key={tag} className="flex items-center gap-1 rounded-full border bg-muted px-3 py-1 text-sm">
+              {tag}
+              <button
+                type="button"
+                aria-label={`Remove ${tag}`}
+                onClick={() => onChange(tags.filter((t) => t !== tag))}
+                className="text-muted-foreground hover:text-foreground"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <Input
+        id={id}
+        value={draft}
+        placeholder={placeholder || 'Type and press Enter'}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => {
+          addDraft()
+          onBlur?.()
+        }}
+        variant={invalid ? 'error' : 'default'}
+        aria-describedby={describedBy}
+      />
+    </div>
+  )
+}
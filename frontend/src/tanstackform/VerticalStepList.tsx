@@ -1,6 +1,6 @@
 import * as React from "react"
 import { cn } from "@/lib/utils"
-import type { StepNavigationProps } from "./types"
+import type { StepNavigationProps } from "../core/types"
 
 export function VerticalStepList({
   currentStep,
@@ -1,10 +1,24 @@
 import type { FormApi } from '@tanstack/react-form'
-import type { FormConfig, FormData, FormField, FormStep, SaveState } from '../types'
+import type { ReviewSection, StepHistoryOptions } from '../../core'
+import type { FormConfig, FormData, FormField, FormStep, SaveState } from '../../core/types'
 
-export interface FormEngineOptions {
+// stepId/onStepChange sync the current step with the URL (see useStepHistory)
+export interface FormEngineOptions extends StepHistoryOptions {
   config: FormConfig
   onSubmit: (data: FormData) => void | Promise<void>
   defaultValues?: Partial<FormData>
+  // Draft session: restores saved values and step on load, and is sent with each step save
+  sessionId?: string
+  // Custom step persistence; replaces the save-progress call when provided
+  onSave?: (stepId: string, data: FormData) => Promise<void>
+  // Every visible step is on screen at once (single-page renderers)
+  singlePage?: boolean
+  // Called by previous() on the first visible step (e.g. to return to an earlier phase)
+  onBack?: () => void
+  // Receives every value change, for callers keeping their own value store
+  onValuesChange?: (values: FormData) => void
+  // Start on the last visible step instead of the first
+  startAtLastStep?: boolean
 }
 
 export interface FieldRenderState {
@@ -29,6 +43,8 @@ export interface FormEngine {
   attemptedNext: boolean
   setAttemptedNext: (v: boolean) => void
   manualErrors: Map<string, string>
+  // Cross-field errors from validation.globalRules, keyed by field name
+  globalErrors: Map<string, string>
 
   // Navigation
   canGoNext: boolean
@@ -43,11 +59,19 @@ export interface FormEngine {
 
   // Step-based save functionality
   saveState: SaveState
-  saveStepData: (stepId: string, stepData: FormData) => Promise<void>
+  saveStepData: (stepId: string, stepData: FormData, resumeStepIndex?: number) => Promise<void>
+  isRestoringDraft: boolean
 
   // Visibility helpers
   isFieldVisible: (field: FormField) => boolean
 
+  // Review step (flowConfig.reviewStep): whether it is current, and the answers to show on it
+  isReviewStep: boolean
+  getReviewSummary: () => ReviewSection[]
+
+  // Value each prefillFrom field was given, keyed by field name (for the "prefilled" hint)
+  prefilledValues: FormData
+
   // Derived props for a generic step navigation UI
   stepNavigationProps: {
     currentStep: number
@@ -1,342 +1,178 @@
 import * as React from "react";
 import { useForm } from "@tanstack/react-form";
-import { createZodFieldValidator } from "../zodValidation";
-import type {
-  FormEngine,
-  FormEngineOptions,
-  FormData,
-  FormStep,
-  FormField,
-  FormConfig,
-  SaveState,
-} from "./types";
-import jsonLogic from "json-logic-js";
 import { useStore } from "@tanstack/react-store";
-import { useNavigationEngine } from "./useNavigationEngine";
-
-function buildAugmentedSteps(config: FormConfig): {
-  steps: FormStep[];
-  dynamicArraySteps: Map<string, { stepId: string; insertAfterIndex: number }>;
-} {
-  const resultSteps: FormStep[] = [...config.steps];
-  const dynamicArraySteps = new Map<
-    string,
-    { stepId: string; insertAfterIndex: number }
-  >();
-
-  if (!config.arrayTemplates) {
-    return { steps: resultSteps, dynamicArraySteps };
-  }
-
-  for (const [templateName] of Object.entries(config.arrayTemplates)) {
-    // Find controller field and its step
-    let controllerStepIndex = -1;
-    let controllerFound = false;
-    for (let i = 0; i < resultSteps.length; i++) {
-      const step = resultSteps[i];
-      for (const field of step.fields) {
-        if ((field as any).arrayController === templateName) {
-          controllerStepIndex = i;
-          controllerFound = true;
-          break;
-        }
-      }
-      if (controllerFound) break;
-    }
-
-    if (controllerStepIndex >= 0) {
-      const stepId = `${templateName}-details`;
-      const syntheticStep: FormStep = {
-        id: stepId,
-        name: templateName[0].toUpperCase() + templateName.slice(1),
-        description: "Provide details",
-        order: (resultSteps[controllerStepIndex]?.order || 0) + 0.1,
-        fields: [],
-      };
-      resultSteps.splice(controllerStepIndex + 1, 0, syntheticStep);
-      dynamicArraySteps.set(templateName, {
-        stepId,
-        insertAfterIndex: controllerStepIndex,
-      });
-    }
-  }
-
-  return { steps: resultSteps, dynamicArraySteps };
-}
-
-function expandArrayTemplateFields(
-  templateName: string,
-  config: FormConfig,
-  values: FormData
-): FormField[] {
-  const tpl = config.arrayTemplates?.[templateName];
-  if (!tpl) return [];
-
-  const countField = tpl.countField;
-  const rawCount = (values as any)[countField];
-  const appType = (values as any)["applicationType"];
-  let count =
-    appType && appType !== "joint"
-      ? 1
-      : typeof rawCount === "number"
-      ? rawCount
-      : parseInt(String(rawCount || ""), 10);
-  if (!Number.isFinite(count) || count <= 0) count = tpl.defaultCount || 1;
-  count = Math.max(tpl.minCount ?? 1, Math.min(tpl.maxCount ?? 99, count));
-
-  const fields: FormField[] = [];
-  for (let i = 0; i < count; i++) {
-    for (const base of tpl.fieldTemplate) {
-      const id = `${templateName}[${i}].${base.id}`;
-      const name = id;
-      fields.push({
-        id,
-        name,
-        type: (base.type as any) || "text",
-        label: base.label ? `${base.label}` : base.id,
-        required: base.required ?? true,
-        validation: (base.validation as any) || [],
-        grid: base.grid || { xs: 12 },
-      } as unknown as FormField);
-    }
-  }
-  return fields;
-}
-
+import { createConfigFieldValidator } from "../../core/zodValidation";
+import type { FormEngine, FormEngineOptions, FormData } from "./types";
+import {
+  createFormCore,
+  isRepeaterField,
+  isReviewStep,
+  shouldSaveStep,
+  useComputedFields,
+  useDraftRestore,
+  useHiddenValues,
+  useNavigationEngine,
+  usePrefillFrom,
+  useRepeaterRowCounts,
+  useStepHistory,
+  useStepSave,
+} from "../../core";
+
+/**
+ * TanStack Form adapter over the headless form core: TanStack owns values and
+ * field errors, the core decides visibility, step order, validation and saving.
+ */
 export function useConfigFormEngine({
   config,
   onSubmit,
   defaultValues = {},
+  sessionId,
+  onSave,
+  stepId,
+  onStepChange,
+  singlePage = false,
+  onBack,
+  onValuesChange,
+  startAtLastStep = false,
 }: FormEngineOptions): FormEngine {
   const [attemptedNext, setAttemptedNext] = React.useState(false);
+  // Errors from validation.globalRules, keyed by field name
+  const [globalErrors, setGlobalErrors] = React.useState<Map<string, string>>(
+    () => new Map()
+  );
 
-  // Step save state management
-  const [saveState, setSaveState] = React.useState<SaveState>({
-    isSaving: false,
-    lastSaveTime: null,
-    saveError: null,
-  });
+  const core = React.useMemo(() => createFormCore(config), [config]);
 
-  // Build augmented steps (dynamic array steps insertion)
-  const { steps: augmentedSteps, dynamicArraySteps } = React.useMemo(
-    () => buildAugmentedSteps(config as FormConfig),
-    [config]
+  const formDefaultValues = React.useMemo(
+    () => core.buildDefaultValues(defaultValues),
+    [core, defaultValues]
   );
 
-  // Build default values
-  const formDefaultValues = React.useMemo(() => {
-    const values: FormData = { ...defaultValues };
-    for (const step of augmentedSteps) {
-      for (const field of step.fields) {
-        if (!(field.name in values)) {
-          switch (field.type) {
-            case "checkbox":
-              values[field.name] = false;
-              break;
-            case "radio":
-            case "dropdown":
-              values[field.name] = "";
-              break;
-            default:
-              values[field.name] = "";
-              break;
-          }
-        }
-      }
-    }
-    return values;
-  }, [augmentedSteps, defaultValues]);
-
   const form = useForm({
     defaultValues: formDefaultValues,
     onSubmit: async ({ value }) => {
+      if (!passesGlobalRulesOnSubmit(value)) return;
       await onSubmit(value);
     },
   });
 
-  // Step save functionality (only if enabled in config)
-  const stepSaveEnabled = config.saveConfig?.enabled;
-
-  const saveStepData = React.useCallback(
-    async (stepId: string, stepData: FormData): Promise<void> => {
-      if (!stepSaveEnabled) return;
-
-      setSaveState((prev) => ({ ...prev, isSaving: true, saveError: null }));
-
-      try {
-        const response = await fetch(
-          `http://localhost:3001/api/forms/${config.metadata.id}/save-progress`,
-          {
-            method: "POST",
-            headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({
-              stepId,
-              data: stepData,
-            }),
-          }
-        );
-
-        if (!response.ok) {
-          const errorData = await response.json();
-
-          if (response.status === 400 && errorData.validationErrors) {
-            // Backend validation failed - show field-level errors but don't block
-            console.warn("Save validation failed:", errorData.validationErrors);
-            setSaveState((prev) => ({
-              ...prev,
-              isSaving: false,
-              saveError: "Some fields need attention, but you can continue.",
-            }));
-          } else {
-            throw new Error(errorData.error || "Save failed");
-          }
-        } else {
-          // Success
-          setSaveState((prev) => ({
-            ...prev,
-            isSaving: false,
-            lastSaveTime: new Date(),
-            saveError: null,
-          }));
-        }
-      } catch (error) {
-        // Network/server errors
-        setSaveState((prev) => ({
-          ...prev,
-          isSaving: false,
-          saveError: error instanceof Error ? error.message : "Save failed",
-        }));
-      }
-    },
-    [stepSaveEnabled, config.metadata.id]
+  const { saveState, stepSaveEnabled, saveStepData } = useStepSave({
+    config,
+    onSave,
+    sessionId,
+  });
+
+  // Subscribe only to the condition keys; a new object (and a re-render) when any of them changes
+  const conditionValues = useStore(form.store, (s) =>
+    Object.fromEntries(core.conditionKeys.map((k) => [k, (s.values as FormData)[k]]))
   );
 
-  // Helper: extract all referenced keys from json-logic rules
-  const extractVarsFromLogic = React.useCallback(
-    (rule: any, acc: Set<string>) => {
-      if (!rule || typeof rule !== "object") return;
-      if (Array.isArray(rule)) {
-        rule.forEach((r) => extractVarsFromLogic(r, acc));
-        return;
-      }
-      for (const [op, val] of Object.entries(rule)) {
-        if (op === "var") {
-          if (typeof val === "string") acc.add(val);
-          else if (Array.isArray(val) && typeof val[0] === "string")
-            acc.add(val[0]);
-        } else if (Array.isArray(val)) {
-          val.forEach((v) => extractVarsFromLogic(v as any, acc));
-        } else if (val && typeof val === "object") {
-          extractVarsFromLogic(val as any, acc);
-        }
-      }
-    },
-    []
+  // Also subscribe to isSubmitting for UI state without re-subscribing to values
+  const isSubmitting = useStore(form.store, (s) => s.isSubmitting);
+
+  const getValues = React.useCallback(() => form.state.values as FormData, [form]);
+
+  const nav = useNavigationEngine({
+    core,
+    getValues,
+    conditionValues,
+    startAtLastStep,
+    onBack,
+  });
+
+  const currentStep = core.steps[nav.currentStepIndex];
+
+  // Recompute `computed` fields whenever a value they read changes
+  const computedKeySignature = useStore(form.store, (s) =>
+    JSON.stringify(core.computedKeys.map((k) => (s.values as FormData)[k]))
   );
 
-  // Compute the set of keys used in any conditions (steps + fields)
-  const conditionKeys = React.useMemo(() => {
-    const set = new Set<string>();
-    for (const step of augmentedSteps) {
-      step.conditions?.forEach((r) => extractVarsFromLogic(r, set));
-      for (const field of step.fields) {
-        field.conditions?.forEach((r) => extractVarsFromLogic(r, set));
-      }
-    }
-    // Include arrayTemplates countFields and applicationType if present
-    if ((config as FormConfig).arrayTemplates) {
-      for (const tpl of Object.values((config as FormConfig).arrayTemplates!)) {
-        if (tpl.countField) set.add(tpl.countField);
-      }
-    }
-    set.add("applicationType");
-    return set;
-  }, [augmentedSteps, extractVarsFromLogic, config]);
-
-  // Subscribe only to the condition keys; re-render when any of them changes
-  const conditionKeySignature = useStore(form.store, (s) => {
-    const pairs = Array.from(conditionKeys).map((k) => [
-      k,
-      (s.values as any)[k],
-    ]);
-    return JSON.stringify(pairs);
+  useComputedFields({
+    core,
+    getValues,
+    depsSignature: computedKeySignature,
+    setValue: (name, value) => form.setFieldValue(name, value, { dontUpdateMeta: true }),
   });
 
-  // Also subscribe to isSubmitting for UI state without re-subscribing to values
-  const isSubmitting = useStore(form.store, (s) => s.isSubmitting);
+  // Resize repeaters when their requested row count changes
+  useRepeaterRowCounts({
+    core,
+    getValues,
+    conditionValues,
+    setValue: (name, value) => form.setFieldValue(name, value),
+  });
+
+  // Empty or restore values of fields that conditions hide (conditionPolicy.onHide / step / field onHide)
+  useHiddenValues({
+    core,
+    getValues,
+    conditionValues,
+    setValue: (name, value) => form.setFieldValue(name, value, { dontUpdateMeta: true }),
+  });
 
-  // Helper: evaluate a list of json-logic rules (AND)
-  const evaluateConditions = React.useCallback(
-    (conditions: any[] | undefined, values: FormData) => {
-      if (!conditions || conditions.length === 0) return true;
-      try {
-        return conditions.every((rule) =>
-          Boolean(jsonLogic.apply(rule, values))
-        );
-      } catch (_) {
-        return true;
+  const isRestoringDraft = useDraftRestore({
+    formId: config.metadata.id,
+    sessionId,
+    onRestore: (draft) => {
+      // keepDefaultValues stops the next options update from resetting to config defaults
+      form.reset({ ...formDefaultValues, ...draft.values }, { keepDefaultValues: true });
+      if (draft.currentStepIndex >= 0 && draft.currentStepIndex < core.steps.length) {
+        nav.setCurrentStepIndex(draft.currentStepIndex);
       }
     },
-    []
+  });
+
+  // Memoized visible fields for current step
+  const visibleFields = React.useMemo(
+    () => core.getVisibleFields(nav.currentStepIndex, { ...getValues(), ...conditionValues }),
+    [core, nav.currentStepIndex, getValues, conditionValues]
   );
 
-  // Navigation engine (decoupled)
-  const nav = useNavigationEngine({
-    steps: augmentedSteps,
-    evaluateConditions,
-    getValues: () => form.state.values as FormData,
-    depsSignature: conditionKeySignature,
-  });
+  // Repeater rows are validated field by field; re-plan when the step's rows are added, removed or shown per row
+  const rowValues = useStore(form.store, (s) =>
+    Object.fromEntries(
+      visibleFields.filter(isRepeaterField).map((field) => [field.name, (s.values as FormData)[field.name]])
+    )
+  );
 
-  const currentStep = augmentedSteps[nav.currentStepIndex];
-  const totalSteps = nav.totalSteps;
+  const validationPlan = React.useMemo(
+    () => core.planStepValidation(visibleFields, { ...getValues(), ...rowValues }),
+    [core, visibleFields, getValues, rowValues]
+  );
 
-  // Memoized visible fields for current step
-  const visibleFields = React.useMemo(() => {
-    const valuesSnapshot = form.state.values as FormData;
-    // Dynamic array step expansion
-    let baseFields = currentStep.fields;
-    // If this step is one of the dynamic array steps, expand from template
-    if ((config as FormConfig).arrayTemplates) {
-      for (const [templateName, meta] of dynamicArraySteps.entries()) {
-        if (currentStep.id === meta.stepId) {
-          baseFields = expandArrayTemplateFields(
-            templateName,
-            config as FormConfig,
-            valuesSnapshot
-          );
-          break;
-        }
-      }
-    }
-    return baseFields.filter((field) =>
-      evaluateConditions(field.conditions, valuesSnapshot)
-    );
-  }, [
-    currentStep.id,
-    currentStep.fields,
-    evaluateConditions,
-    conditionKeySignature,
-    dynamicArraySteps,
-    config,
-  ]);
+  // Fields on screen: the current step's, or every visible step's on a single page
+  const shownFields = React.useMemo(() => {
+    if (!singlePage) return visibleFields;
+    const values = { ...getValues(), ...conditionValues };
+    return core.getVisibleStepIndices(values).flatMap((i) => core.getVisibleFields(i, values));
+  }, [singlePage, core, visibleFields, getValues, conditionValues]);
+
+  // Copy earlier answers into prefillFrom fields as they are shown
+  const prefillKeySignature = useStore(form.store, (s) =>
+    JSON.stringify(core.prefillKeys.map((k) => (s.values as FormData)[k]))
+  );
+
+  const prefilledValues = usePrefillFrom({
+    core,
+    getValues,
+    shownFields,
+    depsSignature: prefillKeySignature,
+    setValue: (name, value) => form.setFieldValue(name, value),
+  });
 
   // Validators per field (for current step)
   const fieldValidators = React.useMemo(
     () =>
       new Map(
-        visibleFields.map(
+        validationPlan.fields.map(
           (field) =>
             [
               field.id,
-              createZodFieldValidator(
-                (field as any).validation || [],
-                (field as any).type
-              ),
+              createConfigFieldValidator(field),
             ] as const
         )
       ),
-    [visibleFields]
+    [validationPlan]
   );
 
   const getValidatorForField = React.useCallback(
@@ -347,54 +183,79 @@ export function useConfigFormEngine({
   const manualErrors = React.useMemo(() => {
     if (!attemptedNext) return new Map();
     const errors = new Map<string, string>();
-    for (const field of visibleFields) {
-      const validator = fieldValidators.get(field.id);
-      if (validator) {
-        const fieldValue = form.getFieldValue(field.name);
-        const error = validator({ value: fieldValue });
-        if (error) errors.set(field.id, error);
-      }
+    for (const field of validationPlan.fields) {
+      const error = fieldValidators.get(field.id)?.({
+        value: form.getFieldValue(field.name),
+      });
+      if (error) errors.set(field.id, error);
     }
     return errors;
-  }, [attemptedNext, visibleFields, fieldValidators, form]);
+  }, [attemptedNext, validationPlan, fieldValidators, form]);
 
   const next = React.useCallback(async () => {
     setAttemptedNext(true);
-    let hasErrors = false;
-    for (const field of visibleFields) {
-      if (!field.required) continue;
-      const fieldValue = form.getFieldValue(field.name);
-      const validator = fieldValidators.get(field.id);
-      const error = validator?.({ value: fieldValue });
-      if (error) hasErrors = true;
-    }
-    if (!hasErrors) {
-      // Save step if enabled and required (default true, can be overridden per step)
-      const shouldSave = stepSaveEnabled && currentStep.saveRequired !== false;
+    const values = getValues();
+    let hasErrors = validationPlan.fields.some((field) =>
+      Boolean(fieldValidators.get(field.id)?.({ value: form.getFieldValue(field.name) }))
+    );
+
+    const stepRuleErrors = core.checkStepRules(values, nav.currentStepIndex, validationPlan);
+    setGlobalErrors(stepRuleErrors);
+    if (stepRuleErrors.size > 0) hasErrors = true;
 
-      if (shouldSave) {
-        await saveStepData(currentStep.id, form.state.values);
+    if (!hasErrors) {
+      if (shouldSaveStep(stepSaveEnabled, currentStep)) {
         // Continue navigation even if save fails (UX decision)
+        await saveStepData(currentStep.id, values, nav.nextStepIndex ?? nav.currentStepIndex);
       }
-
       nav.next();
       setAttemptedNext(false);
     }
-  }, [
-    visibleFields,
-    fieldValidators,
-    form,
-    nav,
-    stepSaveEnabled,
-    currentStep,
-    saveStepData,
-  ]);
+  }, [getValues, validationPlan, fieldValidators, form, core, nav, stepSaveEnabled, currentStep, saveStepData]);
+
+  // Runs every global rule before submit and jumps to the first step holding an error
+  const passesGlobalRulesOnSubmit = React.useCallback(
+    (values: FormData): boolean => {
+      const { errors, firstErrorStepIndex } = core.checkSubmitRules(values);
+      setGlobalErrors(errors);
+      if (errors.size === 0) return true;
+      if (firstErrorStepIndex >= 0) nav.setCurrentStepIndex(firstErrorStepIndex);
+      return false;
+    },
+    [core, nav]
+  );
 
   const previous = React.useCallback(() => {
     nav.previous();
   }, [nav]);
 
-  const goTo = React.useCallback((i: number) => nav.goTo(i), [nav]);
+  // Mirror the current step in the URL and follow browser back/forward
+  useStepHistory({
+    core,
+    nav,
+    getValues,
+    next,
+    ready: !isRestoringDraft,
+    stepId,
+    onStepChange,
+  });
+
+  // Mirror value changes to an external store
+  React.useEffect(() => {
+    if (!onValuesChange) return;
+    return form.store.subscribe(({ prevVal, currentVal }) => {
+      if (prevVal.values !== currentVal.values) onValuesChange(currentVal.values as FormData);
+    });
+  }, [form, onValuesChange]);
+
+  // Back to any earlier step; forward only one step, through next()'s validation
+  const goTo = React.useCallback(
+    (i: number) => {
+      if (i === nav.currentVisiblePos + 1) void next();
+      else nav.goTo(i);
+    },
+    [nav, next]
+  );
 
   const handleSubmit = React.useCallback(
     (e: React.FormEvent) => {
@@ -411,33 +272,29 @@ export function useConfigFormEngine({
 
   const stepNavigationProps = React.useMemo(
     () => ({
-      currentStep: nav.stepNavigationProps.currentStep,
-      totalSteps: nav.stepNavigationProps.totalSteps,
-      canGoNext: nav.stepNavigationProps.canGoNext,
-      canGoPrevious: nav.stepNavigationProps.canGoPrevious,
+      currentStep: nav.currentVisiblePos,
+      totalSteps: nav.totalSteps,
+      canGoNext: true,
+      canGoPrevious: nav.canGoPrevious,
       onNext: next,
       onPrevious: previous,
       onStepClick: goTo,
-      steps: nav.stepNavigationProps.steps,
+      steps: nav.visibleSteps,
       isSubmitting,
       isSaving: saveState.isSaving,
       onSubmit: submit,
     }),
-    [
-      nav.stepNavigationProps,
-      next,
-      previous,
-      goTo,
-      isSubmitting,
-      saveState.isSaving,
-      submit,
-    ]
+    [nav, next, previous, goTo, isSubmitting, saveState.isSaving, submit]
   );
 
   const isFieldVisible = React.useCallback(
-    (field) =>
-      evaluateConditions(field.conditions, form.state.values as FormData),
-    [evaluateConditions, conditionKeySignature]
+    (field) => core.isVisible(field.conditions, { ...getValues(), ...conditionValues }),
+    [core, getValues, conditionValues]
+  );
+
+  const getReviewSummary = React.useCallback(
+    () => core.getReviewSummary(getValues()),
+    [core, getValues]
   );
 
   // Handle auto-trigger functionality (unidirectional)
@@ -455,14 +312,15 @@ export function useConfigFormEngine({
     currentStepIndex: nav.currentStepIndex,
     setCurrentStepIndex: nav.setCurrentStepIndex,
     currentStep,
-    totalSteps,
+    totalSteps: nav.totalSteps,
     visibleFields,
     getValidatorForField,
     attemptedNext,
     setAttemptedNext,
     manualErrors,
+    globalErrors,
     canGoNext: true,
-    canGoPrevious: nav.stepNavigationProps.canGoPrevious,
+    canGoPrevious: nav.canGoPrevious,
     next,
     previous,
     goTo,
@@ -470,7 +328,11 @@ export function useConfigFormEngine({
     submit,
     saveState,
     saveStepData,
+    isRestoringDraft,
     isFieldVisible,
+    isReviewStep: isReviewStep(currentStep),
+    getReviewSummary,
+    prefilledValues,
     stepNavigationProps,
     handleAutoTrigger,
   };
@@ -1,13 +1,25 @@
 // Main Components
 export { ConfigFormRenderer } from "./ConfigFormRenderer";
 export { VerticalConfigFormRenderer } from "./VerticalConfigFormRenderer";
+export { WizardFlowRenderer } from "./WizardFlowRenderer";
+export type { WizardFlowRendererProps } from "./WizardFlowRenderer";
+export { registerPhaseRenderer, getPhaseRenderer } from "./phases/registry";
 export { FormField } from "./FormField";
+export { StaticField } from "./StaticField";
 export { StepNavigation } from "./StepNavigation";
 export { VerticalStepList } from "./VerticalStepList";
+export { OptionList } from "./OptionList";
+export { CheckboxGroup } from "./CheckboxGroup";
+export { TagInput } from "./TagInput";
+export { registerOptionIcon } from "./optionIcons";
+export type { OptionIcon } from "./optionIcons";
+export { PricerPanel } from "./PricerPanel";
 
 // Validation utilities
 export { createFieldValidator } from "./validation";
 export type { ValidationRule, FieldValidator } from "./validation";
+export { STATIC_FIELD_TYPES, isStaticField } from "../core/staticFields";
+export { FIELD_TYPES, isChoiceField, isInputField, isMultiValueField } from "../core/fieldTypes";
 
 // Types
 export type {
@@ -17,7 +29,18 @@ export type {
   FormData,
   StepNavigationProps,
   FormFieldProps,
-} from "./types";
+  FieldType,
+  StaticFieldType,
+  TextField,
+  ChoiceField,
+  CheckboxField,
+  TagInputField,
+  ComputedField,
+  RepeaterField,
+  StaticField as StaticFieldConfig,
+  InputField,
+  DefaultValueExpression,
+} from "../core/types";
 
 // Headless engine exports
 export { useConfigFormEngine } from "./engine/useConfigFormEngine";
@@ -0,0 +1,27 @@
+import type * as React from 'react'
+import { Banknote, Building2, Hammer, House, KeyRound, Landmark, RefreshCw, TrendingUp } from 'lucide-react'
+
+export type OptionIcon = React.ComponentType<{ className?: string }>
+
+// Icons `option.icon` can name
+const optionIcons: Record<string, OptionIcon> = {
+  investment: TrendingUp,
+  construction: Hammer,
+  home: House,
+  building: Building2,
+  refinance: RefreshCw,
+  purchase: KeyRound,
+  bank: Landmark,
+  cash: Banknote,
+}
+
+/**
+ * Make an icon available to `option.icon`
+ */
+export function registerOptionIcon(name: string, icon: OptionIcon): void {
+  optionIcons[name] = icon
+}
+
+export function getOptionIcon(name: string): OptionIcon | undefined {
+  return optionIcons[name]
+}
@@ -0,0 +1,124 @@
+import * as React from 'react'
+import { cn } from '@/lib/utils'
+import type { FormData } from '../../core/types'
+import { PricerPanel } from '../PricerPanel'
+import { FormField as FormFieldInput } from '../FormField'
+import { isOneClickChoice } from '../../core/fieldTypes'
+import { createFormCore, evaluateConditions, type PhaseRendererProps } from '../../core'
+
+/**
+ * One question (step) at a time, edited directly in the shared value store and checked like a step's Next;
+ * one-click answers auto-advance once they pass. Previous on the first question leaves the phase.
+ */
+export function QuestionWizardPhase({ config, steps, values, setValue, entry, onComplete, onBack }: PhaseRendererProps) {
+  const core = React.useMemo(() => createFormCore(config), [config])
+  // Question errors show once Next (or a one-click answer) was tried on the question
+  const [attemptedNext, setAttemptedNext] = React.useState(false)
+
+  const visibleQuestionIndexes = React.useMemo(() => {
+    const idxs: number[] = []
+    steps.forEach((step, i) => {
+      if (evaluateConditions(step.conditions, values)) idxs.push(i)
+    })
+    return idxs
+  }, [steps, values])
+
+  // Coming back from a later phase resumes at the last question
+  const [qIndex, setQIndex] = React.useState(() => (entry === 'end' ? Math.max(visibleQuestionIndexes.length - 1, 0) : 0))
+
+  const currentQuestionStep = React.useMemo(() => {
+    const actualIdx = visibleQuestionIndexes[qIndex] ?? -1
+    return actualIdx >= 0 ? steps[actualIdx] : undefined
+  }, [qIndex, steps, visibleQuestionIndexes])
+
+  const isLastQuestion = qIndex >= visibleQuestionIndexes.length - 1
+  const stepIndex = currentQuestionStep ? core.getStepIndexById(currentQuestionStep.id) : -1
+
+  // Same checks as a step's Next: the question's planned fields, then global rules landing on it
+  const getQuestionErrors = (questionValues: FormData) =>
+    stepIndex >= 0 ? core.getStepErrors(questionValues, stepIndex) : new Map<string, string>()
+  const questionErrors = attemptedNext ? getQuestionErrors(values) : new Map<string, string>()
+
+  const moveTo = (index: number) => {
+    setAttemptedNext(false)
+    setQIndex(index)
+  }
+
+  const goPrev = () => {
+    if (qIndex > 0) moveTo(qIndex - 1)
+    else onBack?.()
+  }
+
+  // Leaves the question only when it is answered correctly
+  const goNext = (questionValues: FormData = values) => {
+    setAttemptedNext(true)
+    if (getQuestionErrors(questionValues).size > 0) return
+    if (isLastQuestion) onComplete()
+    else moveTo(qIndex + 1)
+  }
+
+  const handleAutoTrigger = (_sourceField: string, _sourceValue: unknown, targetField: string, targetValue: unknown) =>
+    setValue(targetField, targetValue)
+
+  if (!currentQuestionStep) {
+    return (
+      <div className="space-y-4">
+        <div className="text-muted-foreground">No qualifying questions to answer.</div>
+        <div className="flex items-center justify-between">
+          <button className="px-4 py-2 border rounded" onClick={onBack} disabled={!onBack}>
+            Previous
+          </button>
+          <button className="px-4 py-2 bg-primary text-primary-foreground rounded" onClick={() => onComplete()}>
+            Continue
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const showPricer = Boolean(currentQuestionStep.showPricer && config.pricing)
+
+  return (
+    <div className={cn(showPricer && 'grid gap-6 items-start lg:grid-cols-[1fr_18rem]')}>
+      <div className="space-y-6">
+        <div>
+          <div className="text-sm text-muted-foreground">
+            {currentQuestionStep.category ? `${currentQuestionStep.category} · ` : ''}Question {qIndex + 1} of{' '}
+            {visibleQuestionIndexes.length}
+          </div>
+          <h2 className="text-2xl font-semibold">{currentQuestionStep.name}</h2>
+          <p className="text-muted-foreground">{currentQuestionStep.description}</p>
+        </div>
+
+        <div className="grid grid-cols-12 gap-4">
+          {core.getVisibleFields(stepIndex, values).map((f) => (
+            <FormFieldInput
+              key={f.id}
+              field={f}
+              value={values[f.name]}
+              values={values}
+              onChange={(v) => {
+                setValue(f.name, v)
+                // One-click answers advance on their own
+                if (isOneClickChoice(f)) goNext({ ...values, [f.name]: v })
+              }}
+              onBlur={() => {}}
+              error={questionErrors.get(f.name)}
+              onAutoTrigger={handleAutoTrigger}
+            />
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between pt-2">
+          <button className="px-4 py-2 border rounded" onClick={goPrev} disabled={qIndex === 0 && !onBack}>
+            Previous
+          </button>
+          <button className="px-4 py-2 bg-primary text-primary-foreground rounded" onClick={() => goNext()}>
+            {isLastQuestion ? 'Continue to Application' : 'Next'}
+          </button>
+        </div>
+      </div>
+      {showPricer && <PricerPanel config={config} values={values} />}
+    </div>
+  )
+}
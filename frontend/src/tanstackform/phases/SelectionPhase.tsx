@@ -0,0 +1,49 @@
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import type { PhaseRendererProps } from '../../core'
+
+/**
+ * Program picker: the first field of the phase's first step, rendered as cards.
+ * Choosing a card stores the value and completes the phase.
+ */
+export function SelectionPhase({ config, phase, steps, values, setValue, onComplete, onBack }: PhaseRendererProps) {
+  const selectionField = steps[0]?.fields?.[0]
+  const opts = (selectionField && 'options' in selectionField && selectionField.options) || []
+  const selected = selectionField ? values[selectionField.name] : undefined
+
+  const onSelect = (value: string) => {
+    if (!selectionField) return
+    setValue(selectionField.name, value)
+    onComplete({ [selectionField.name]: value })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center space-y-2">
+        <h1 className="text-3xl font-bold">{config.metadata.name}</h1>
+        <p className="text-muted-foreground">{phase.description || 'Select an option to continue'}</p>
+      </div>
+      <div className="grid gap-4 sm:grid-cols-2">
+        {opts.map((opt) => (
+          <button
+            key={String(opt.value)}
+            type="button"
+            onClick={() => onSelect(opt.value)}
+            className={cn(
+              'text-left border rounded-lg p-4 hover:border-primary transition-colors bg-card',
+              selected === opt.value && 'border-primary'
+            )}
+          >
+            <div className="font-semibold">{opt.label}</div>
+            {opt.description && <div className="text-sm text-muted-foreground mt-1">{opt.description}</div>}
+          </button>
+        ))}
+      </div>
+      {onBack && (
+        <Button variant="outline" onClick={onBack}>
+          Previous
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -11,4 +11,10 @@ export default defineConfig({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  server: {
+    fs: {
+      // Allow modules shared with the backend (../shared)
+      allow: [path.resolve(__dirname, "..")],
+    },
+  },
 });
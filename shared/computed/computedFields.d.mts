@@ -0,0 +1,24 @@
+export type ComputedFormat = 'number' | 'currency' | 'percent' | 'text'
+
+// The parts of a field definition the computed-field helpers read
+export interface ComputedFieldLike {
+  name: string
+  type?: string
+  expression?: unknown
+  format?: ComputedFormat
+  precision?: number
+}
+
+export interface ComputedEvaluator {
+  computeValue: (field: ComputedFieldLike, values: Record<string, unknown>) => unknown
+  computeValues: (fields: ComputedFieldLike[] | undefined, values: Record<string, unknown>) => Record<string, unknown>
+}
+
+export declare const COMPUTED_FIELD_TYPE: 'computed'
+export declare const DEFAULT_COMPUTED_PRECISION: number
+
+export declare function isComputedField(field: { type?: string } | null | undefined): boolean
+export declare function getExpressionVars(expression: unknown, acc?: Set<string>): Set<string>
+export declare function toNumericInput(value: unknown): unknown
+export declare function computedValueMatches(field: ComputedFieldLike, expected: unknown, actual: unknown): boolean
+export declare function createComputedEvaluator(apply: (rule: any, data: any) => unknown): ComputedEvaluator
@@ -0,0 +1,147 @@
+/**
+ * Computed (derived) fields shared by the frontend engines and the backend validator.
+ *
+ * A computed field is a read-only field whose value is a json-logic expression over other values:
+ *   {
+ *     "id": "ltv", "name": "ltv", "type": "computed", "label": "Loan-to-value",
+ *     "expression": { "*": [{ "/": [{ "var": "loanAmount" }, { "var": "propertyValue" }] }, 100] },
+ *     "format": "percent", "precision": 2
+ *   }
+ *
+ * - Inputs formatted for display ("$350,000", "1,200", "75%") are read as numbers
+ * - Numeric results are rounded to `precision` decimals (default 2); NaN / Infinity become null
+ * - A computed field may use other computed fields; values settle over repeated passes
+ * - An expression that throws yields null
+ *
+ * json-logic is injected (`apply`) so each side uses its own installed copy.
+ */
+
+export const COMPUTED_FIELD_TYPE = 'computed';
+export const DEFAULT_COMPUTED_PRECISION = 2;
+
+const NUMERIC_TEXT = /^\s*-?\$?\s*-?[\d,]*\.?\d+\s*%?\s*$/;
+
+export function isComputedField(field) {
+  return Boolean(field) && field.type === COMPUTED_FIELD_TYPE;
+}
+
+/**
+ * Read a display-formatted number ("$350,000", "12.5%") as a number; other values are unchanged
+ */
+export function toNumericInput(value) {
+  if (typeof value !== 'string' || !NUMERIC_TEXT.test(value)) return value;
+  const num = Number(value.replace(/[$,%\s]/g, ''));
+  return Number.isFinite(num) ? num : value;
+}
+
+// json-logic operators that run their later arguments once per array item
+const ARRAY_SCOPE_OPERATORS = ['some', 'none', 'all', 'map', 'filter', 'reduce'];
+
+function isVarReference(value) {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value) && 'var' in value;
+}
+
+// `{ some: [{ var: "incomeSources" }, test] }`: only the array reads form values. An `all` over
+// conditions (a condition group) reads them throughout.
+function isArrayScope(op, value) {
+  if (!ARRAY_SCOPE_OPERATORS.includes(op) || !Array.isArray(value)) return false;
+  return op !== 'all' || isVarReference(value[0]);
+}
+
+/**
+ * Names of the values an expression reads (first path of `["name", default]` forms).
+ * Vars inside the per-item test of `some` / `none` / `all` / `map` / `filter` / `reduce` read the item, not the form.
+ */
+export function getExpressionVars(expression, acc = new Set()) {
+  if (!expression || typeof expression !== 'object') return acc;
+  if (Array.isArray(expression)) {
+    expression.forEach((entry) => getExpressionVars(entry, acc));
+    return acc;
+  }
+  for (const [op, value] of Object.entries(expression)) {
+    if (op === 'var') {
+      const name = Array.isArray(value) ? value[0] : value;
+      if (typeof name === 'string' && name) acc.add(name);
+    } else if (isArrayScope(op, value)) {
+      getExpressionVars(value[0], acc);
+      // reduce's initial value is read from the form too
+      if (op === 'reduce') getExpressionVars(value[2], acc);
+    } else {
+      getExpressionVars(value, acc);
+    }
+  }
+  return acc;
+}
+
+function getPrecision(field) {
+  const precision = Number(field?.precision);
+  return Number.isInteger(precision) && precision >= 0 ? precision : DEFAULT_COMPUTED_PRECISION;
+}
+
+function roundTo(value, precision) {
+  const factor = 10 ** precision;
+  return Math.round(value * factor) / factor;
+}
+
+function normalizeResult(result, field) {
+  if (typeof result === 'number') {
+    return Number.isFinite(result) ? roundTo(result, getPrecision(field)) : null;
+  }
+  return result === undefined ? null : result;
+}
+
+/**
+ * Whether a submitted value equals the computed one (numbers compared at the field's precision)
+ */
+export function computedValueMatches(field, expected, actual) {
+  const isBlank = (value) => value === undefined || value === null || value === '';
+  if (isBlank(expected) || isBlank(actual)) return isBlank(expected) && isBlank(actual);
+
+  const actualValue = toNumericInput(actual);
+  if (typeof expected === 'number' && typeof actualValue === 'number') {
+    return roundTo(actualValue, getPrecision(field)) === expected;
+  }
+  return JSON.stringify(expected) === JSON.stringify(actualValue);
+}
+
+/**
+ * Build an evaluator bound to a json-logic implementation
+ * @param {Function} apply - jsonLogic.apply
+ * @returns {{ computeValue: Function, computeValues: Function }}
+ */
+export function createComputedEvaluator(apply) {
+  function computeValue(field, values) {
+    const data = {};
+    for (const [name, value] of Object.entries(values || {})) {
+      data[name] = toNumericInput(value);
+    }
+    try {
+      return normalizeResult(apply(field.expression, data), field);
+    } catch {
+      return null;
+    }
+  }
+
+  // Values of every computed field in `fields`, keyed by field name
+  function computeValues(fields, values) {
+    const computedFields = (fields || []).filter(isComputedField);
+    const working = { ...(values || {}) };
+    const result = {};
+    // One pass per field settles any acyclic chain; cycles stop after the last pass
+    for (let pass = 0; pass <= computedFields.length; pass++) {
+      let changed = false;
+      for (const field of computedFields) {
+        const value = computeValue(field, working);
+        if (!(field.name in result) || JSON.stringify(value) !== JSON.stringify(result[field.name])) {
+          result[field.name] = value;
+          working[field.name] = value;
+          changed = true;
+        }
+      }
+      if (!changed) break;
+    }
+    return result;
+  }
+
+  return { computeValue, computeValues };
+}
@@ -0,0 +1,29 @@
+import type { OnHidePolicy } from './hiddenValues.mjs'
+
+export type ConditionOnError = 'show' | 'hide' | 'throw'
+
+export interface ConditionPolicy {
+  onError?: ConditionOnError
+  // Default for values of hidden fields (see hiddenValues.mjs); fields and steps may override it
+  onHide?: OnHidePolicy
+}
+
+export type ConditionGroup = { all: Condition[] } | { any: Condition[] } | { not: Condition | Condition[] }
+// A json-logic rule or a group of conditions
+export type Condition = ConditionGroup | Record<string, unknown>
+
+export interface ConditionEvaluator {
+  evaluate: (condition: unknown, values: Record<string, unknown>) => boolean
+  evaluateConditions: (conditions: unknown[] | undefined, values: Record<string, unknown>) => boolean
+  onError: ConditionOnError
+}
+
+export declare const ON_ERROR_POLICIES: ConditionOnError[]
+export declare const DEFAULT_ON_ERROR: ConditionOnError
+
+export declare function getGroupOperator(condition: unknown): 'all' | 'any' | 'not' | null
+export declare function resolveOnError(policy?: ConditionPolicy | ConditionOnError | null): ConditionOnError
+export declare function createConditionEvaluator(
+  apply: (rule: any, data: any) => unknown,
+  policy?: ConditionPolicy | ConditionOnError | null
+): ConditionEvaluator
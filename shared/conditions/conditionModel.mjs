@@ -0,0 +1,88 @@
+/**
+ * Condition model shared by the frontend engines and the backend schema generator.
+ *
+ * A condition is a json-logic rule or a group:
+ *   { all: [condition, ...] }   every condition holds (an empty list holds)
+ *   { any: [condition, ...] }   at least one condition holds
+ *   { not: condition }          the condition does not hold ({ not: [condition, ...] }: not all of them)
+ * Groups nest freely. `conditions` arrays on steps, fields and global rules are an implicit `all`;
+ * a missing or empty array always holds.
+ *
+ * json-logic's own array operator `all` ({ all: [{ var: "list" }, test] }) is still supported:
+ * an `all` whose first entry is a `var` reference is passed to json-logic untouched.
+ *
+ * On-error policy (form-level `conditionPolicy.onError`): when any rule in a `conditions`
+ * list throws, the whole list evaluates to
+ *   "show"  true  (default; a broken condition never hides a required field)
+ *   "hide"  false
+ *   "throw" the error is rethrown to the caller
+ *
+ * What happens to the values of fields that conditions hide (`conditionPolicy.onHide`) is
+ * described in hiddenValues.mjs.
+ *
+ * json-logic is injected (`apply`) so each side uses its own installed copy.
+ */
+
+export const ON_ERROR_POLICIES = ['show', 'hide', 'throw'];
+export const DEFAULT_ON_ERROR = 'show';
+
+function isVarReference(value) {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value) && 'var' in value;
+}
+
+/**
+ * The group operator of a condition (`all` | `any` | `not`), or null for a plain json-logic rule
+ */
+export function getGroupOperator(condition) {
+  if (!condition || typeof condition !== 'object' || Array.isArray(condition)) return null;
+  const keys = Object.keys(condition);
+  if (keys.length !== 1) return null;
+  const [op] = keys;
+  if (op === 'any' && Array.isArray(condition.any)) return 'any';
+  if (op === 'not') return 'not';
+  if (op === 'all' && Array.isArray(condition.all) && !isVarReference(condition.all[0])) return 'all';
+  return null;
+}
+
+export function resolveOnError(policy) {
+  const onError = policy && typeof policy === 'object' ? policy.onError : policy;
+  return ON_ERROR_POLICIES.includes(onError) ? onError : DEFAULT_ON_ERROR;
+}
+
+/**
+ * Build an evaluator bound to a json-logic implementation and an on-error policy
+ * @param {Function} apply - jsonLogic.apply
+ * @param {Object|string} [policy] - `{ onError }` or the onError value itself
+ * @returns {{ evaluate: Function, evaluateConditions: Function, onError: string }}
+ */
+export function createConditionEvaluator(apply, policy) {
+  const onError = resolveOnError(policy);
+
+  // Throws when a json-logic rule throws; the caller applies the policy
+  function evaluate(condition, values) {
+    switch (getGroupOperator(condition)) {
+      case 'all':
+        return condition.all.every((c) => evaluate(c, values));
+      case 'any':
+        return condition.any.some((c) => evaluate(c, values));
+      case 'not':
+        return Array.isArray(condition.not)
+          ? !condition.not.every((c) => evaluate(c, values))
+          : !evaluate(condition.not, values);
+      default:
+        return Boolean(apply(condition, values));
+    }
+  }
+
+  function evaluateConditions(conditions, values) {
+    if (!conditions || conditions.length === 0) return true;
+    try {
+      return conditions.every((condition) => evaluate(condition, values));
+    } catch (error) {
+      if (onError === 'throw') throw error;
+      return onError === 'show';
+    }
+  }
+
+  return { evaluate, evaluateConditions, onError };
+}
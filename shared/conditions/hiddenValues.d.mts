@@ -0,0 +1,54 @@
+import type { ConditionPolicy } from './conditionModel.mjs'
+
+export type OnHidePolicy = 'keep' | 'clear' | 'restoreOnShow'
+
+// The parts of steps and fields the hidden-value helpers read
+export interface HiddenValueField {
+  name: string
+  conditions?: unknown[]
+  onHide?: OnHidePolicy
+}
+
+export interface HiddenValueStep<F extends HiddenValueField = HiddenValueField> {
+  conditions?: unknown[]
+  onHide?: OnHidePolicy
+  fields: F[]
+}
+
+export interface HiddenField<F extends HiddenValueField = HiddenValueField> {
+  field: F
+  step: HiddenValueStep<F>
+  onHide: OnHidePolicy
+}
+
+type EvaluateConditions = (conditions: unknown[] | undefined, values: Record<string, unknown>) => boolean
+
+export declare const ON_HIDE_POLICIES: OnHidePolicy[]
+export declare const DEFAULT_ON_HIDE: OnHidePolicy
+
+export declare function resolveOnHide(
+  field: { onHide?: OnHidePolicy } | null | undefined,
+  step: { onHide?: OnHidePolicy } | null | undefined,
+  policy: ConditionPolicy | null | undefined
+): OnHidePolicy
+export declare function getHiddenFields<F extends HiddenValueField>(
+  steps: HiddenValueStep<F>[],
+  values: Record<string, unknown>,
+  evaluateConditions: EvaluateConditions,
+  policy?: ConditionPolicy | null
+): HiddenField<F>[]
+export declare function getHiddenRowFields<F extends { id: string; conditions?: unknown[]; onHide?: OnHidePolicy }>(
+  template: { fieldTemplate?: F[] } | null | undefined,
+  values: Record<string, unknown>,
+  row: Record<string, unknown>,
+  index: number,
+  evaluateConditions: EvaluateConditions,
+  step?: { onHide?: OnHidePolicy } | null,
+  policy?: ConditionPolicy | null
+): Array<{ field: F; step: { onHide?: OnHidePolicy } | null | undefined; onHide: OnHidePolicy }>
+export declare function stripHiddenValues(
+  steps: HiddenValueStep[],
+  values: Record<string, unknown>,
+  evaluateConditions: EvaluateConditions,
+  policy?: ConditionPolicy | null
+): { values: Record<string, unknown>; stripped: string[]; kept: Record<string, unknown> }
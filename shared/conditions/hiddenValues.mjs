@@ -0,0 +1,125 @@
+/**
+ * What happens to the value of a field once its own or its step's conditions hide it.
+ * Shared by the frontend engines (which enforce it as values change) and the backend
+ * (which strips hidden values from submissions before validating and storing them).
+ *
+ *   "keep"           the value stays in form state and is submitted (checked against its field,
+ *                    but never required, while hidden)
+ *   "clear"          the value is reset to empty and dropped from submissions
+ *   "restoreOnShow"  like "clear", but the client remembers the answer and puts it back
+ *                    when the field is shown again (default)
+ *
+ * The policy is taken from the field's `onHide`, else its step's `onHide`, else the form-level
+ * `conditionPolicy.onHide`. A field name shown by any visible field is never treated as hidden.
+ *
+ * Template fields of a repeater are hidden per row (see repeaterModel.mjs); the same policy applies
+ * to them, taken from the row field's `onHide`, else its step's, else the form's.
+ */
+
+import { getVisibleRowFields } from '../repeater/repeaterModel.mjs';
+
+export const ON_HIDE_POLICIES = ['keep', 'clear', 'restoreOnShow'];
+export const DEFAULT_ON_HIDE = 'restoreOnShow';
+
+function isOnHidePolicy(value) {
+  return ON_HIDE_POLICIES.includes(value);
+}
+
+/**
+ * Policy for a field's value while it is hidden
+ */
+export function resolveOnHide(field, step, policy) {
+  return [field?.onHide, step?.onHide, policy?.onHide].find(isOnHidePolicy) || DEFAULT_ON_HIDE;
+}
+
+/**
+ * Fields holding a value while hidden by their own or their step's conditions,
+ * each with the policy that applies
+ * @returns {Array<{ field: Object, step: Object, onHide: string }>}
+ */
+export function getHiddenFields(steps, values, evaluateConditions, policy) {
+  const visibleNames = new Set();
+  const hidden = [];
+
+  for (const step of steps || []) {
+    const stepVisible = evaluateConditions(step.conditions, values);
+    for (const field of step.fields || []) {
+      if (!field.name) continue;
+      if (stepVisible && evaluateConditions(field.conditions, values)) {
+        visibleNames.add(field.name);
+      } else if (values?.[field.name] !== undefined) {
+        hidden.push({ field, step, onHide: resolveOnHide(field, step, policy) });
+      }
+    }
+  }
+
+  return hidden.filter(({ field }) => !visibleNames.has(field.name));
+}
+
+/**
+ * Template fields holding a value in row `index` of a repeater while hidden by their per-row
+ * conditions, each with the policy that applies
+ * @returns {Array<{ field: Object, step: Object, onHide: string }>}
+ */
+export function getHiddenRowFields(template, values, row, index, evaluateConditions, step, policy) {
+  const visibleIds = new Set(getVisibleRowFields(template, values, row, index, evaluateConditions).map((field) => field.id));
+  return (template?.fieldTemplate || [])
+    .filter((field) => !visibleIds.has(field.id) && row?.[field.id] !== undefined)
+    .map((field) => ({ field, step, onHide: resolveOnHide(field, step, policy) }));
+}
+
+/**
+ * Rows of the visible repeaters (fields carrying their template as `repeater`) without the row
+ * fields hidden in them whose policy is not "keep"; dropped values are named "<repeater>.<index>.<id>"
+ */
+function stripHiddenRowValues(steps, values, evaluateConditions, policy, stripped) {
+  for (const step of steps || []) {
+    if (!evaluateConditions(step.conditions, values)) continue;
+    for (const field of step.fields || []) {
+      const rows = values[field.name];
+      if (!field.repeater || !Array.isArray(rows) || !evaluateConditions(field.conditions, values)) continue;
+      values[field.name] = rows.map((row, index) => {
+        const dropping = getHiddenRowFields(field.repeater, values, row, index, evaluateConditions, step, policy)
+          .filter(({ onHide }) => onHide !== 'keep');
+        if (dropping.length === 0) return row;
+        const remaining = { ...row };
+        for (const { field: rowField } of dropping) {
+          delete remaining[rowField.id];
+          stripped.push(`${field.name}.${index}.${rowField.id}`);
+        }
+        return remaining;
+      });
+    }
+  }
+}
+
+/**
+ * Submitted values without the hidden ones whose policy is not "keep". Dropping a value can hide
+ * fields that depended on it, so this repeats until nothing else is dropped. Hidden row fields are
+ * dropped from the rows of the visible repeaters after that; those a "keep" policy keeps stay in their row.
+ * @returns {{ values: Object, stripped: string[], kept: Object }} Remaining values, dropped names,
+ *   and the hidden (non-row) values kept by a "keep" policy
+ */
+export function stripHiddenValues(steps, values, evaluateConditions, policy) {
+  const result = { ...values };
+  const stripped = [];
+
+  for (;;) {
+    const dropping = getHiddenFields(steps, result, evaluateConditions, policy)
+      .filter(({ field, onHide }) => onHide !== 'keep' && field.name in result)
+      .map(({ field }) => field.name);
+    if (dropping.length === 0) break;
+    for (const name of new Set(dropping)) {
+      delete result[name];
+      stripped.push(name);
+    }
+  }
+  stripHiddenRowValues(steps, result, evaluateConditions, policy, stripped);
+
+  const kept = {};
+  for (const { field } of getHiddenFields(steps, result, evaluateConditions, policy)) {
+    kept[field.name] = result[field.name];
+  }
+
+  return { values: result, stripped, kept };
+}
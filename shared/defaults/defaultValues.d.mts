@@ -0,0 +1,25 @@
+// The parts of a field definition the default-value helpers read
+export interface DefaultFieldLike {
+  name: string
+  type?: string
+  multiple?: boolean
+  formType?: string
+  precision?: number
+  defaultValue?: unknown
+}
+
+export interface DefaultResolver {
+  resolveDefaultValues: (fields: DefaultFieldLike[] | undefined, values: Record<string, unknown>) => Record<string, unknown>
+}
+
+export declare const MULTI_VALUE_FIELD_TYPES: string[]
+
+export declare function isMultiValueField(field: { type?: string; multiple?: boolean } | null | undefined): boolean
+export declare function isDefaultExpression(defaultValue: unknown): defaultValue is { expression: unknown }
+export declare function hasDefaultValue(field: DefaultFieldLike | null | undefined): boolean
+export declare function coerceDefaultValue(
+  field: Omit<DefaultFieldLike, 'name'> | null | undefined,
+  value: unknown
+): unknown
+export declare function getStaticDefault(field: DefaultFieldLike | null | undefined): unknown
+export declare function createDefaultResolver(apply: (rule: any, data: any) => unknown): DefaultResolver
@@ -0,0 +1,121 @@
+/**
+ * Config default values shared by the frontend engines and the backend schema generator.
+ *
+ * A field's `defaultValue` is either a static value or a json-logic expression over the other values:
+ *   { "name": "numberOfBorrowers", "type": "dropdown", "defaultValue": 2, ... }
+ *   { "name": "downPayment", "type": "currency", "defaultValue": { "expression": { "*": [{ "var": "purchasePrice" }, 0.2] } } }
+ *
+ * - Defaults are coerced to the value the field's input produces: booleans for checkboxes, numbers for
+ *   numeric fields (see isNumericField), arrays of strings for multi-value fields (see isMultiValueField),
+ *   strings for every other input (option values included)
+ * - Expressions read the incoming values and the other defaults; chains settle over repeated passes
+ * - An expression that throws or yields null / undefined / NaN leaves the field without a default
+ * - Computed and repeater fields ignore `defaultValue` (their value comes from an expression / row count)
+ *
+ * json-logic is injected (`apply`) so each side uses its own installed copy.
+ */
+
+import { toNumericInput } from '../computed/computedFields.mjs';
+import { isNumericField, parseNumberInput } from '../numbers/numberFormat.mjs';
+
+const NO_DEFAULT_TYPES = ['computed', 'repeater'];
+
+// Field types whose value is an array of strings
+export const MULTI_VALUE_FIELD_TYPES = ['multi_select', 'checkbox_group', 'tag_input'];
+
+/**
+ * Whether a field's value is an array of strings: the multi-value types, and `options` /
+ * `options_cards` fields with `multiple`
+ */
+export function isMultiValueField(field) {
+  if (!field) return false;
+  if (MULTI_VALUE_FIELD_TYPES.includes(field.type)) return true;
+  return (field.type === 'options' || field.type === 'options_cards') && Boolean(field.multiple);
+}
+
+export function isDefaultExpression(defaultValue) {
+  return Boolean(defaultValue) && typeof defaultValue === 'object' && 'expression' in defaultValue;
+}
+
+export function hasDefaultValue(field) {
+  return Boolean(field) && field.defaultValue !== undefined && !NO_DEFAULT_TYPES.includes(field.type);
+}
+
+/**
+ * A default as the field's input would hold it; undefined when it has no usable value
+ */
+export function coerceDefaultValue(field, value) {
+  if (value === undefined || value === null || (typeof value === 'number' && !Number.isFinite(value))) {
+    return undefined;
+  }
+  if (isMultiValueField(field)) {
+    return (Array.isArray(value) ? value : [value]).filter((item) => typeof item !== 'object').map(String);
+  }
+  if (isNumericField(field)) {
+    return parseNumberInput(field, value) ?? undefined;
+  }
+  switch (field?.type) {
+    case 'checkbox':
+      return value === true || value === 'true' || value === 1;
+    default:
+      return typeof value === 'object' ? undefined : String(value);
+  }
+}
+
+/**
+ * Static (non-expression) default of a field, coerced; undefined when there is none
+ */
+export function getStaticDefault(field) {
+  if (!hasDefaultValue(field) || isDefaultExpression(field.defaultValue)) return undefined;
+  return coerceDefaultValue(field, field.defaultValue);
+}
+
+/**
+ * Build a resolver bound to a json-logic implementation
+ * @param {Function} apply - jsonLogic.apply
+ * @returns {{ resolveDefaultValues: Function }}
+ */
+export function createDefaultResolver(apply) {
+  function evaluate(field, values) {
+    const data = {};
+    for (const [name, value] of Object.entries(values)) {
+      data[name] = toNumericInput(value);
+    }
+    try {
+      return coerceDefaultValue(field, apply(field.defaultValue.expression, data));
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Defaults of the fields in `fields` that `values` does not set, keyed by field name
+  function resolveDefaultValues(fields, values) {
+    const pending = (fields || []).filter((field) => hasDefaultValue(field) && !(field.name in (values || {})));
+    const result = {};
+    for (const field of pending) {
+      const value = getStaticDefault(field);
+      if (value !== undefined) result[field.name] = value;
+    }
+
+    const expressionFields = pending.filter((field) => isDefaultExpression(field.defaultValue));
+    const working = { ...(values || {}), ...result };
+    // One pass per field settles any acyclic chain; cycles stop after the last pass
+    for (let pass = 0; pass <= expressionFields.length; pass++) {
+      let changed = false;
+      for (const field of expressionFields) {
+        const value = evaluate(field, working);
+        if (JSON.stringify(value) !== JSON.stringify(working[field.name])) {
+          working[field.name] = value;
+          changed = true;
+        }
+      }
+      if (!changed) break;
+    }
+    for (const field of expressionFields) {
+      if (working[field.name] !== undefined) result[field.name] = working[field.name];
+    }
+    return result;
+  }
+
+  return { resolveDefaultValues };
+}
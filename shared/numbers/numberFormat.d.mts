@@ -0,0 +1,37 @@
+// The parts of a field definition the number helpers read
+export interface NumberFieldLike {
+  type?: string
+  formType?: string
+  precision?: number
+  inputProps?: { startAdornment?: string; endAdornment?: string }
+}
+
+export type NumericFieldType = 'number' | 'integer' | 'percentage' | 'currency'
+
+export interface NumberFormat {
+  locale: string
+  currency: string
+}
+
+export interface NumberAdornments {
+  start?: string
+  end?: string
+}
+
+export declare const DEFAULT_NUMBER_FORMAT: NumberFormat
+export declare const NUMERIC_FIELD_TYPES: NumericFieldType[]
+
+export declare function resolveNumberFormat(config: { numberFormat?: Partial<NumberFormat> } | null | undefined): NumberFormat
+export declare function getNumericType(field: NumberFieldLike | null | undefined): NumericFieldType | null
+export declare function isNumericField(field: NumberFieldLike | null | undefined): boolean
+export declare function getNumberPrecision(field: NumberFieldLike | null | undefined): number | undefined
+export declare function parseNumberInput(field: NumberFieldLike | null | undefined, value: unknown, format?: NumberFormat): number | null
+export declare function formatCurrency(value: number, format?: NumberFormat, maximumFractionDigits?: number): string
+export declare function getCurrencySymbol(format?: NumberFormat): string
+export declare function formatNumberValue(
+  field: NumberFieldLike | null | undefined,
+  value: unknown,
+  format?: NumberFormat,
+  options?: { symbols?: boolean }
+): string
+export declare function getNumberAdornments(field: NumberFieldLike | null | undefined, format?: NumberFormat): NumberAdornments
@@ -0,0 +1,154 @@
+/**
+ * Numeric fields and number formatting shared by the frontend engines and the backend schema generator.
+ *
+ * Numeric fields hold numbers, not display text:
+ *   number      any number; rounded to `precision` decimals when set
+ *   integer     whole numbers
+ *   percentage  percent units (7.5 means 7.5%); rounded to `precision` (default 2)
+ *   currency    an amount in the form's currency; rounded to `precision` (default 0)
+ * A `text` field with `formType: "amount"` (older configs) is read as a `number` shown with the currency symbol.
+ *
+ * Typed text is parsed with the separators of the form's `numberFormat` locale and displayed with Intl:
+ *   { "numberFormat": { "locale": "de-DE", "currency": "EUR" } }   (en-US / USD when unset)
+ */
+
+export const DEFAULT_NUMBER_FORMAT = { locale: 'en-US', currency: 'USD' };
+
+export const NUMERIC_FIELD_TYPES = ['number', 'integer', 'percentage', 'currency'];
+
+const DEFAULT_PRECISION = { integer: 0, percentage: 2, currency: 0 };
+
+/**
+ * The form's `numberFormat` with defaults filled in
+ */
+export function resolveNumberFormat(config) {
+  const format = config?.numberFormat || {};
+  return {
+    locale: format.locale || DEFAULT_NUMBER_FORMAT.locale,
+    currency: format.currency || DEFAULT_NUMBER_FORMAT.currency
+  };
+}
+
+/**
+ * The numeric type a field stores ('number' | 'integer' | 'percentage' | 'currency'), or null
+ */
+export function getNumericType(field) {
+  if (!field) return null;
+  if (NUMERIC_FIELD_TYPES.includes(field.type)) return field.type;
+  if (field.type === 'text' && field.formType === 'amount') return 'number';
+  return null;
+}
+
+export function isNumericField(field) {
+  return getNumericType(field) !== null;
+}
+
+// Amounts show the currency symbol: currency fields and `formType: "amount"` text fields
+function isAmountField(field) {
+  return getNumericType(field) === 'currency' || field?.formType === 'amount';
+}
+
+/**
+ * Decimals a numeric field keeps; undefined when `number` fields have no `precision`
+ */
+export function getNumberPrecision(field) {
+  const type = getNumericType(field);
+  if (type === 'integer') return 0;
+  const precision = Number(field?.precision);
+  if (Number.isInteger(precision) && precision >= 0) return precision;
+  return DEFAULT_PRECISION[type];
+}
+
+function roundTo(num, digits) {
+  if (digits === undefined) return num;
+  const factor = 10 ** digits;
+  return Math.round(num * factor) / factor;
+}
+
+const separatorCache = new Map();
+
+// Group and decimal separators of a locale ("," and "." for en-US)
+function getSeparators(locale) {
+  if (!separatorCache.has(locale)) {
+    const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+    separatorCache.set(locale, {
+      group: parts.find((part) => part.type === 'group')?.value || ',',
+      decimal: parts.find((part) => part.type === 'decimal')?.value || '.'
+    });
+  }
+  return separatorCache.get(locale);
+}
+
+/**
+ * Read typed or stored input ("1,250.5", "$350,000", "7.5%", 42) as the field's number.
+ * Rounds to the field's precision; null when the input is empty or not a number.
+ */
+export function parseNumberInput(field, value, format = DEFAULT_NUMBER_FORMAT) {
+  let num;
+  if (typeof value === 'number') {
+    num = value;
+  } else if (typeof value === 'string') {
+    const { group, decimal } = getSeparators(format.locale || DEFAULT_NUMBER_FORMAT.locale);
+    const text = value
+      .split(group)
+      .join('')
+      .split(decimal)
+      .join('.')
+      .replace(/[^\d.-]/g, '');
+    if (!/^-?(\d+\.?\d*|\.\d+)$/.test(text)) return null;
+    num = Number(text);
+  } else {
+    return null;
+  }
+  return Number.isFinite(num) ? roundTo(num, getNumberPrecision(field)) : null;
+}
+
+/**
+ * Amount in the form's currency ("$350,000", "$1,250.50")
+ */
+export function formatCurrency(value, format = DEFAULT_NUMBER_FORMAT, maximumFractionDigits = 0) {
+  return new Intl.NumberFormat(format.locale || DEFAULT_NUMBER_FORMAT.locale, {
+    style: 'currency',
+    currency: format.currency || DEFAULT_NUMBER_FORMAT.currency,
+    minimumFractionDigits: Number.isInteger(value) ? 0 : maximumFractionDigits,
+    maximumFractionDigits
+  }).format(value);
+}
+
+/**
+ * Symbol of the form's currency ("$", "€")
+ */
+export function getCurrencySymbol(format = DEFAULT_NUMBER_FORMAT) {
+  const parts = new Intl.NumberFormat(format.locale || DEFAULT_NUMBER_FORMAT.locale, {
+    style: 'currency',
+    currency: format.currency || DEFAULT_NUMBER_FORMAT.currency
+  }).formatToParts(0);
+  return parts.find((part) => part.type === 'currency')?.value || '';
+}
+
+/**
+ * Display text of a numeric field's value; '' when it holds no number.
+ * `symbols: false` leaves out the currency symbol and percent sign (shown as adornments instead).
+ */
+export function formatNumberValue(field, value, format = DEFAULT_NUMBER_FORMAT, { symbols = true } = {}) {
+  const num = parseNumberInput(field, value, format);
+  if (num === null) return '';
+  const locale = format.locale || DEFAULT_NUMBER_FORMAT.locale;
+  const digits = getNumberPrecision(field);
+  if (isAmountField(field) && symbols) return formatCurrency(num, format, digits ?? 2);
+  if (getNumericType(field) === 'percentage' && symbols) {
+    return new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: digits }).format(num / 100);
+  }
+  return new Intl.NumberFormat(locale, { maximumFractionDigits: digits ?? 20 }).format(num);
+}
+
+/**
+ * Text shown before and after a numeric input: `inputProps.startAdornment` / `endAdornment` when set,
+ * otherwise the currency symbol for amounts and "%" for percentages
+ */
+export function getNumberAdornments(field, format = DEFAULT_NUMBER_FORMAT) {
+  return {
+    start: field?.inputProps?.startAdornment ?? (isAmountField(field) ? getCurrencySymbol(format) : undefined),
+    end: field?.inputProps?.endAdornment ?? (getNumericType(field) === 'percentage' ? '%' : undefined)
+  };
+}
@@ -0,0 +1,40 @@
+export interface PricingAdjustment {
+  label?: string
+  // json-logic rules over the form values; all must hold
+  conditions?: unknown[]
+  // Percentage points added to the rate
+  rate?: number
+  // Matching stops pricing ("not eligible")
+  ineligible?: boolean
+}
+
+export interface PricingConfig {
+  // "rules" (default), "api" or an adapter the app registered
+  adapter?: string
+  baseRate: number
+  termMonths?: number
+  // json-logic over the form values giving the loan amount
+  loanAmount?: unknown
+  // Values that must be answered before a quote is given
+  requires?: string[]
+  adjustments?: PricingAdjustment[]
+}
+
+export interface PriceQuote {
+  eligible: boolean
+  reason?: string
+  rate: number | null
+  payment: number | null
+  loanAmount: number | null
+  termMonths: number
+  adjustments: { label: string; rate: number }[]
+}
+
+export interface PricingEvaluator {
+  priceQuote: (pricing: PricingConfig | null | undefined, values: Record<string, unknown>) => PriceQuote | null
+}
+
+export declare const DEFAULT_TERM_MONTHS: number
+
+export declare function getMonthlyPayment(loanAmount: number, rate: number, termMonths: number): number | null
+export declare function createPricingEvaluator(apply: (rule: any, data: any) => unknown): PricingEvaluator
@@ -0,0 +1,121 @@
+/**
+ * Indicative pricing shared by the frontend pricer panel ("rules" adapter) and the backend
+ * stub behind POST /api/forms/:formId/price.
+ *
+ * A form opts in with a top-level `pricing` block and `"showPricer": true` on the steps that show the panel:
+ *   "pricing": {
+ *     "adapter": "rules",
+ *     "baseRate": 7.5,
+ *     "termMonths": 360,
+ *     "loanAmount": { "if": [{ "===": [{ "var": "loanPurpose" }, "purchase"] }, { "*": [{ "var": "purchasePrice" }, 0.75] }, { "var": "outstandingLoanBalance" }] },
+ *     "requires": ["loanTypeName", "estimatedCreditScore"],
+ *     "adjustments": [
+ *       { "label": "Credit score 760+", "conditions": [{ "===": [{ "var": "estimatedCreditScore" }, "760+"] }], "rate": -0.25 },
+ *       { "label": "Credit score below 660", "conditions": [{ "===": [{ "var": "estimatedCreditScore" }, "<660"] }], "ineligible": true }
+ *     ]
+ *   }
+ *
+ * - `adapter` is "rules" (priced in the browser, default), "api" (priced by the backend) or one the app registers
+ * - No quote until every `requires` value is answered
+ * - Each adjustment whose `conditions` all hold adds `rate` (percentage points); an `ineligible` one stops pricing
+ * - The payment is the fully amortizing monthly payment over `termMonths`; without a loan amount only the rate is given
+ * - Display-formatted inputs ("$350,000") are read as numbers
+ *
+ * json-logic is injected (`apply`) so each side uses its own installed copy.
+ */
+
+import { toNumericInput } from '../computed/computedFields.mjs';
+
+export const DEFAULT_TERM_MONTHS = 360;
+
+function isAnswered(value) {
+  return value !== undefined && value !== null && value !== '';
+}
+
+function roundTo(value, decimals) {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Monthly payment of a fully amortizing loan; `rate` is the annual rate in percent
+ */
+export function getMonthlyPayment(loanAmount, rate, termMonths) {
+  if (!(loanAmount > 0) || !(termMonths > 0)) return null;
+  const monthlyRate = rate / 100 / 12;
+  if (monthlyRate === 0) return roundTo(loanAmount / termMonths, 2);
+  return roundTo((loanAmount * monthlyRate) / (1 - (1 + monthlyRate) ** -termMonths), 2);
+}
+
+/**
+ * Build a pricer bound to a json-logic implementation
+ * @param {Function} apply - jsonLogic.apply
+ * @returns {{ priceQuote: Function }}
+ */
+export function createPricingEvaluator(apply) {
+  function holds(conditions, data) {
+    try {
+      return (conditions || []).every((rule) => Boolean(apply(rule, data)));
+    } catch {
+      return false;
+    }
+  }
+
+  function evaluate(expression, data) {
+    try {
+      return toNumericInput(apply(expression, data));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Quote for the current answers
+   * @returns {Object|null} null while a required answer is missing, else
+   *   { eligible, rate, payment, loanAmount, termMonths, adjustments: [{ label, rate }], reason? }
+   */
+  function priceQuote(pricing, values) {
+    if (!pricing || typeof pricing.baseRate !== 'number') return null;
+    if (!(pricing.requires || []).every((name) => isAnswered(values?.[name]))) return null;
+
+    const data = {};
+    for (const [name, value] of Object.entries(values || {})) {
+      data[name] = toNumericInput(value);
+    }
+
+    const termMonths = pricing.termMonths || DEFAULT_TERM_MONTHS;
+    const applied = [];
+    let rate = pricing.baseRate;
+    for (const adjustment of pricing.adjustments || []) {
+      if (!holds(adjustment.conditions, data)) continue;
+      if (adjustment.ineligible) {
+        return {
+          eligible: false,
+          reason: adjustment.label || 'Not eligible',
+          rate: null,
+          payment: null,
+          loanAmount: null,
+          termMonths,
+          adjustments: applied
+        };
+      }
+      rate += adjustment.rate || 0;
+      applied.push({ label: adjustment.label || '', rate: adjustment.rate || 0 });
+    }
+    rate = roundTo(rate, 3);
+
+    const amount = pricing.loanAmount === undefined ? null : evaluate(pricing.loanAmount, data);
+    const loanAmount = typeof amount === 'number' && Number.isFinite(amount) && amount > 0 ? roundTo(amount, 2) : null;
+
+    return {
+      eligible: true,
+      rate,
+      payment: loanAmount === null ? null : getMonthlyPayment(loanAmount, rate, termMonths),
+      loanAmount,
+      termMonths,
+      adjustments: applied
+    };
+  }
+
+  return { priceQuote };
+}
@@ -0,0 +1,65 @@
+// The parts of a template field the repeater helpers read
+export interface RepeaterTemplateField {
+  id: string
+  type?: string
+  conditions?: unknown[]
+  defaultValue?: unknown
+}
+
+export interface RepeaterTemplate<F extends RepeaterTemplateField = RepeaterTemplateField> {
+  minCount?: number
+  maxCount?: number
+  defaultCount?: number
+  countField?: string
+  // json-logic over the form values giving the row count; takes precedence over countField
+  countExpression?: unknown
+  label?: string
+  itemLabel?: string
+  fieldTemplate: F[]
+}
+
+export interface RepeaterStep {
+  stepId: string
+  insertAfterIndex: number
+}
+
+export declare const REPEATER_FIELD_TYPE: 'repeater'
+export declare const DEFAULT_ITEM_LABEL: string
+
+export declare function isRepeaterField(field: { type?: string } | null | undefined): boolean
+export declare function getRepeaterTemplate<T extends RepeaterTemplate>(
+  field: { name?: string; template?: string; repeater?: T } | null | undefined,
+  config: { arrayTemplates?: Record<string, T> } | null | undefined
+): T | null
+export declare function createRepeaterField<T extends RepeaterTemplate>(templateName: string, template: T): {
+  id: string
+  name: string
+  type: 'repeater'
+  label: string
+  required: boolean
+  template: string
+  repeater: T
+  grid: { xs: number }
+}
+export declare function expandRepeaterSteps<S extends { id: string; order?: number; fields: any[] }>(config: {
+  steps: S[]
+  arrayTemplates?: Record<string, RepeaterTemplate<any>>
+}): { steps: S[]; repeaterSteps: Map<string, RepeaterStep> }
+export declare function clampRowCount(template: RepeaterTemplate<any> | null | undefined, count: number): number
+export declare function getRowCountKeys(template: RepeaterTemplate<any> | null | undefined, acc?: Set<string>): Set<string>
+export declare function getRequestedRowCount(
+  template: RepeaterTemplate<any> | null | undefined,
+  values: Record<string, unknown>,
+  apply: (rule: any, data: any) => unknown
+): number | null
+export declare function createRow(template: RepeaterTemplate<any> | null | undefined): Record<string, string | boolean>
+export declare function getRowScope(values: Record<string, unknown>, row: unknown, index: number): Record<string, unknown>
+export declare function getVisibleRowFields<F extends RepeaterTemplateField>(
+  template: RepeaterTemplate<F> | null | undefined,
+  values: Record<string, unknown>,
+  row: unknown,
+  index: number,
+  evaluateConditions: (conditions: unknown[] | undefined, values: Record<string, unknown>) => boolean
+): F[]
+export declare function getRowFieldName(repeaterName: string, index: number, fieldId: string): string
+export declare function formatRowLabel(template: RepeaterTemplate<any> | null | undefined, index: number): string
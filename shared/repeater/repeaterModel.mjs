@@ -0,0 +1,201 @@
+/**
+ * Repeater (array) fields shared by the frontend engines and the backend schema generator.
+ *
+ * A repeater collects a list of rows with the same fields; its value is a real array of row objects:
+ *   "borrowers": [{ "first_name": "Ann", "email": "ann@example.com" }, { ... }]
+ *
+ * Rows are described by an entry of the form-level `arrayTemplates`:
+ *   "arrayTemplates": {
+ *     "borrowers": {
+ *       "minCount": 1, "maxCount": 4, "defaultCount": 1,
+ *       "countExpression": { "if": [{ "===": [{ "var": "application_type" }, "joint"] }, { "var": "numberOfBorrowers" }, 1] },
+ *       "label": "Borrowers", "itemLabel": "Borrower {index}",
+ *       "fieldTemplate": [{ "id": "first_name", "type": "text", "label": "First Name", ... }]
+ *     }
+ *   }
+ *
+ * A step places a repeater explicitly with `{ "type": "repeater", "name": "borrowers", "template": "borrowers" }`
+ * (`template` defaults to the field name). A template driven by a controller field
+ * (`"arrayController": "borrowers"`) and not placed anywhere gets a synthetic "<template>-details"
+ * step right after the controller's step.
+ *
+ * The row count follows `countExpression` (json-logic over the form values) or, without one, the value
+ * of `countField`; it is clamped to minCount..maxCount. Neither set means rows are only added by hand.
+ *
+ * Template fields may carry `conditions`; they are evaluated per row against the form values
+ * overlaid with the row's own values and `index` (0-based), so a row can show fields the others don't.
+ * A static `defaultValue` on a template field fills that field in every new row.
+ *
+ * json-logic is injected (`apply`) where needed so each side uses its own installed copy.
+ */
+
+import { getExpressionVars } from '../computed/computedFields.mjs';
+import { getStaticDefault } from '../defaults/defaultValues.mjs';
+import { isNumericField } from '../numbers/numberFormat.mjs';
+
+export const REPEATER_FIELD_TYPE = 'repeater';
+export const DEFAULT_ITEM_LABEL = 'Item {index}';
+
+export function isRepeaterField(field) {
+  return Boolean(field) && field.type === REPEATER_FIELD_TYPE;
+}
+
+/**
+ * Template of a repeater field: resolved on the field, else looked up by `template` (or name)
+ */
+export function getRepeaterTemplate(field, config) {
+  if (field?.repeater) return field.repeater;
+  return config?.arrayTemplates?.[field?.template || field?.name] || null;
+}
+
+function titleCase(name) {
+  return name[0].toUpperCase() + name.slice(1);
+}
+
+/**
+ * Repeater field generated for a controller-driven template
+ */
+export function createRepeaterField(templateName, template) {
+  return {
+    id: templateName,
+    name: templateName,
+    type: REPEATER_FIELD_TYPE,
+    label: template.label || titleCase(templateName),
+    required: (template.minCount ?? 1) > 0,
+    template: templateName,
+    repeater: template,
+    grid: { xs: 12 }
+  };
+}
+
+/**
+ * Steps with every repeater field's template resolved onto it (`field.repeater`) and a synthetic
+ * "<template>-details" step after each controller step whose template is not placed explicitly.
+ * Returns the steps and, per synthetic step, its id and the index of its controller step.
+ */
+export function expandRepeaterSteps(config) {
+  const templates = config?.arrayTemplates || {};
+  const placed = new Set();
+
+  const steps = (config?.steps || []).map((step) => {
+    if (!(step.fields || []).some(isRepeaterField)) return step;
+    return {
+      ...step,
+      fields: step.fields.map((field) => {
+        if (!isRepeaterField(field)) return field;
+        const template = getRepeaterTemplate(field, config);
+        placed.add(field.template || field.name);
+        return template ? { ...field, repeater: template } : field;
+      })
+    };
+  });
+
+  const repeaterSteps = new Map();
+  for (const [templateName, template] of Object.entries(templates)) {
+    if (placed.has(templateName)) continue;
+    const controllerStepIndex = steps.findIndex((step) =>
+      (step.fields || []).some((field) => field.arrayController === templateName)
+    );
+    if (controllerStepIndex < 0) continue;
+
+    const stepId = `${templateName}-details`;
+    steps.splice(controllerStepIndex + 1, 0, {
+      id: stepId,
+      name: template.label || titleCase(templateName),
+      description: 'Provide details',
+      order: (steps[controllerStepIndex]?.order || 0) + 0.1,
+      fields: [createRepeaterField(templateName, template)]
+    });
+    repeaterSteps.set(templateName, { stepId, insertAfterIndex: controllerStepIndex });
+  }
+
+  return { steps, repeaterSteps };
+}
+
+/**
+ * Row count limited to the template's minCount..maxCount
+ */
+export function clampRowCount(template, count) {
+  const min = template?.minCount ?? 0;
+  const max = template?.maxCount ?? Infinity;
+  return Math.max(min, Math.min(max, count));
+}
+
+/**
+ * Value keys the row count depends on
+ */
+export function getRowCountKeys(template, acc = new Set()) {
+  if (template?.countExpression !== undefined) {
+    getExpressionVars(template.countExpression, acc);
+  } else if (template?.countField) {
+    acc.add(template.countField);
+  }
+  return acc;
+}
+
+/**
+ * Row count asked for by `countExpression` / `countField`, clamped; null while it is unset
+ * (empty, not a positive number, or an expression that throws)
+ */
+export function getRequestedRowCount(template, values, apply) {
+  let raw;
+  if (template?.countExpression !== undefined) {
+    try {
+      raw = apply(template.countExpression, values);
+    } catch {
+      return null;
+    }
+  } else if (template?.countField) {
+    raw = values?.[template.countField];
+  } else {
+    return null;
+  }
+  const count = typeof raw === 'number' ? raw : parseInt(String(raw ?? ''), 10);
+  return Number.isFinite(count) && count > 0 ? clampRowCount(template, Math.floor(count)) : null;
+}
+
+// Value of an unanswered row field: '' (false for checkboxes, null for numeric fields)
+function getEmptyRowValue(field) {
+  if (field.type === 'checkbox') return false;
+  return isNumericField(field) ? null : '';
+}
+
+/**
+ * New row: each template field's static `defaultValue`, otherwise its empty value
+ */
+export function createRow(template) {
+  const row = {};
+  for (const field of template?.fieldTemplate || []) {
+    row[field.id] = getStaticDefault(field) ?? getEmptyRowValue(field);
+  }
+  return row;
+}
+
+/**
+ * Values row-level conditions are evaluated against
+ */
+export function getRowScope(values, row, index) {
+  return { ...values, ...(row && typeof row === 'object' ? row : {}), index };
+}
+
+/**
+ * Template fields shown in one row
+ */
+export function getVisibleRowFields(template, values, row, index, evaluateConditions) {
+  const scope = getRowScope(values, row, index);
+  return (template?.fieldTemplate || []).filter((field) => evaluateConditions(field.conditions, scope));
+}
+
+/**
+ * Value path of a row field, e.g. "borrowers.1.first_name"
+ */
+export function getRowFieldName(repeaterName, index, fieldId) {
+  return `${repeaterName}.${index}.${fieldId}`;
+}
+
+/**
+ * Heading of a row, e.g. "Borrower 2" for `itemLabel: "Borrower {index}"` (1-based)
+ */
+export function formatRowLabel(template, index) {
+  return (template?.itemLabel || DEFAULT_ITEM_LABEL).replace(/\{index\}/g, String(index + 1));
+}
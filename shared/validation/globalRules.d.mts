@@ -0,0 +1,43 @@
+// The parts of a `validation.globalRules` entry the executor reads
+export interface GlobalRuleLike {
+  rule: string
+  fields?: string[]
+  field?: string
+  target?: string
+  errorField?: string
+  operator?: string
+  value?: any
+  allowEqual?: boolean
+  conditions?: any[]
+  message?: string
+}
+
+// A rule type returns one entry per offending field
+export interface GlobalRuleError {
+  field: string
+  message: string
+}
+
+export type GlobalRuleHandler<R extends GlobalRuleLike = GlobalRuleLike> = (
+  rule: R,
+  values: Record<string, any>
+) => GlobalRuleError[]
+
+export interface ExecuteGlobalRulesOptions {
+  // Only rules whose fields are all active are executed
+  activeFields?: Iterable<string>
+  // Gate for rule-level `conditions`
+  evaluateConditions?: (conditions: unknown[] | undefined, values: Record<string, unknown>) => boolean
+  // Type of a field, for single-field rules (e.g. minCreditScore)
+  getFieldType?: (name: string) => string | undefined
+}
+
+export declare const globalRuleTypes: Record<string, GlobalRuleHandler>
+
+export declare function registerGlobalRuleType(name: string, handler: GlobalRuleHandler): void
+export declare function getRuleFields(rule: GlobalRuleLike): string[]
+export declare function executeGlobalRules(
+  rules: GlobalRuleLike[] | undefined,
+  values: Record<string, unknown>,
+  options?: ExecuteGlobalRulesOptions
+): Record<string, string>
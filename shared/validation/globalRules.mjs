@@ -0,0 +1,198 @@
+/**
+ * Global (cross-field) rule executor for `validation.globalRules`, shared by the frontend
+ * validation plan and the backend schema generator.
+ *
+ * Each rule type receives the rule definition and the current form values and returns a list of
+ * `{ field, message }` errors. Rule types are looked up by `rule.rule`
+ * (e.g. `{ type: "crossField", rule: "unique", fields: [...] }`). A rule naming a field-level rule
+ * of the registry instead (`{ field: "estimatedCreditScore", rule: "minCreditScore", value: 660 }`)
+ * checks that one field's value.
+ *
+ * Rule-level `conditions` are evaluated by the caller's condition evaluator (`evaluateConditions`).
+ */
+
+import { checkRule, normalizeValidationRules } from './ruleRegistry.mjs';
+
+function isEmpty(value) {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+function toNumber(value) {
+  if (typeof value === 'number') return value;
+  if (isEmpty(value)) return null;
+  const num = Number(String(value).replace(/[^\d.-]/g, ''));
+  return isNaN(num) ? null : num;
+}
+
+function normalize(value) {
+  return typeof value === 'string' ? value.trim().toLowerCase() : value;
+}
+
+const COMPARATORS = {
+  '===': (a, b) => a === b,
+  '==': (a, b) => a === b,
+  '!==': (a, b) => a !== b,
+  '<': (a, b) => a < b,
+  '<=': (a, b) => a <= b,
+  '>': (a, b) => a > b,
+  '>=': (a, b) => a >= b
+};
+
+/**
+ * Resolve the comparison target of a rule: another field (`target`) or a literal (`value`)
+ */
+function resolveTarget(rule, values) {
+  if (rule.target) return values[rule.target];
+  return rule.value;
+}
+
+export const globalRuleTypes = {
+  // Every non-empty value across `fields` must be distinct
+  unique: (rule, values) => {
+    const seen = new Set();
+    const errors = [];
+    for (const field of rule.fields || []) {
+      const value = values[field];
+      if (isEmpty(value)) continue;
+      const key = normalize(value);
+      if (seen.has(key)) {
+        errors.push({ field, message: rule.message || 'Values must be unique' });
+      } else {
+        seen.add(key);
+      }
+    }
+    return errors;
+  },
+
+  // Every field must equal the first one (e.g. confirm email)
+  equals: (rule, values) => {
+    const [first, ...rest] = rule.fields || [];
+    if (!first || isEmpty(values[first])) return [];
+    return rest
+      .filter((field) => !isEmpty(values[field]) && normalize(values[field]) !== normalize(values[first]))
+      .map((field) => ({ field, message: rule.message || 'Values must match' }));
+  },
+
+  // Sum of `fields` compared to `value` or `target` using `operator` (default ===)
+  sum: (rule, values) => {
+    const total = (rule.fields || []).reduce((acc, field) => acc + (toNumber(values[field]) || 0), 0);
+    const expected = toNumber(resolveTarget(rule, values));
+    if (expected === null) return [];
+    const operator = rule.operator || '===';
+    const compare = COMPARATORS[operator];
+    if (!compare || compare(total, expected)) return [];
+    const errorField = rule.errorField || rule.target || (rule.fields || [])[0];
+    const defaultMessage = operator === '===' ? `Total must equal ${expected}` : `Total must be ${operator} ${expected}`;
+    return [{ field: errorField, message: rule.message || defaultMessage }];
+  },
+
+  // fields[0] <operator> fields[1] (or `value`), numeric when both sides are numbers
+  compare: (rule, values) => {
+    const [left, right] = rule.fields || [];
+    const leftValue = values[left];
+    const rightValue = right ? values[right] : rule.value;
+    if (isEmpty(leftValue) || isEmpty(rightValue)) return [];
+    const a = toNumber(leftValue);
+    const b = toNumber(rightValue);
+    const compare = COMPARATORS[rule.operator || '<='];
+    if (!compare) return [];
+    const ok = a !== null && b !== null ? compare(a, b) : compare(String(leftValue), String(rightValue));
+    return ok ? [] : [{ field: rule.errorField || left, message: rule.message || 'Invalid value' }];
+  },
+
+  // Dates in `fields` must be in ascending order (set allowEqual to permit same day)
+  dateOrder: (rule, values) => {
+    const errors = [];
+    const fields = rule.fields || [];
+    for (let i = 1; i < fields.length; i++) {
+      const prev = values[fields[i - 1]];
+      const current = values[fields[i]];
+      if (isEmpty(prev) || isEmpty(current)) continue;
+      const prevTime = new Date(prev).getTime();
+      const currentTime = new Date(current).getTime();
+      if (isNaN(prevTime) || isNaN(currentTime)) continue;
+      const ok = rule.allowEqual ? currentTime >= prevTime : currentTime > prevTime;
+      if (!ok) {
+        errors.push({ field: fields[i], message: rule.message || `Must be after ${fields[i - 1]}` });
+      }
+    }
+    return errors;
+  },
+
+  // If any field is filled, all of them must be
+  requiredTogether: (rule, values) => {
+    const fields = rule.fields || [];
+    const anyFilled = fields.some((field) => !isEmpty(values[field]) && values[field] !== false);
+    if (!anyFilled) return [];
+    return fields
+      .filter((field) => isEmpty(values[field]))
+      .map((field) => ({ field, message: rule.message || 'This field is required' }));
+  }
+};
+
+/**
+ * Register a custom global rule type
+ * @param {string} name - Rule type name referenced by `rule.rule`
+ * @param {Function} handler - (rule, values) => Array<{ field, message }>
+ */
+export function registerGlobalRuleType(name, handler) {
+  if (!name || typeof handler !== 'function') {
+    throw new Error('Global rule type must have a name and handler function');
+  }
+  globalRuleTypes[name] = handler;
+}
+
+/**
+ * Fields a rule reads from
+ */
+export function getRuleFields(rule) {
+  const fields = [...(rule.fields || [])];
+  if (rule.field) fields.push(rule.field);
+  if (rule.target) fields.push(rule.target);
+  return fields;
+}
+
+// Single-field rules (e.g. minCreditScore) run the field-level rule from the registry
+function checkFieldRule(rule, value, fieldType) {
+  const [fieldRule] = normalizeValidationRules([{ rule: rule.rule, value: rule.value, message: rule.message }]);
+  return fieldRule ? checkRule(fieldRule, value, fieldType) : undefined;
+}
+
+/**
+ * Execute global rules against form values
+ * @param {Array} rules - `validation.globalRules` from the form config
+ * @param {Object} values - Form values
+ * @param {Object} options
+ * @param {Iterable<string>} [options.activeFields] - Only run rules whose fields are all active
+ * @param {Function} [options.evaluateConditions] - (conditions, values) => boolean, gate for rule-level `conditions`
+ * @param {Function} [options.getFieldType] - (name) => field type, for single-field rules
+ * @returns {Object} Map of field name to its first error message
+ */
+export function executeGlobalRules(rules, values, options = {}) {
+  const { activeFields, evaluateConditions, getFieldType = () => undefined } = options;
+  const active = activeFields ? new Set(activeFields) : null;
+  const errors = {};
+
+  for (const rule of rules || []) {
+    if (active && !getRuleFields(rule).every((field) => active.has(field))) continue;
+    if (rule.conditions && evaluateConditions && !evaluateConditions(rule.conditions, values)) continue;
+
+    const handler = globalRuleTypes[rule.rule];
+    let ruleErrors = [];
+
+    if (handler) {
+      ruleErrors = handler(rule, values);
+    } else if (rule.field) {
+      const message = checkFieldRule(rule, values[rule.field], getFieldType(rule.field));
+      if (message) ruleErrors = [{ field: rule.field, message }];
+    } else {
+      console.warn(`Unknown global rule type: ${rule.rule}`);
+    }
+
+    for (const { field, message } of ruleErrors) {
+      if (!errors[field]) errors[field] = message;
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,35 @@
+export type RuleParamsType = 'none' | 'number' | 'string' | 'array'
+
+export interface ValidationRuleDefinition {
+  params: RuleParamsType
+  message: string
+  // Check an array value as a whole instead of entry by entry
+  wholeValue?: boolean
+  validate: (value: unknown, params: any, fieldType: string) => boolean
+}
+
+// Canonical rule shape after normalisation
+export interface NormalizedValidationRule {
+  rule: string
+  value?: any
+  message: string
+}
+
+// Any of the accepted config shapes: canonical object, key-style object or bare string
+export type ValidationRuleInput = string | { [key: string]: any }
+
+export declare const VALIDATION_RULES: Record<string, ValidationRuleDefinition>
+
+export declare function registerValidationRule(
+  name: string,
+  definition: Partial<ValidationRuleDefinition> & Pick<ValidationRuleDefinition, 'validate'>
+): void
+export declare function getValidationRule(name: string): ValidationRuleDefinition | undefined
+export declare function getRuleIssue(rule: { rule: string; value?: any }): string | undefined
+export declare function normalizeValidationRules(rules: ValidationRuleInput[] | undefined | null): NormalizedValidationRule[]
+export declare function checkRule(rule: NormalizedValidationRule, value: unknown, fieldType?: string): string | undefined
+export declare function validateValue(rules: ValidationRuleInput[] | undefined | null, value: unknown, fieldType?: string): string | undefined
+export declare function getFieldValidationRules(
+  field: { type?: string; formType?: string; min?: number; max?: number; validation?: ValidationRuleInput[] } | null | undefined
+): ValidationRuleInput[]
+export declare function isRequiredByRules(rules: ValidationRuleInput[] | undefined | null): boolean
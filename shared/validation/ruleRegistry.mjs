@@ -0,0 +1,356 @@
+/**
+ * Field validation rule registry, shared by the frontend validators and the backend schema generator.
+ *
+ * Each rule definition:
+ *   params   - 'none' | 'number' | 'string' | 'array': the type of the rule's `value`
+ *   message  - default message; `{value}` is replaced with the rule's value
+ *   validate - (value, params, fieldType) => boolean; true when the value passes
+ *   wholeValue - true when the rule checks an array value (multi-value fields) as a whole;
+ *                otherwise each entry of an array value is checked
+ *
+ * Rules other than `required` skip empty values (including empty arrays), so optional fields stay optional.
+ *
+ * Configs may write rules in three legacy shapes, all accepted by normalizeValidationRules():
+ *   { rule: "minLength", value: 5, message: "..." }   canonical
+ *   { minLength: 5 }                                  key-style (`{ required: "msg" }` sets the message)
+ *   "email"                                           bare string
+ *
+ * Numeric fields' `min` / `max` properties act as `min` / `max` rules (see getFieldValidationRules).
+ */
+
+import { isNumericField } from '../numbers/numberFormat.mjs';
+
+function isBlank(value) {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+// Number of options picked: multi-select values are arrays, single choices count as one
+function selectionCount(value) {
+  return Array.isArray(value) ? value.length : 1;
+}
+
+function text(value) {
+  return isBlank(value) ? '' : String(value);
+}
+
+// "$350,000.00" -> 350000; null when there is no number
+function toNumber(value) {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const cleaned = text(value).replace(/[,$\s]/g, '');
+  if (cleaned === '') return null;
+  const num = Number(cleaned);
+  return Number.isNaN(num) ? null : num;
+}
+
+function toDate(value) {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value;
+  const date = new Date(text(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+// Ages are given directly ("42") or as a date of birth ("1980-04-12")
+function toAge(value) {
+  const raw = text(value);
+  if (/^\d{1,3}$/.test(raw.trim())) return Number(raw);
+  const birth = toDate(raw);
+  if (!birth) return null;
+  const now = new Date();
+  let age = now.getFullYear() - birth.getFullYear();
+  const beforeBirthday =
+    now.getMonth() < birth.getMonth() || (now.getMonth() === birth.getMonth() && now.getDate() < birth.getDate());
+  if (beforeBirthday) age -= 1;
+  return age;
+}
+
+// Credit scores are a number or a range option: "700-719" (its midpoint), "760+" (760), "<660" (659)
+function toCreditScore(value) {
+  const raw = text(value).trim();
+  const range = /^(\d+)\s*-\s*(\d+)$/.exec(raw);
+  if (range) return Math.floor((Number(range[1]) + Number(range[2])) / 2);
+  const atLeast = /^(\d+)\s*\+$/.exec(raw);
+  if (atLeast) return Number(atLeast[1]);
+  const below = /^<\s*(\d+)$/.exec(raw);
+  if (below) return Number(below[1]) - 1;
+  return toNumber(value);
+}
+
+export const VALIDATION_RULES = {
+  required: {
+    params: 'none',
+    message: 'This field is required',
+    wholeValue: true,
+    validate: (value, _params, fieldType) => (fieldType === 'checkbox' ? value === true : !isBlank(value))
+  },
+  email: {
+    params: 'none',
+    message: 'Please enter a valid email address',
+    validate: (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(text(value))
+  },
+  phoneUS: {
+    params: 'none',
+    message: 'Please enter a valid US phone number',
+    validate: (value) => {
+      const digits = text(value).replace(/\D/g, '');
+      return digits.length === 10 || (digits.length === 11 && digits.startsWith('1'));
+    }
+  },
+  zipCode: {
+    params: 'none',
+    message: 'Please enter a valid ZIP code',
+    validate: (value) => /^\d{5}(-\d{4})?$/.test(text(value).trim())
+  },
+  ssnFormat: {
+    params: 'none',
+    message: 'Please enter a valid SSN (XXX-XX-XXXX)',
+    validate: (value) => /^\d{3}-\d{2}-\d{4}$/.test(text(value).trim())
+  },
+  url: {
+    params: 'none',
+    message: 'Please enter a valid URL',
+    validate: (value) => /^https?:\/\/[^\s.]+\.[^\s]+$/i.test(text(value).trim())
+  },
+  currency: {
+    params: 'none',
+    message: 'Please enter a valid amount',
+    validate: (value) => {
+      const num = toNumber(value);
+      return num !== null && num >= 0;
+    }
+  },
+  date: {
+    params: 'none',
+    message: 'Please enter a valid date',
+    validate: (value) => toDate(value) !== null
+  },
+  minLength: {
+    params: 'number',
+    message: 'Must be at least {value} characters',
+    validate: (value, min) => text(value).length >= min
+  },
+  maxLength: {
+    params: 'number',
+    message: 'Must be no more than {value} characters',
+    validate: (value, max) => text(value).length <= max
+  },
+  min: {
+    params: 'number',
+    message: 'Must be at least {value}',
+    validate: (value, min) => {
+      const num = toNumber(value);
+      return num !== null && num >= min;
+    }
+  },
+  max: {
+    params: 'number',
+    message: 'Must be no more than {value}',
+    validate: (value, max) => {
+      const num = toNumber(value);
+      return num !== null && num <= max;
+    }
+  },
+  minAge: {
+    params: 'number',
+    message: 'Must be at least {value} years old',
+    validate: (value, min) => {
+      const age = toAge(value);
+      return age !== null && age >= min;
+    }
+  },
+  maxAge: {
+    params: 'number',
+    message: 'Must be no more than {value} years old',
+    validate: (value, max) => {
+      const age = toAge(value);
+      return age !== null && age <= max;
+    }
+  },
+  minCreditScore: {
+    params: 'number',
+    message: 'Credit score must be at least {value}',
+    validate: (value, min) => {
+      const score = toCreditScore(value);
+      return score !== null && score >= min;
+    }
+  },
+  pattern: {
+    params: 'string',
+    message: 'Invalid format',
+    validate: (value, source) => new RegExp(source).test(text(value))
+  },
+  oneOf: {
+    params: 'array',
+    message: 'Please select a valid option',
+    validate: (value, options) => options.map(String).includes(text(value))
+  },
+  minSelections: {
+    params: 'number',
+    message: 'Select at least {value}',
+    wholeValue: true,
+    validate: (value, min) => selectionCount(value) >= min
+  },
+  maxSelections: {
+    params: 'number',
+    message: 'Select no more than {value}',
+    wholeValue: true,
+    validate: (value, max) => selectionCount(value) <= max
+  }
+};
+
+// Older names still found in configs
+const RULE_ALIASES = {
+  zipCodeUS: 'zipCode',
+  phone: 'phoneUS',
+  ssn: 'ssnFormat'
+};
+
+function resolveRuleName(name) {
+  return RULE_ALIASES[name] || name;
+}
+
+/**
+ * Register (or replace) a rule so both client and server pick it up
+ */
+export function registerValidationRule(name, definition) {
+  if (!name || !definition || typeof definition.validate !== 'function') {
+    throw new Error('Validation rule must have a name and a validate function');
+  }
+  VALIDATION_RULES[name] = { params: 'none', message: 'Invalid value', ...definition };
+}
+
+export function getValidationRule(name) {
+  return VALIDATION_RULES[resolveRuleName(name)];
+}
+
+function formatMessage(template, value) {
+  return template.replace(/\{value\}/g, Array.isArray(value) ? value.join(', ') : String(value));
+}
+
+function matchesParams(type, value) {
+  switch (type) {
+    case 'none':
+      return true;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'array':
+      return Array.isArray(value);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Why a normalized rule cannot run (unknown name, bad value), or undefined when it is usable
+ */
+export function getRuleIssue(rule) {
+  const definition = getValidationRule(rule.rule);
+  if (!definition) return `Unknown validation rule "${rule.rule}"`;
+  if (!matchesParams(definition.params, rule.value)) {
+    return `Validation rule "${rule.rule}" expects a ${definition.params} value`;
+  }
+  if (definition.params === 'string' && rule.rule === 'pattern') {
+    try {
+      new RegExp(rule.value);
+    } catch {
+      return `Validation rule "pattern" has an invalid regular expression: ${rule.value}`;
+    }
+  }
+  return undefined;
+}
+
+function normalizeOne(entry) {
+  if (typeof entry === 'string') {
+    return { rule: resolveRuleName(entry) };
+  }
+  if (!entry || typeof entry !== 'object') return null;
+
+  if (typeof entry.rule === 'string') {
+    const { rule, value, message } = entry;
+    return { rule: resolveRuleName(rule), value, message };
+  }
+
+  // Key-style: the first key other than `message` names the rule
+  const key = Object.keys(entry).find((k) => k !== 'message');
+  if (!key) return null;
+  const rule = resolveRuleName(key);
+  const raw = entry[key];
+  const definition = getValidationRule(rule);
+  if (definition && definition.params === 'none') {
+    // `{ required: "Custom message" }` / `{ email: true }`
+    return { rule, message: typeof raw === 'string' ? raw : entry.message };
+  }
+  return { rule, value: raw, message: entry.message };
+}
+
+/**
+ * Convert any mix of legacy rule shapes into canonical `{ rule, value, message }` objects.
+ * Every rule gets a message (the registry default when the config gives none).
+ */
+export function normalizeValidationRules(rules) {
+  if (!Array.isArray(rules)) return [];
+  const normalized = [];
+  for (const entry of rules) {
+    const rule = normalizeOne(entry);
+    if (!rule) continue;
+    const definition = getValidationRule(rule.rule);
+    // Numeric params are sometimes written as strings ("660")
+    if (definition?.params === 'number' && typeof rule.value === 'string' && rule.value.trim() !== '' && !Number.isNaN(Number(rule.value))) {
+      rule.value = Number(rule.value);
+    }
+    if (!rule.message) {
+      rule.message = definition ? formatMessage(definition.message, rule.value) : 'Invalid value';
+    }
+    normalized.push(rule);
+  }
+  return normalized;
+}
+
+/**
+ * Check one normalized rule; returns the error message, or undefined when the value passes.
+ * Unknown or misconfigured rules are skipped (see getRuleIssue).
+ */
+export function checkRule(rule, value, fieldType = 'text') {
+  if (getRuleIssue(rule)) return undefined;
+  const definition = getValidationRule(rule.rule);
+  if (rule.rule !== 'required' && (isBlank(value) || (fieldType === 'checkbox' && value === false))) return undefined;
+  const passes =
+    Array.isArray(value) && !definition.wholeValue
+      ? value.every((item) => definition.validate(item, rule.value, fieldType))
+      : definition.validate(value, rule.value, fieldType);
+  return passes ? undefined : rule.message;
+}
+
+/**
+ * First failing rule's message for a value, in config order
+ */
+export function validateValue(rules, value, fieldType = 'text') {
+  for (const rule of normalizeValidationRules(rules)) {
+    const message = checkRule(rule, value, fieldType);
+    if (message) return message;
+  }
+  return undefined;
+}
+
+/**
+ * A field's `validation` rules, plus `min` / `max` rules for a numeric field's `min` / `max`
+ * properties unless the config already lists those rules
+ */
+export function getFieldValidationRules(field) {
+  const rules = Array.isArray(field?.validation) ? field.validation : [];
+  if (!isNumericField(field)) return rules;
+  const listed = new Set(normalizeValidationRules(rules).map((rule) => rule.rule));
+  const bounds = ['min', 'max']
+    .filter((name) => typeof field[name] === 'number' && !listed.has(name))
+    .map((name) => ({ rule: name, value: field[name] }));
+  return bounds.length > 0 ? [...rules, ...bounds] : rules;
+}
+
+export function isRequiredByRules(rules) {
+  return normalizeValidationRules(rules).some((rule) => rule.rule === 'required');
+}